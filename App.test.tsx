@@ -0,0 +1,196 @@
+import React from 'react';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from './App';
+import { setProvider } from './services/providers';
+import { clearResultCache } from './services/resultCache';
+import { Replay, replay } from './test/replay';
+import analyze from './test/fixtures/proxy/analyze.json';
+import analyzeAuthError from './test/fixtures/proxy/analyze-auth-error.json';
+import frame from './test/fixtures/proxy/frame.json';
+import frameEmptyImages from './test/fixtures/proxy/frame-empty-images.json';
+import health from './test/fixtures/proxy/health.json';
+import ingest from './test/fixtures/proxy/ingest.json';
+import media from './test/fixtures/proxy/media.json';
+import videosPendingDone from './test/fixtures/proxy/videos-pending-done.json';
+
+// Whole restoration runs against recorded proxy responses. jsdom can't decode
+// video, so frame capture, probing and fidelity measurement are stubbed.
+
+vi.mock('./services/keyframes', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./services/keyframes')>()),
+  sampleKeyframes: vi.fn(async () => []),
+  captureFrameAt: vi.fn(async () => 'U0VFRC1GUkFNRQ=='),
+}));
+
+vi.mock('./services/videoProcessing', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./services/videoProcessing')>()),
+  probeVideo: vi.fn(async () => ({ durationSeconds: 8, width: 1280, height: 720 })),
+}));
+
+vi.mock('./services/qualityMetrics', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./services/qualityMetrics')>()),
+  measureQuality: vi.fn(() => new Promise(() => {})),
+}));
+
+// The first poll of a pending operation happens after this long.
+const FIRST_POLL_MS = 2000;
+
+const MP4_BYTES = Buffer.from(ingest.exchanges[0].response.body.base64Data, 'base64');
+
+let proxy: Replay;
+const use = (...fixtures: Parameters<typeof replay>) => {
+  proxy = replay(...fixtures);
+  vi.stubGlobal('fetch', proxy.fetch);
+};
+
+beforeAll(() => {
+  // The source player counts as loaded, so a run can capture its seed frame.
+  Object.defineProperty(HTMLMediaElement.prototype, 'readyState', { configurable: true, get: () => 4 });
+});
+
+beforeEach(async () => {
+  // Every run starts cold, so each one makes the recorded requests.
+  await clearResultCache();
+  setProvider(null);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+// Uploads a clip, confirms rights to it and starts a run.
+const startRun = async (user: ReturnType<typeof userEvent.setup>) => {
+  const { container } = render(<App />);
+  await user.upload(
+    container.querySelector('input[type="file"]') as HTMLInputElement,
+    new File([MP4_BYTES], 'beach.mp4', { type: 'video/mp4' })
+  );
+  await user.click(await screen.findByRole('checkbox', { name: /I own this video/ }));
+  await user.click(screen.getByRole('button', { name: 'Confirm rights' }));
+  await user.click(screen.getByRole('button', { name: 'Start Restoration' }));
+};
+
+const approvePrompt = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.click(await screen.findByRole('button', { name: 'Generate Video' }));
+};
+
+// Waits for the finished run to store its output locally, the last request it makes.
+const expectResult = async () => {
+  expect(await screen.findByRole('button', { name: /Download Result/ }, { timeout: FIRST_POLL_MS + 3000 })).toBeInTheDocument();
+  await waitFor(() => expect(proxy.pending()).toHaveLength(0));
+};
+
+describe('App', () => {
+  it('restores an uploaded video end to end', async () => {
+    use(analyze, frame, videosPendingDone, media);
+    const user = userEvent.setup();
+    await startRun(user);
+    await approvePrompt(user);
+
+    await expectResult();
+    expect(proxy.requests.map((r) => `${r.method} ${r.url.split('?')[0]}`)).toEqual([
+      'POST /api/analyze',
+      'POST /api/frame',
+      'POST /api/videos',
+      'GET /api/operation',
+      'GET /api/media',
+    ]);
+    expect(proxy.requests[0].body).toMatchObject({ videoBase64: MP4_BYTES.toString('base64'), mimeType: 'video/mp4' });
+  });
+
+  it('explains a rejected API key and retries the failed stage', async () => {
+    use(analyzeAuthError, health, analyze, frame, videosPendingDone, media);
+    const user = userEvent.setup();
+    await startRun(user);
+
+    expect(await screen.findByText('API key rejected')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Check API key' }));
+    expect(await screen.findByText(/A key is configured, but it was rejected/)).toBeInTheDocument();
+
+    await user.click(await screen.findByRole('button', { name: 'Retry "Analyzing scene dynamics"' }));
+    await approvePrompt(user);
+    await expectResult();
+  });
+
+  it('offers to edit the prompt after a safety block, without re-running analysis', async () => {
+    use(analyze, frameEmptyImages);
+    const user = userEvent.setup();
+    await startRun(user);
+    await approvePrompt(user);
+
+    expect(await screen.findByText("Keyframe was blocked by safety filters")).toBeInTheDocument();
+    // Offered once the failure is recorded with the job.
+    await user.click(await screen.findByRole('button', { name: 'Edit prompt' }));
+    expect(await screen.findByRole('button', { name: 'Generate Video' })).toBeInTheDocument();
+    expect(proxy.requests.filter((r) => r.url === '/api/analyze')).toHaveLength(1);
+  });
+
+  it('restores a video imported from a link', async () => {
+    use(ingest, analyze, frame, videosPendingDone, media);
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByRole('button', { name: /paste link/i }));
+    await user.type(screen.getByPlaceholderText('Paste video URL (MP4, MOV or WebM)'), 'https://videos.example.com/beach.mp4');
+    await user.click(screen.getByRole('button', { name: 'Import from URL' }));
+    await user.click(await screen.findByRole('checkbox', { name: /I own this video/ }));
+    await user.click(screen.getByRole('button', { name: 'Confirm rights' }));
+    await user.click(screen.getByRole('button', { name: 'Start Restoration' }));
+    await approvePrompt(user);
+
+    await expectResult();
+    expect(proxy.requests[0].body).toEqual({ url: 'https://videos.example.com/beach.mp4' });
+  });
+
+  it('generates a clip from a prompt alone in Create mode', async () => {
+    use(videosPendingDone, media);
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByRole('button', { name: 'Create' }));
+    await user.type(screen.getByLabelText('Video prompt'), 'A paper boat drifting down a rainy street');
+    await user.click(screen.getByRole('button', { name: 'Continue' }));
+    // Nothing to attest without a start image.
+    await user.click(await screen.findByRole('button', { name: 'Generate' }));
+
+    await expectResult();
+    expect(proxy.requests.map((r) => `${r.method} ${r.url.split('?')[0]}`)).toEqual([
+      'POST /api/videos',
+      'GET /api/operation',
+      'GET /api/media',
+    ]);
+    expect(proxy.requests[0].body).toMatchObject({ prompt: 'A paper boat drifting down a rainy street' });
+    expect(proxy.requests[0].body).not.toHaveProperty('startFrameBase64');
+  });
+
+  it('renders the keyframe and video in the chosen style preset', async () => {
+    use(analyze, frame, videosPendingDone, media);
+    const user = userEvent.setup();
+    const { container } = render(<App />);
+    await user.upload(
+      container.querySelector('input[type="file"]') as HTMLInputElement,
+      new File([MP4_BYTES], 'beach.mp4', { type: 'video/mp4' })
+    );
+    await user.selectOptions(await screen.findByLabelText('Style'), 'Film noir');
+    await user.click(screen.getByRole('checkbox', { name: /I own this video/ }));
+    await user.click(screen.getByRole('button', { name: 'Confirm rights' }));
+    await user.click(screen.getByRole('button', { name: 'Start Restoration' }));
+    await approvePrompt(user);
+
+    await expectResult();
+    const [, frameRequest, videosRequest] = proxy.requests;
+    expect(frameRequest.body).toMatchObject({
+      styleModifier: expect.stringMatching(/^film noir still, black and white/),
+      negativePrompt: 'color, saturated colors, flat lighting, text, watermark',
+    });
+    expect(videosRequest.body).toMatchObject({
+      prompt: expect.stringMatching(/film noir, black and white, chiaroscuro lighting/),
+      negativePrompt: 'color, saturated colors, flat lighting, text, watermark',
+    });
+  });
+});
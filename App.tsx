@@ -1,8 +1,44 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { VideoData, ProcessingState } from './types';
+import { VideoData, ProcessingState, VeoConfig, AspectRatio, PromptRecord, PromptTemplate, VideoCandidate, JobRecord, StageTiming, StoredCandidate, Keyframe, CostLine, TraceSpan, RightsAttestation, QualityReport, StylePreset } from './types';
 import VideoUploader from './components/VideoUploader';
-import { Wand2, Loader2, Download, AlertCircle, CheckCircle2 } from './components/Icons';
-import { analyzeVideoContent, cleanFrame, generateCleanVideo } from './services/gemini';
+import ResumeOperationPanel from './components/ResumeOperationPanel';
+import SettingsPanel from './components/SettingsPanel';
+import PromptEditor from './components/PromptEditor';
+import CandidateGrid from './components/CandidateGrid';
+import HistorySidebar from './components/HistorySidebar';
+import ErrorPanel from './components/ErrorPanel';
+import ValidationReportPanel from './components/ValidationReportPanel';
+import KeyframePicker from './components/KeyframePicker';
+import BudgetPanel from './components/BudgetPanel';
+import RunDetailsDrawer from './components/RunDetailsDrawer';
+import ExportPanel from './components/ExportPanel';
+import QualityReportPanel from './components/QualityReportPanel';
+import RightsAttestationPanel from './components/RightsAttestationPanel';
+import StylePresetPanel from './components/StylePresetPanel';
+import { Wand2, Loader2, CheckCircle2, X, Trophy, History, Activity } from './components/Icons';
+import { getProvider } from './services/providers';
+import { cleanFrame } from './services/gemini';
+import { PipelineError, reduceProcessingState, runPipeline } from './services/pipeline';
+import { APPLY_AUDIO_STAGE, CREATION_STAGES, RESTORATION_STAGES, RestorationContext } from './services/restorationPipeline';
+import { browserMedia } from './services/browserMedia';
+import { PendingOperation, clearPendingOperation, loadPendingOperation } from './services/operationStore';
+import { createAbortError, isAbortError } from './services/polling';
+import { InvalidInputError, errorKindOf } from './services/errors';
+import { CREATION_TEMPLATE, buildPromptRecord, loadTemplates, saveTemplates } from './services/promptTemplates';
+import { DEFAULT_STYLE_ID, applyStyleConfig, findStylePreset, frameStyle, loadStylePresets, saveStylePresets } from './services/stylePresets';
+import { createJobId, downloadCandidateBlobs, expiringCandidates, getJob } from './services/jobStore';
+import { useJobHistory } from './hooks/useJobHistory';
+import { captureFrameAt, sampleKeyframes } from './services/keyframes';
+import { pickBestKeyframe } from './services/frameScore';
+import { UPLOAD_LIMITS } from './services/ingest';
+import { AnalysisInput, addUsage, estimateRunCost, estimateStageCosts, formatCost, toEstimate } from './services/pricing';
+import { BudgetSettings, checkBudget, loadBudget, recordSpend, saveBudget } from './services/budget';
+import { sha256Hex } from './services/provenance';
+import { planSegmentRanges } from './services/segments';
+import { DEFAULT_VEO_CONFIG, VEO_MODELS, closestAspectRatio, normalizeVeoConfig, validateVeoConfig } from './services/veoConfig';
+
+// Frames sampled across the source for seed selection and multi-frame analysis.
+const KEYFRAME_COUNT = 8;
 
 const App: React.FC = () => {
   const [videoData, setVideoData] = useState<VideoData | null>(null);
@@ -11,95 +47,690 @@ const App: React.FC = () => {
     message: '',
     progress: 0,
   });
-  const [resultVideoUrl, setResultVideoUrl] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<VideoCandidate[]>([]);
+  // The picked candidate is the downloadable result; the others stay comparable.
+  const [winnerId, setWinnerId] = useState<string | null>(null);
+  // Context a retryable stage failed with, so "Retry" can resume from it.
+  const [failedRun, setFailedRun] = useState<PipelineError | null>(null);
+  // Generation left running when the tab was last closed, resumed on load.
+  const [pendingOperation, setPendingOperation] = useState<PendingOperation | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [veoConfig, setVeoConfig] = useState<VeoConfig>(DEFAULT_VEO_CONFIG);
+  const [detectedAspectRatio, setDetectedAspectRatio] = useState<AspectRatio | null>(null);
+  // Length of the playable source, and whether to generate all of it as segments.
+  const [sourceSeconds, setSourceSeconds] = useState<number | null>(null);
+  const [extendToSource, setExtendToSource] = useState(false);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => loadTemplates());
+  // Pending review request from the pipeline; resolved by the prompt editor.
+  const [promptReview, setPromptReview] = useState<{
+    analysis: string;
+    resolve: (record: PromptRecord) => void;
+  } | null>(null);
+  const [promptRecord, setPromptRecord] = useState<PromptRecord | null>(null);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>(() => loadStylePresets());
+  const [styleId, setStyleId] = useState(DEFAULT_STYLE_ID);
+  // Seed frame rendered in a preset's style, shown until the preset or seed changes.
+  const [stylePreview, setStylePreview] = useState<{ presetId: string; seedTime: number; imageBase64: string } | null>(null);
+  const [previewingStyle, setPreviewingStyle] = useState(false);
+  const { jobs, saveJob, patchJob, removeJob, saveLocally } = useJobHistory();
+  const [historyOpen, setHistoryOpen] = useState(false);
+  // Job whose run details drawer is open.
+  const [detailsJobId, setDetailsJobId] = useState<string | null>(null);
+  // Calls traced by the run in progress; written to the job when it settles.
+  const [liveSpans, setLiveSpans] = useState<TraceSpan[]>([]);
+  // History job shown in the workspace (the running one, or one reopened from history).
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  // Stage outputs carried over from a job being re-run, so analysis isn't repeated.
+  const [rerunSeed, setRerunSeed] = useState<{ parentJobId: string; analysis?: string } | null>(null);
+  // Frames sampled from the source; the selected one seeds generation.
+  const [keyframes, setKeyframes] = useState<Keyframe[]>([]);
+  const [samplingKeyframes, setSamplingKeyframes] = useState(false);
+  const [seedTime, setSeedTime] = useState<number | null>(null);
+  const [analyzeFrames, setAnalyzeFrames] = useState(false);
+  const [budget, setBudget] = useState<BudgetSettings>(() => loadBudget());
+  // The user's confirmation of their rights to the current source; required to start.
+  const [attestation, setAttestation] = useState<RightsAttestation | null>(null);
+  // Whether the failed run was already retried automatically (see ErrorPanel).
+  const [autoRetried, setAutoRetried] = useState(false);
+  // Bumped after each recorded charge so the budget check re-reads the ledger.
+  const [, setSpendVersion] = useState(0);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  const handleVideoSelected = (data: VideoData) => {
+  // Offers to resume a generation left running by a reload or a stopped run.
+  const showPendingOperation = () => {
+    const pending = loadPendingOperation();
+    if (pending && pending.provider === getProvider().id) setPendingOperation(pending);
+  };
+
+  useEffect(() => {
+    showPendingOperation();
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Sample keyframes for each new playable source. Reopened jobs already have a stored frame.
+  useEffect(() => {
+    setKeyframes([]);
+    setSeedTime(null);
+    const previewUrl = videoData?.previewUrl;
+    if (!previewUrl || videoData?.frameBase64) return;
+
+    const controller = new AbortController();
+    setSamplingKeyframes(true);
+    // Long clips are trimmed for full-video analysis, so sampled frames cover more of them.
+    setAnalyzeFrames((videoData?.validation?.durationSeconds || 0) > UPLOAD_LIMITS.maxDurationSeconds);
+    sampleKeyframes(previewUrl, {
+      count: KEYFRAME_COUNT,
+      signal: controller.signal,
+      onSample: (keyframe) => setKeyframes(prev => [...prev, keyframe]),
+    })
+      .then((sampled) => {
+        const best = pickBestKeyframe(sampled);
+        if (best) setSeedTime(prev => prev ?? best.time);
+      })
+      .catch((e) => {
+        if (!isAbortError(e)) console.warn("Could not sample keyframes", e);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setSamplingKeyframes(false);
+      });
+    return () => {
+      controller.abort();
+      setSamplingKeyframes(false);
+    };
+  }, [videoData?.previewUrl, videoData?.frameBase64]);
+
+  const resetWorkspace = (data: VideoData | null) => {
     setVideoData(data);
-    setResultVideoUrl(null);
+    setCandidates([]);
+    setWinnerId(null);
+    setFailedRun(null);
+    setPromptRecord(null);
+    setDetectedAspectRatio(null);
+    setSourceSeconds(null);
+    setActiveJobId(null);
+    setRerunSeed(null);
+    setAttestation(null);
+    setStylePreview(null);
     setProcessingState({ status: 'idle', message: '', progress: 0 });
   };
 
-  const captureFirstFrame = (): string | null => {
+  const handleVideoSelected = (data: VideoData) => resetWorkspace(data);
+
+  // Stored outputs play from their local copy; remote-only ones from the Veo URI.
+  const toPlayableCandidates = (stored: StoredCandidate[]): VideoCandidate[] =>
+    stored.map(({ blob, ...candidate }) => (blob ? { ...candidate, url: URL.createObjectURL(blob) } : candidate));
+
+  const loadJobIntoWorkspace = (job: JobRecord) => {
+    stopProcessing();
+    resetWorkspace({
+      file: null,
+      url: job.source.url || null,
+      previewUrl: job.source.url || null,
+      mimeType: job.source.mimeType,
+      frameBase64: job.sourceFrameBase64,
+      provenance: job.sourceProvenance,
+      creation: job.creation,
+    });
+    // Same source, so its recorded attestation still applies.
+    setAttestation(job.attestation || null);
+    setVeoConfig(job.settings);
+    setStyleId(stylePresets.some(p => p.id === job.style?.id) ? job.style!.id : DEFAULT_STYLE_ID);
+    setHistoryOpen(false);
+  };
+
+  const openJob = (job: JobRecord) => {
+    loadJobIntoWorkspace(job);
+    setActiveJobId(job.id);
+    setCandidates(toPlayableCandidates(job.candidates));
+    setWinnerId(job.winnerId || null);
+    setPromptRecord(job.promptRecord || null);
+    if (job.status === 'completed') {
+      setProcessingState({ status: 'completed', message: 'Restoration complete!', progress: 100 });
+    } else if (job.status === 'error') {
+      setProcessingState({ status: 'error', message: 'Processing failed', progress: 0, error: job.error, errorKind: job.errorKind });
+    }
+  };
+
+  // Re-run keeps the stored frame and analysis; settings and style can be changed
+  // before starting, so a finished job can be re-rendered in another style.
+  const rerunJob = (job: JobRecord) => {
+    loadJobIntoWorkspace(job);
+    setPromptRecord(job.promptRecord || null);
+    setRerunSeed({ parentJobId: job.id, analysis: job.analysis });
+  };
+
+  const deleteJobFromHistory = async (job: JobRecord) => {
+    if (!window.confirm(`Delete job "${job.source.name}" and its stored outputs?`)) return;
+    await removeJob(job.id);
+    if (job.id === activeJobId) setActiveJobId(null);
+  };
+
+  // Match the output framing to the source: pick the closest ratio the model can render.
+  const matchSourceFraming = (width: number, height: number) => {
+    setDetectedAspectRatio(closestAspectRatio(width, height));
+    setVeoConfig(prev => normalizeVeoConfig({
+      ...prev,
+      aspectRatio: closestAspectRatio(width, height, VEO_MODELS[prev.model].aspectRatios),
+    }));
+  };
+
+  const handleSourceMetadata = () => {
     const video = videoRef.current;
-    const canvas = canvasRef.current;
-    if (!video || !canvas) return null;
+    if (!video?.videoWidth || !video.videoHeight) return;
+    if (Number.isFinite(video.duration)) setSourceSeconds(video.duration);
+    matchSourceFraming(video.videoWidth, video.videoHeight);
+  };
 
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
+  // Create mode: frame the output like the start image.
+  const handleStartImageLoad = (image: HTMLImageElement) => {
+    if (image.naturalWidth && image.naturalHeight) matchSourceFraming(image.naturalWidth, image.naturalHeight);
+  };
 
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-    const dataUrl = canvas.toDataURL('image/png');
-    return dataUrl.split(',')[1];
+  const selectKeyframe = (keyframe: Keyframe) => {
+    setSeedTime(keyframe.time);
+    if (videoRef.current) videoRef.current.currentTime = keyframe.time;
   };
 
-  const startProcessing = async () => {
-    if (!videoData?.previewUrl) return;
+  // The chosen seed frame, else the best sampled so far, else frame 0.
+  const seedFrameTime = () => seedTime ?? pickBestKeyframe(keyframes)?.time ?? 0;
 
-    // Check for API Key first using the helper (in service, but good to check presence)
-    if (!process.env.API_KEY && !(window as any).aistudio) {
-        alert("API Key environment missing.");
-        return;
+  // Full-resolution capture of the seed frame.
+  const captureSeedFrame = async (): Promise<string | null> => {
+    const video = videoRef.current;
+    if (!video) return null;
+    try {
+      return await captureFrameAt(video, seedFrameTime());
+    } catch (e) {
+      console.warn("Could not capture seed frame", e);
+      return null;
+    }
+  };
+
+  const handleBudgetChange = (next: BudgetSettings) => {
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  // What the analysis stage will be sent, mirroring the analyze stage's own choice.
+  const analysisInput = (): AnalysisInput => {
+    if (analyzeFrames && keyframes.length) return { kind: 'frames', count: keyframes.length };
+    if (videoData?.base64Data) {
+      const validation = videoData.validation;
+      const seconds = validation?.normalized?.durationSeconds ?? validation?.durationSeconds ?? videoRef.current?.duration;
+      return { kind: 'video', seconds: Number.isFinite(seconds) ? seconds! : UPLOAD_LIMITS.maxDurationSeconds };
     }
+    return { kind: 'image' };
+  };
+
+  // Adds incurred calls to the job's usage and to the budget ledger. The mock bills nothing.
+  const chargeJob = (jobId: string | undefined, lines: CostLine[]) => {
+    if (!jobId || !lines.length || getProvider().id === 'mock') return;
+    recordSpend(jobId, lines.reduce((sum, line) => sum + line.amount, 0));
+    setSpendVersion(v => v + 1);
+    patchJob(jobId, job => ({ usage: addUsage(job.usage, lines) }));
+  };
+
+  const handleTemplatesChange = (next: PromptTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(next);
+  };
+
+  // Picking a preset also applies its settings.
+  const selectStyle = (preset: StylePreset) => {
+    setStyleId(preset.id);
+    setVeoConfig(prev => applyStyleConfig(prev, preset));
+  };
+
+  const handleStylePresetsChange = (next: StylePreset[]) => {
+    setStylePresets(next);
+    saveStylePresets(next);
+  };
 
+  // Renders the seed frame in the selected style. The keyframe stage of a run with the
+  // same seed frame and aspect ratio is then answered from the result cache.
+  const previewStyle = async () => {
+    // Previews call Imagen too, so they are held to the same budget as runs.
+    if (!previewCheck.allowed) return;
+    const preset = style;
+    const time = seedFrameTime();
+    setPreviewingStyle(true);
     try {
-      setProcessingState({ status: 'analyzing', message: 'Analyzing video structure...', progress: 10 });
-      
-      // 1. Wait for video metadata to load so we can capture frame
-      if (videoRef.current && videoRef.current.readyState < 2) {
-          await new Promise(resolve => {
-              if (videoRef.current) videoRef.current.onloadeddata = resolve;
-          });
+      const seed = videoData?.frameBase64 || await captureSeedFrame();
+      if (!seed) throw new Error("Could not capture video frame");
+      let fromCache = false;
+      const imageBase64 = await cleanFrame(seed, 'image/png', {
+        aspectRatio: veoConfig.aspectRatio,
+        style: frameStyle(preset),
+        trace: {
+          stageId: 'style_preview',
+          onSpan: (span) => {
+            if (span.outcome === 'ok') fromCache = span.cache === 'hit';
+          },
+        },
+      });
+      if (!fromCache && getProvider().id !== 'mock') {
+        recordSpend(`style-preview-${preset.id}`, previewCost.total);
+        setSpendVersion(v => v + 1);
       }
+      setStylePreview({ presetId: preset.id, seedTime: time, imageBase64 });
+    } catch (e: any) {
+      console.warn("Could not preview style", e);
+      alert(`Could not preview the style: ${e.message || e}`);
+    } finally {
+      setPreviewingStyle(false);
+    }
+  };
 
-      const firstFrameBase64 = captureFirstFrame();
-      if (!firstFrameBase64) throw new Error("Could not capture video frame");
-
-      // 2. Analyze Content
-      // Use provided base64 if upload, otherwise we can't analyze deeply without backend.
-      // Fallback: Use the captured frame for analysis if full video base64 isn't available (link mode)
-      const dataToAnalyze = videoData.base64Data || firstFrameBase64;
-      const mimeToAnalyze = videoData.mimeType || 'image/png';
-      
-      const analysisPrompt = await analyzeVideoContent(dataToAnalyze, mimeToAnalyze);
-      console.log("Analysis:", analysisPrompt);
-      
-      setProcessingState({ status: 'cleaning_frame', message: 'Reconstructing clean keyframes...', progress: 40 });
-
-      // 3. Clean the first frame (Remove Logo)
-      const cleanedFrameBase64 = await cleanFrame(firstFrameBase64);
-      
-      setProcessingState({ status: 'generating', message: 'Generating logo-free video with Veo...', progress: 60 });
-
-      // 4. Generate Video
-      const videoUrl = await generateCleanVideo(
-        cleanedFrameBase64,
-        analysisPrompt,
-        (msg) => setProcessingState(prev => ({ ...prev, message: msg }))
-      );
-
-      if (videoUrl) {
-        setResultVideoUrl(videoUrl);
-        setProcessingState({ status: 'completed', message: 'Restoration complete!', progress: 100 });
-      }
+  // Pauses the pipeline until the user confirms the prompt (or cancels the run).
+  const requestPromptReview = (analysis: string, signal?: AbortSignal) =>
+    new Promise<PromptRecord>((resolve, reject) => {
+      setPromptReview({ analysis, resolve });
+      signal?.addEventListener('abort', () => {
+        setPromptReview(null);
+        reject(createAbortError());
+      }, { once: true });
+    });
+
+  // Snapshot of what a (possibly partial) run produced, for the job record.
+  const jobOutputs = (ctx: RestorationContext): Partial<JobRecord> => ({
+    analysis: ctx.analysis,
+    promptRecord: ctx.promptRecord,
+    startFrameBase64: ctx.cleanedFrameBase64,
+    segments: ctx.segmentPlan,
+  });
+
+  const executePipeline = async (context: RestorationContext, startAt?: string) => {
+    setFailedRun(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const jobId = context.jobId;
+    const timings: Record<string, StageTiming> = {};
+    const spans: TraceSpan[] = [];
+    setLiveSpans([]);
+    const recordRun = (job: JobRecord) => ({
+      timings: { ...job.timings, ...timings },
+      trace: [...(job.trace || []), ...spans],
+    });
+    const costInput = { config: context.settings, analysisInput: analysisInput(), segmentCount: context.segmentRanges?.length };
+    // A stage answered entirely from the result cache made no billable calls.
+    const servedFromCache = (stageId: string) => {
+      const calls = spans.filter(span => span.stageId === stageId && span.outcome === 'ok');
+      return calls.length > 0 && calls.every(span => span.cache === 'hit');
+    };
+
+    try {
+      const result = await runPipeline(stages, {
+        ...context,
+        // Each operation is charged on its own; segmented runs start one per segment.
+        onOperationStarted: (_name, config) =>
+          chargeJob(jobId, estimateStageCosts('generate', { ...costInput, config, segmentCount: 1 })),
+        onSpan: (span) => {
+          spans.push(span);
+          setLiveSpans([...spans]);
+        },
+      }, {
+        startAt,
+        signal: controller.signal,
+        onEvent: (event) => {
+          if (event.type === 'stage-start') timings[event.stageId] = { startedAt: Date.now() };
+          if (event.type === 'stage-complete' && timings[event.stageId]) timings[event.stageId].finishedAt = Date.now();
+          // Veo is charged when the operation starts (see onOperationStarted), not on completion.
+          if (event.type === 'stage-complete' && event.stageId !== 'generate' && !servedFromCache(event.stageId)) {
+            chargeJob(jobId, estimateStageCosts(event.stageId, costInput));
+          }
+          setProcessingState(prev => reduceProcessingState(prev, event));
+        },
+      });
+      const produced = result.candidates || [];
+      const winner = produced.length === 1 ? produced[0].id : undefined;
+      if (result.promptRecord) setPromptRecord(result.promptRecord);
+      setCandidates(produced);
+      setWinnerId(winner || null);
 
+      if (jobId) {
+        await patchJob(jobId, job => ({
+          ...recordRun(job),
+          ...jobOutputs(result),
+          status: 'completed',
+          candidates: produced,
+          winnerId: winner,
+          error: undefined,
+          errorKind: undefined,
+        }));
+        setLiveSpans([]);
+        // Keep a local copy before the remote URIs expire.
+        const stored = await downloadCandidateBlobs(produced);
+        await patchJob(jobId, { candidates: stored });
+      }
     } catch (error: any) {
+      const partial = error instanceof PipelineError ? (error.context as RestorationContext) : context;
+      if (isAbortError(error)) {
+        if (jobId) await patchJob(jobId, job => ({ ...recordRun(job), ...jobOutputs(partial), status: 'cancelled' }));
+        setLiveSpans([]);
+        return;
+      }
       console.error(error);
-      setProcessingState({ 
-        status: 'error', 
-        message: 'Processing failed', 
-        error: error.message || "Unknown error occurred" 
+      if (jobId) {
+        await patchJob(jobId, job => ({
+          ...recordRun(job),
+          ...jobOutputs(partial),
+          status: 'error',
+          error: error.message || "Unknown error occurred",
+          errorKind: errorKindOf(error instanceof PipelineError ? error.cause : error),
+        }));
+        setLiveSpans([]);
+      }
+      if (error instanceof PipelineError) {
+        if (error.retryable) setFailedRun(error);
+      } else {
+        setProcessingState({
+          status: 'error',
+          message: 'Processing failed',
+          progress: 0,
+          error: error.message || "Unknown error occurred",
+          errorKind: errorKindOf(error),
+        });
+      }
+    }
+  };
+
+  const startProcessing = async () => {
+    if (!videoData?.previewUrl && !videoData?.frameBase64 && !videoData?.creation) return;
+    if (validateVeoConfig(veoConfig).length) return;
+    if (!budgetCheck.allowed) return;
+    if (needsAttestation && !attestation) return;
+    if (missingAudioSource) return;
+
+    // Check for API Key first (the offline mock provider doesn't need one)
+    if (!getProvider().isAvailable()) {
+        alert("API Key environment missing.");
+        return;
+    }
+
+    setProcessingState({ status: 'running', message: 'Preparing video...', progress: 0 });
+    setAutoRetried(false);
+
+    // Wait for video metadata to load so we can capture frame
+    if (!videoData.frameBase64 && videoRef.current && videoRef.current.readyState < 2) {
+        await new Promise(resolve => {
+            if (videoRef.current) videoRef.current.onloadeddata = resolve;
+        });
+    }
+
+    // Create mode has no source frame: the prompt (and start image) go straight to Veo.
+    const creation = videoData.creation;
+    const seedFrameBase64 = creation ? undefined : videoData.frameBase64 || await captureSeedFrame();
+    if (!creation && !seedFrameBase64) {
+      setProcessingState({ status: 'error', message: 'Processing failed', progress: 0, error: "Could not capture video frame" });
+      return;
+    }
+
+    const video = videoRef.current;
+    const parentJob = rerunSeed ? jobs.find(j => j.id === rerunSeed.parentJobId) : undefined;
+    const job: JobRecord = {
+      id: createJobId(),
+      parentJobId: rerunSeed?.parentJobId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      status: 'running',
+      source: parentJob?.source || (creation ? {
+        name: creation.imageName || 'Text prompt',
+        mimeType: creation.imageMimeType,
+        sha256: creation.imageBase64
+          ? await sha256Hex(Uint8Array.from(atob(creation.imageBase64), (c) => c.charCodeAt(0)).buffer)
+          : undefined,
+      } : {
+        name: videoData.file?.name || videoData.url || 'Untitled video',
+        mimeType: videoData.mimeType,
+        size: videoData.file?.size,
+        url: videoData.url || undefined,
+        width: video?.videoWidth || undefined,
+        height: video?.videoHeight || undefined,
+        durationSeconds: video && Number.isFinite(video.duration) ? video.duration : undefined,
+        sha256: videoData.file ? await sha256Hex(videoData.file) : undefined,
+      }),
+      settings: veoConfig,
+      sourceFrameBase64: seedFrameBase64,
+      creation,
+      // Segments cover the source from its start; a single clip starts at the seed frame.
+      outputStartSeconds: segmentRanges.length > 1 ? 0 : seedFrameTime(),
+      sourceProvenance: videoData.provenance,
+      attestation: attestation || undefined,
+      style: creation ? undefined : style,
+      candidates: [],
+      timings: {},
+    };
+    setActiveJobId(job.id);
+    setCandidates([]);
+    setWinnerId(null);
+    try {
+      await saveJob(job);
+    } catch (e) {
+      console.warn("Could not record job in history", e);
+    }
+
+    if (creation) {
+      await executePipeline({
+        settings: veoConfig,
+        media: browserMedia,
+        jobId: job.id,
+        promptRecord: buildPromptRecord(CREATION_TEMPLATE, { prompt: creation.prompt }),
+        cleanedFrameBase64: creation.imageBase64,
+        startFrameMimeType: creation.imageMimeType,
       });
+      return;
     }
+
+    // A re-run with a stored analysis skips straight to prompt review.
+    await executePipeline({
+      settings: veoConfig,
+      media: browserMedia,
+      jobId: job.id,
+      reviewPrompt: requestPromptReview,
+      sourceBase64: videoData.base64Data,
+      sourceMimeType: videoData.mimeType,
+      frameBase64: seedFrameBase64,
+      style,
+      analysisFrames: analyzeFrames && keyframes.length ? keyframes.map(k => k.imageBase64) : undefined,
+      analysis: rerunSeed?.analysis,
+      segmentRanges: segmentRanges.length > 1 ? segmentRanges : undefined,
+      audioSource: videoData.file || undefined,
+      audioOffsetSeconds: job.outputStartSeconds,
+    }, rerunSeed?.analysis ? 'review_prompt' : undefined);
+  };
+
+  // Stops the run in the workspace, e.g. when another job or source is opened. An
+  // aborted poll keeps its pending operation, so the billed generation can be resumed.
+  const stopProcessing = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  };
+
+  // Explicit cancel of the running job: its generation is not wanted, so forget it.
+  const cancelProcessing = () => {
+    const running = processingState.status === 'running' && abortControllerRef.current !== null;
+    stopProcessing();
+    if (running && activeJobId && loadPendingOperation()?.jobId === activeJobId) clearPendingOperation();
+  };
+
+  // Quota errors get one automatic retry; further ones wait for a click.
+  const autoRetryFailedStage = () => {
+    setAutoRetried(true);
+    retryFailedStage();
   };
 
+  // Retries pick a failed run up again, so they are held to the budget like
+  // `startProcessing`, for the stages still to run.
+  const retryBudgetCheck = (run: PipelineError, startAt: string) => {
+    const ctx = run.context as RestorationContext;
+    const estimate = estimateRunCost({
+      config: ctx.settings,
+      analysisInput: analysisInput(),
+      startAt,
+      segmentCount: ctx.segmentRanges?.length,
+    });
+    return checkBudget(budget, estimate.total);
+  };
+
+  const retryFailedStage = () => {
+    if (!failedRun || !retryBudgetCheck(failedRun, failedRun.stageId).allowed) return;
+    executePipeline(failedRun.context as RestorationContext, failedRun.stageId);
+  };
+
+  // After a safety block: back to prompt review with the same analysis and frame.
+  const editPromptAfterFailure = () => {
+    if (!failedRun || !retryBudgetCheck(failedRun, 'review_prompt').allowed) return;
+    executePipeline({ ...(failedRun.context as RestorationContext), promptRecord: undefined }, 'review_prompt');
+  };
+
+  // After a timeout the operation may still finish upstream; hand it to the resume
+  // panel (which completes the job) rather than paying for a new generation.
+  const keepWaitingForOperation = () => {
+    const pending = loadPendingOperation();
+    if (!pending) return;
+    setPendingOperation(pending);
+    resetWorkspace(null);
+  };
+
+  const rateCandidate = (candidateId: string, rating: number) => {
+    setCandidates(prev => prev.map(c => (c.id === candidateId ? { ...c, rating } : c)));
+    if (activeJobId) {
+      patchJob(activeJobId, job => ({
+        candidates: job.candidates.map(c => (c.id === candidateId ? { ...c, rating } : c)),
+      }));
+    }
+  };
+
+  const saveQualityReport = (report: QualityReport) => {
+    if (!activeJobId) return;
+    patchJob(activeJobId, job => ({
+      quality: [...(job.quality || []).filter(r => r.candidateId !== report.candidateId), report],
+    }));
+  };
+
+  const pickWinner = (candidateId: string) => {
+    setWinnerId(candidateId);
+    if (activeJobId) patchJob(activeJobId, { winnerId: candidateId });
+  };
+
+  // Finishes a resumed generation like a run would: through the job's audio policy,
+  // then into its history record. Returns the candidates to show.
+  const handleResumedOperation = async (
+    resumed: VideoCandidate[],
+    { signal, onProgress }: { signal: AbortSignal; onProgress: (message: string) => void }
+  ): Promise<VideoCandidate[]> => {
+    const jobId = pendingOperation?.jobId;
+    if (!jobId) return resumed;
+    // One part of a segmented run is not its output: the later parts were never
+    // started and nothing was joined, so the job stays unfinished.
+    const segment = pendingOperation?.segment;
+    if (segment && segment.count > 1) {
+      patchJob(jobId, {
+        status: 'error',
+        error: `The tab was closed during part ${segment.index + 1} of ${segment.count}; only that part was recovered.`,
+      });
+      return resumed;
+    }
+
+    let candidates = resumed;
+    const job = await getJob(jobId).catch(() => undefined);
+    if (job) {
+      try {
+        if (job.settings.audio === 'keep') {
+          throw new InvalidInputError("The original audio can't be added to a resumed generation; the source file is no longer open");
+        }
+        ({ candidates = resumed } = await runPipeline([APPLY_AUDIO_STAGE], {
+          settings: job.settings,
+          media: browserMedia,
+          jobId,
+          candidates: resumed,
+          audioOffsetSeconds: job.outputStartSeconds,
+        }, {
+          signal,
+          onEvent: (event) => {
+            if (event.type === 'stage-start' || event.type === 'stage-progress') onProgress(event.message);
+          },
+        }));
+      } catch (error: any) {
+        const cause = error instanceof PipelineError ? error.cause : error;
+        if (!isAbortError(cause)) {
+          // The generation itself is kept with the job, as generated.
+          await patchJob(jobId, {
+            status: 'error',
+            error: (cause as Error)?.message,
+            errorKind: errorKindOf(cause),
+            candidates: await downloadCandidateBlobs(resumed),
+          });
+        }
+        throw cause;
+      }
+    }
+    const updated = await patchJob(jobId, {
+      status: 'completed',
+      candidates,
+      winnerId: candidates.length === 1 ? candidates[0].id : undefined,
+    });
+    if (updated) await patchJob(jobId, { candidates: await downloadCandidateBlobs(updated.candidates) });
+    return candidates;
+  };
+
+  const creation = videoData?.creation;
+  const stages = creation ? CREATION_STAGES : RESTORATION_STAGES;
+  // Prompt-only creations have no source whose rights need confirming.
+  const needsAttestation = !creation || Boolean(creation.imageBase64);
+  const segmentRanges = extendToSource && sourceSeconds ? planSegmentRanges(sourceSeconds, veoConfig.durationSeconds) : [];
+  const runEstimate = estimateRunCost({
+    config: veoConfig,
+    analysisInput: analysisInput(),
+    startAt: creation ? 'generate' : rerunSeed?.analysis ? 'review_prompt' : undefined,
+    segmentCount: segmentRanges.length,
+  });
+  const budgetCheck = checkBudget(budget, runEstimate.total);
+  const style = findStylePreset(stylePresets, styleId);
+  const previewCost = toEstimate(estimateStageCosts('clean_frame', { config: veoConfig, analysisInput: analysisInput() }));
+  const previewCheck = checkBudget(budget, previewCost.total);
+  const currentStylePreview = stylePreview?.presetId === style.id && stylePreview.seedTime === seedFrameTime()
+    ? stylePreview.imageBase64
+    : undefined;
+  // Keeping the original audio needs the source file, which reopened jobs don't have.
+  const missingAudioSource = veoConfig.audio === 'keep' && !videoData?.file;
+  // Stages that do nothing with the current settings are left off the progress checklist.
+  const idleStages = [
+    ...(segmentRanges.length < 2 ? ['plan_segments'] : []),
+    ...((veoConfig.audio ?? 'generate') === 'generate' ? ['apply_audio'] : []),
+  ];
+
+  const expiringJobs = jobs.filter(job => expiringCandidates(job).length > 0);
+
+  const resultVideoUrl = candidates.find(c => c.id === winnerId)?.url || null;
+  const activeJob = jobs.find(job => job.id === activeJobId);
+
+  const activeStageIndex = stages.findIndex(stage => stage.id === processingState.stageId);
+  const failedStage = stages.find(stage => stage.id === failedRun?.stageId);
+  const retryCheck = failedRun && failedStage ? retryBudgetCheck(failedRun, failedStage.id) : null;
+  const canRetry = Boolean(retryCheck?.allowed);
+  const canEditPrompt = Boolean((failedRun?.context as RestorationContext | undefined)?.analysis)
+    && retryBudgetCheck(failedRun!, 'review_prompt').allowed;
+
   return (
     <div className="min-h-screen bg-zinc-950 text-zinc-100 selection:bg-indigo-500/30">
-      {/* Hidden Canvas for processing */}
-      <canvas ref={canvasRef} className="hidden" />
+      <HistorySidebar
+        open={historyOpen}
+        jobs={jobs}
+        activeJobId={activeJobId}
+        onClose={() => setHistoryOpen(false)}
+        onOpen={openJob}
+        onRerun={rerunJob}
+        onDelete={deleteJobFromHistory}
+        onSaveLocally={(job) => saveLocally(job.id)}
+        onShowDetails={(job) => setDetailsJobId(job.id)}
+      />
+
+      <RunDetailsDrawer
+        job={jobs.find(job => job.id === detailsJobId) || null}
+        liveSpans={detailsJobId === activeJobId ? liveSpans : undefined}
+        onClose={() => setDetailsJobId(null)}
+      />
 
       {/* Header */}
       <header className="fixed top-0 w-full z-50 bg-zinc-950/80 backdrop-blur-md border-b border-zinc-800">
@@ -116,6 +747,24 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-4">
+             <button
+               onClick={() => setHistoryOpen(true)}
+               className="relative flex items-center gap-2 px-3 py-1 bg-zinc-900 border border-zinc-800 rounded-full text-xs text-zinc-400 hover:text-white transition-colors"
+             >
+                <History size={14} />
+                History
+                {expiringJobs.length > 0 && (
+                  <span
+                    title={`${expiringJobs.length} job(s) have outputs about to expire`}
+                    className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-yellow-400 rounded-full"
+                  />
+                )}
+             </button>
+             {getProvider().id === 'mock' && (
+               <div className="px-3 py-1 bg-yellow-500/10 border border-yellow-500/30 rounded-full text-xs text-yellow-400">
+                  Offline mock provider
+               </div>
+             )}
              <div className="px-3 py-1 bg-zinc-900 border border-zinc-800 rounded-full text-xs text-zinc-400">
                 Powered by Gemini 2.5 & Veo
              </div>
@@ -137,6 +786,14 @@ const App: React.FC = () => {
         </div>
 
         {/* Input Section */}
+        {pendingOperation && !videoData && (
+          <ResumeOperationPanel
+            operation={pendingOperation}
+            onDismiss={() => setPendingOperation(null)}
+            onResolved={handleResumedOperation}
+          />
+        )}
+
         {!videoData && (
           <VideoUploader onVideoSelected={handleVideoSelected} />
         )}
@@ -148,33 +805,145 @@ const App: React.FC = () => {
             {/* Original Video */}
             <div className="space-y-4">
               <div className="flex items-center justify-between">
-                <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Original Source</h3>
+                <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">{creation ? 'Prompt' : 'Original Source'}</h3>
                 <button 
-                  onClick={() => setVideoData(null)}
+                  onClick={() => {
+                    stopProcessing();
+                    resetWorkspace(null);
+                    showPendingOperation();
+                  }}
                   className="text-xs text-zinc-500 hover:text-white transition-colors"
                 >
-                  Change Video
+                  {creation ? 'Change Prompt' : 'Change Video'}
                 </button>
               </div>
               <div className="relative aspect-video bg-zinc-900 rounded-2xl overflow-hidden border border-zinc-800 shadow-xl group">
                 {/* We use crossorigin anonymous for canvas extraction if possible, though local files don't need it */}
-                <video 
-                  ref={videoRef}
-                  src={videoData.previewUrl || ''} 
-                  className="w-full h-full object-cover"
-                  controls
-                  crossOrigin="anonymous"
-                  muted
-                />
+                {creation ? (
+                  creation.imageBase64 ? (
+                    <img
+                      src={`data:${creation.imageMimeType || 'image/png'};base64,${creation.imageBase64}`}
+                      alt="Start image"
+                      className="w-full h-full object-cover"
+                      onLoad={(e) => handleStartImageLoad(e.currentTarget)}
+                    />
+                  ) : (
+                    <p className="absolute inset-0 flex items-center justify-center p-8 text-center text-zinc-300 leading-relaxed overflow-y-auto">
+                      {creation.prompt}
+                    </p>
+                  )
+                ) : videoData.previewUrl ? (
+                  <video 
+                    ref={videoRef}
+                    src={videoData.previewUrl} 
+                    className="w-full h-full object-cover"
+                    controls
+                    crossOrigin="anonymous"
+                    muted
+                    onLoadedMetadata={handleSourceMetadata}
+                  />
+                ) : videoData.frameBase64 && (
+                  <img
+                    src={`data:image/png;base64,${videoData.frameBase64}`}
+                    alt="Stored source frame"
+                    className="w-full h-full object-cover"
+                  />
+                )}
               </div>
               <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800/50 text-sm text-zinc-400">
-                 <p>Source detected. Ready for AI analysis and reconstruction.</p>
+                 <p>
+                   {creation
+                     ? creation.imageBase64
+                       ? <>Prompt: <span className="text-zinc-300">{creation.prompt}</span></>
+                       : 'Text-to-video: Veo generates the clip from the prompt alone.'
+                     : rerunSeed
+                       ? 'Re-running a previous job: its analysis is reused, adjust the settings or style and start again.'
+                       : 'Source detected. Ready for AI analysis and reconstruction.'}
+                 </p>
               </div>
+              {videoData.validation && <ValidationReportPanel report={videoData.validation} />}
+              {needsAttestation && (
+                <RightsAttestationPanel
+                  provenance={videoData.provenance}
+                  attestation={attestation}
+                  onChange={setAttestation}
+                  subject={creation ? 'image' : 'video'}
+                  disabled={processingState.status === 'running'}
+                />
+              )}
+              {videoData.previewUrl && !videoData.frameBase64 && (
+                <KeyframePicker
+                  keyframes={keyframes}
+                  expectedCount={KEYFRAME_COUNT}
+                  sampling={samplingKeyframes}
+                  selectedTime={seedTime}
+                  bestTime={pickBestKeyframe(keyframes)?.time}
+                  onSelect={selectKeyframe}
+                  analyzeFrames={analyzeFrames}
+                  onAnalyzeFramesChange={setAnalyzeFrames}
+                  disabled={processingState.status === 'running'}
+                />
+              )}
+              {!creation && (
+                <StylePresetPanel
+                  presets={stylePresets}
+                  selected={style}
+                  onSelect={selectStyle}
+                  onPresetsChange={handleStylePresetsChange}
+                  config={veoConfig}
+                  previewBase64={currentStylePreview}
+                  previewing={previewingStyle}
+                  onPreview={previewStyle}
+                  previewCost={formatCost(previewCost.total, previewCost.currency)}
+                  previewBlockedReason={previewCheck.allowed
+                    ? undefined
+                    : `A preview would exceed your ${budget.period === 'day' ? 'daily' : 'session'} budget (${formatCost(previewCheck.remaining ?? 0, previewCost.currency)} left).`}
+                  disabled={processingState.status === 'running'}
+                />
+              )}
+              <SettingsPanel
+                config={veoConfig}
+                onChange={setVeoConfig}
+                detectedAspectRatio={detectedAspectRatio}
+                sourceSeconds={sourceSeconds}
+                extendToSource={extendToSource}
+                onExtendToSourceChange={setExtendToSource}
+                segmentCount={segmentRanges.length}
+                canKeepAudio={Boolean(videoData.file)}
+                disabled={processingState.status === 'running'}
+              />
+              <BudgetPanel
+                budget={budget}
+                onChange={handleBudgetChange}
+                estimate={runEstimate}
+                check={budgetCheck}
+                disabled={processingState.status === 'running'}
+              />
             </div>
 
             {/* Result Video */}
             <div className="space-y-4">
-              <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Restored Output</h3>
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">{creation ? 'Generated Output' : 'Restored Output'}</h3>
+                <div className="flex items-center gap-4">
+                  {activeJob?.status === 'completed' && activeJob.analysis && activeJob.sourceFrameBase64 && processingState.status === 'completed' && (
+                    <button
+                      onClick={() => rerunJob(activeJob)}
+                      className="flex items-center gap-1 text-xs text-zinc-500 hover:text-white transition-colors"
+                    >
+                      <Wand2 size={12} /> Restyle
+                    </button>
+                  )}
+                  {activeJobId && (
+                    <button
+                      onClick={() => setDetailsJobId(activeJobId)}
+                      className="flex items-center gap-1 text-xs text-zinc-500 hover:text-white transition-colors"
+                    >
+                      <Activity size={12} /> Run details
+                    </button>
+                  )}
+                </div>
+              </div>
               
               <div className="relative aspect-video bg-zinc-900 rounded-2xl overflow-hidden border border-zinc-800 shadow-xl flex flex-col items-center justify-center">
                 
@@ -183,17 +952,52 @@ const App: React.FC = () => {
                     <div className="w-16 h-16 bg-zinc-800 rounded-full flex items-center justify-center mx-auto mb-4">
                       <Wand2 className="text-zinc-500" size={24} />
                     </div>
-                    <p className="text-zinc-400">Ready to process video.</p>
+                    <p className="text-zinc-400">{creation ? 'Ready to generate video.' : 'Ready to process video.'}</p>
                     <button
                       onClick={startProcessing}
-                      className="px-8 py-3 bg-white text-black font-semibold rounded-xl hover:bg-zinc-200 transition-all hover:scale-105 active:scale-95 shadow-[0_0_20px_rgba(255,255,255,0.2)]"
+                      disabled={validateVeoConfig(veoConfig).length > 0 || !budgetCheck.allowed || (needsAttestation && !attestation) || missingAudioSource}
+                      className="px-8 py-3 bg-white text-black font-semibold rounded-xl hover:bg-zinc-200 transition-all hover:scale-105 active:scale-95 shadow-[0_0_20px_rgba(255,255,255,0.2)] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
                     >
-                      Start Restoration
+                      {creation ? 'Generate' : 'Start Restoration'}
                     </button>
+                    {needsAttestation && !attestation && (
+                      <p className="text-xs text-zinc-500">Confirm your rights to the {creation ? 'start image' : 'source video'} to start.</p>
+                    )}
+                    {missingAudioSource && (
+                      <p className="text-xs text-zinc-500">
+                        {creation ? "Created clips have no original audio" : "The original audio isn't stored with past jobs"}; pick another audio option.
+                      </p>
+                    )}
+                    <p className="text-xs text-zinc-500">
+                      Estimated cost: about {formatCost(runEstimate.total, runEstimate.currency)}
+                    </p>
+                    {!budgetCheck.allowed && (
+                      <p className="text-xs text-red-400">
+                        This run would exceed your {budget.period === 'day' ? 'daily' : 'session'} budget
+                        ({formatCost(budgetCheck.remaining ?? 0, runEstimate.currency)} left). Raise the limit or lower the settings.
+                      </p>
+                    )}
                   </div>
                 )}
 
-                {(processingState.status !== 'idle' && processingState.status !== 'completed' && processingState.status !== 'error') && (
+                {processingState.status === 'running' && promptReview && (
+                  <div className="absolute inset-0 bg-zinc-900 z-20">
+                    <PromptEditor
+                      analysis={promptReview.analysis}
+                      templates={templates}
+                      initialTemplateId={promptRecord?.templateId}
+                      style={style}
+                      onTemplatesChange={handleTemplatesChange}
+                      onSubmit={(record) => {
+                        promptReview.resolve(record);
+                        setPromptReview(null);
+                      }}
+                      onCancel={cancelProcessing}
+                    />
+                  </div>
+                )}
+
+                {processingState.status === 'running' && !promptReview && (
                   <div className="absolute inset-0 bg-zinc-900/90 backdrop-blur-sm z-10 flex flex-col items-center justify-center p-8 text-center">
                     <div className="relative mb-6">
                         <div className="w-16 h-16 border-4 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin"></div>
@@ -204,37 +1008,58 @@ const App: React.FC = () => {
                     <h4 className="text-xl font-medium text-white mb-2">Processing Video</h4>
                     <p className="text-indigo-300 animate-pulse text-sm">{processingState.message}</p>
                     <div className="mt-8 flex flex-col gap-2 text-xs text-zinc-500 max-w-xs">
-                        <div className={`flex items-center gap-2 ${['analyzing', 'cleaning_frame', 'generating', 'completed'].includes(processingState.status) ? 'text-indigo-400' : ''}`}>
-                            <CheckCircle2 size={12} /> Analyzing scene dynamics
-                        </div>
-                        <div className={`flex items-center gap-2 ${['cleaning_frame', 'generating', 'completed'].includes(processingState.status) ? 'text-indigo-400' : ''}`}>
-                            <CheckCircle2 size={12} /> Removing watermark artifacts
-                        </div>
-                        <div className={`flex items-center gap-2 ${['generating', 'completed'].includes(processingState.status) ? 'text-indigo-400' : ''}`}>
-                            <CheckCircle2 size={12} /> Synthesizing clean video
-                        </div>
+                        {stages.map((stage, index) => (
+                          idleStages.includes(stage.id) ? null : (
+                            <div key={stage.id} className={`flex items-center gap-2 ${index <= activeStageIndex ? 'text-indigo-400' : ''}`}>
+                                <CheckCircle2 size={12} /> {stage.label}
+                            </div>
+                          )
+                        ))}
                     </div>
+                    <button
+                      onClick={cancelProcessing}
+                      className="mt-8 flex items-center gap-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg text-xs transition-colors"
+                    >
+                      <X size={14} />
+                      Cancel
+                    </button>
                   </div>
                 )}
 
                 {processingState.status === 'error' && (
-                  <div className="text-center p-8 max-w-sm">
-                    <div className="w-16 h-16 bg-red-500/10 rounded-full flex items-center justify-center mx-auto mb-4 text-red-500">
-                      <AlertCircle size={24} />
+                  <ErrorPanel
+                    state={processingState}
+                    retryLabel={failedStage?.label}
+                    onRetry={canRetry ? () => {
+                      setAutoRetried(false);
+                      retryFailedStage();
+                    } : undefined}
+                    onAutoRetry={canRetry && !autoRetried ? autoRetryFailedStage : undefined}
+                    retryBlockedReason={retryCheck && !retryCheck.allowed
+                      ? `Retrying would exceed your ${budget.period === 'day' ? 'daily' : 'session'} budget (${formatCost(retryCheck.remaining ?? 0, runEstimate.currency)} left). Raise the limit to retry.`
+                      : undefined}
+                    onEditPrompt={canEditPrompt ? editPromptAfterFailure : undefined}
+                    onKeepWaiting={keepWaitingForOperation}
+                    onDismiss={() => {
+                      setFailedRun(null);
+                      setProcessingState({ status: 'idle', message: '', progress: 0 });
+                    }}
+                  />
+                )}
+
+                {processingState.status === 'completed' && !resultVideoUrl && candidates.length > 1 && (
+                  <div className="text-center p-8 space-y-2">
+                    <div className="w-16 h-16 bg-zinc-800 rounded-full flex items-center justify-center mx-auto mb-4">
+                      <Trophy className="text-indigo-400" size={24} />
                     </div>
-                    <h4 className="text-white font-medium mb-2">Processing Failed</h4>
-                    <p className="text-sm text-red-400 mb-6">{processingState.error}</p>
-                    <button
-                      onClick={() => setProcessingState({ status: 'idle', message: '', progress: 0 })}
-                      className="px-6 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg text-sm transition-colors"
-                    >
-                      Try Again
-                    </button>
+                    <p className="text-white font-medium">{candidates.length} candidates ready</p>
+                    <p className="text-sm text-zinc-400">Compare them below and pick a winner to download.</p>
                   </div>
                 )}
 
                 {resultVideoUrl && (
                   <video 
+                    key={resultVideoUrl}
                     src={resultVideoUrl}
                     className="w-full h-full object-cover"
                     controls
@@ -244,21 +1069,49 @@ const App: React.FC = () => {
                 )}
               </div>
 
+              {resultVideoUrl && promptRecord && (
+                <details className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800/50 text-xs text-zinc-400">
+                  <summary className="cursor-pointer text-zinc-300">
+                    Prompt: {promptRecord.templateName}{promptRecord.modified ? ' (edited)' : ''}
+                  </summary>
+                  <p className="mt-3 font-mono text-zinc-500">{promptRecord.templateBody}</p>
+                  <ul className="mt-2 space-y-1">
+                    {Object.entries(promptRecord.values).map(([name, value]) => (
+                      <li key={name}><span className="font-mono text-zinc-500">{`{${name}}`}</span> {value}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
+              {resultVideoUrl && winnerId && !creation && (
+                <QualityReportPanel
+                  // Only local files can be read back from a canvas.
+                  sourceUrl={videoData.file ? videoData.previewUrl : null}
+                  videoUrl={resultVideoUrl}
+                  candidateId={winnerId}
+                  sourceOffsetSeconds={activeJob?.outputStartSeconds}
+                  report={activeJob?.quality?.find(r => r.candidateId === winnerId)}
+                  onReport={saveQualityReport}
+                />
+              )}
+
               {resultVideoUrl && (
-                <div className="flex justify-end">
-                   <a 
-                     href={resultVideoUrl} 
-                     download="restored_video.mp4"
-                     target="_blank"
-                     rel="noreferrer"
-                     className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors"
-                   >
-                     <Download size={16} />
-                     Download Result
-                   </a>
-                </div>
+                <ExportPanel videoUrl={resultVideoUrl} job={activeJob} />
               )}
             </div>
+
+            {candidates.length > 1 && (
+              <div className="lg:col-span-2 space-y-4">
+                <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Candidates</h3>
+                <CandidateGrid
+                  sourceUrl={videoData.previewUrl}
+                  candidates={candidates}
+                  winnerId={winnerId}
+                  onRate={rateCandidate}
+                  onPickWinner={pickWinner}
+                />
+              </div>
+            )}
           </div>
         )}
       </main>
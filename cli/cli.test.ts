@@ -0,0 +1,136 @@
+// @vitest-environment node
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EXIT_FAILED, EXIT_OK, EXIT_USAGE, runCli } from './cli';
+import { SourceMedia } from './ffmpegMedia';
+import { Fixture, replay } from '../test/replay';
+import analyze from '../test/fixtures/proxy/analyze.json';
+import analyzeAuthError from '../test/fixtures/proxy/analyze-auth-error.json';
+import frame from '../test/fixtures/proxy/frame.json';
+import videosPendingDone from '../test/fixtures/proxy/videos-pending-done.json';
+import media from '../test/fixtures/proxy/media.json';
+
+// Batch runs against recorded proxy responses, in Node with no DOM. ffmpeg isn't
+// needed: the source is "probed" and its frames "captured" by a stub. Veo status
+// polls run on real timers, hence the longer timeouts.
+
+const FIRST_POLL_MS = 2000;
+const SEED_FRAME = 'U0VFRC1GUkFNRQ==';
+
+const fakeMedia: SourceMedia = {
+  probe: async () => ({ durationSeconds: 8, width: 1280, height: 720 }),
+  sampleKeyframes: async () => [],
+  captureFrameAt: async () => SEED_FRAME,
+  captureLastFrame: async () => SEED_FRAME,
+  concatVideos: async () => {
+    throw new Error("Not used by single-clip runs");
+  },
+  applyAudioPolicy: async (candidates) => candidates,
+};
+
+let dir: string;
+let stdout: string[];
+let stderr: string[];
+
+const use = (...fixtures: Fixture[]) => {
+  const proxy = replay(...fixtures);
+  vi.stubGlobal('fetch', proxy.fetch);
+  return proxy;
+};
+
+const cli = (...args: string[]) =>
+  runCli(args, {
+    media: fakeMedia,
+    env: {},
+    stdout: (line) => stdout.push(line),
+    stderr: (line) => stderr.push(line),
+  });
+
+const events = () => stdout.map((line) => JSON.parse(line));
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'soracleaner-cli-test-'));
+  await writeFile(join(dir, 'clip.mp4'), 'source video bytes');
+  await writeFile(join(dir, 'settings.json'), JSON.stringify({ model: 'veo-3.1-fast-generate-preview', audio: 'generate' }));
+  stdout = [];
+  stderr = [];
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('runCli', () => {
+  it('runs every stage and writes the output and job record', async () => {
+    const proxy = use(analyze, frame, videosPendingDone, media);
+    const out = join(dir, 'out');
+
+    const code = await cli(join(dir, 'clip.mp4'), '--settings', join(dir, 'settings.json'), '--out', out, '--format', 'json', '--api', '/api');
+
+    expect(code).toBe(EXIT_OK);
+    expect(proxy.pending()).toEqual([]);
+    expect(proxy.requests[0].body).toEqual({
+      videoBase64: Buffer.from('source video bytes').toString('base64'),
+      mimeType: 'video/mp4',
+    });
+    expect((await readFile(join(out, 'clip-restored.mp4'))).toString('base64')).toBe(media.exchanges[0].response.bodyBase64);
+    const job = JSON.parse(await readFile(join(out, 'clip-restored.json'), 'utf8'));
+    expect(job).toMatchObject({ status: 'completed', settings: { aspectRatio: '16:9' }, source: { name: 'clip.mp4', width: 1280 } });
+    expect(job.trace.map((span: { stageId: string }) => span.stageId)).toEqual(['analyze', 'clean_frame', 'generate']);
+    expect(events().map((event) => event.type)).toContain('progress');
+    expect(events().at(-1)).toMatchObject({ type: 'summary', succeeded: 1, failed: 0 });
+  }, FIRST_POLL_MS + 5000);
+
+  it('fits the settings to the aspect ratio picked for the source', async () => {
+    const proxy = use(analyze, frame, videosPendingDone, media);
+    await writeFile(join(dir, 'settings.json'), JSON.stringify({ model: 'veo-3.0-generate-001', resolution: '1080p' }));
+    const portrait = { ...fakeMedia, probe: async () => ({ durationSeconds: 8, width: 720, height: 1280 }) };
+
+    const code = await runCli(
+      [join(dir, 'clip.mp4'), '--settings', join(dir, 'settings.json'), '--out', join(dir, 'out'), '--api', '/api'],
+      { media: portrait, env: {}, stdout: (line) => stdout.push(line), stderr: (line) => stderr.push(line) }
+    );
+
+    expect(code).toBe(EXIT_OK);
+    // Veo 3 renders 1080p only at 16:9.
+    expect(proxy.requests.find((request) => request.url.endsWith('/videos'))?.body)
+      .toMatchObject({ config: { aspectRatio: '9:16', resolution: '720p' } });
+  }, FIRST_POLL_MS + 5000);
+
+  it('reports a failed input and exits non-zero', async () => {
+    use(analyzeAuthError);
+
+    const code = await cli(dir, '--settings', join(dir, 'settings.json'), '--out', join(dir, 'out'), '--format', 'json', '--api', '/api');
+
+    expect(code).toBe(EXIT_FAILED);
+    expect(events()).toContainEqual(expect.objectContaining({ type: 'job-error', stageId: 'analyze', errorKind: 'auth' }));
+    expect(await readdir(join(dir, 'out'))).toEqual([]);
+  });
+
+  it('answers a repeated run from the cache directory', async () => {
+    const args = [join(dir, 'clip.mp4'), '--settings', join(dir, 'settings.json'), '--out', join(dir, 'out'), '--api', '/api', '--cache', join(dir, 'cache')];
+    use(analyze, frame, videosPendingDone, media);
+    expect(await cli(...args)).toBe(EXIT_OK);
+
+    const proxy = use(videosPendingDone, media);
+    stdout = [];
+    expect(await cli(...args)).toBe(EXIT_OK);
+    expect(proxy.pending()).toEqual([]);
+    expect(stdout).toContainEqual(expect.stringMatching(/done: .*clip-restored\.mp4 \(2 from cache\)/));
+  }, 2 * FIRST_POLL_MS + 5000);
+
+  it('rejects bad arguments and settings with a usage error', async () => {
+    expect(await cli(join(dir, 'clip.mp4'), '--settings', join(dir, 'settings.json'))).toBe(EXIT_USAGE);
+    expect(stderr[0]).toMatch(/--out is required/);
+
+    await writeFile(join(dir, 'settings.json'), JSON.stringify({ model: 'veo-2.0-generate-001', audio: 'generate', colour: 'red' }));
+    expect(await cli(join(dir, 'clip.mp4'), '--settings', join(dir, 'settings.json'), '--out', join(dir, 'out'))).toBe(EXIT_USAGE);
+    expect(stderr[1]).toMatch(/Unknown setting 'colour'/);
+    expect(stderr[1]).toMatch(/does not generate audio/);
+  });
+});
@@ -0,0 +1,305 @@
+import { AddressInfo } from 'node:net';
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { JobRecord, ProcessingState, StageTiming, TraceSpan, VeoConfig } from '../types';
+import {
+  PipelineError,
+  RESTORATION_STAGES,
+  InvalidInputError,
+  RestorationContext,
+  UPLOAD_LIMITS,
+  VEO_MODELS,
+  buildPromptRecord,
+  cacheStats,
+  closestAspectRatio,
+  createGeminiProvider,
+  createJobId,
+  errorKindOf,
+  isAbortError,
+  normalizeVeoConfig,
+  pickBestKeyframe,
+  planSegmentRanges,
+  reduceProcessingState,
+  runPipeline,
+  runQueue,
+  setApiBase,
+  setProvider,
+  setResultCacheStore,
+  validateVeoConfig,
+  withStyleValues,
+} from '../core';
+import { DEFAULT_UPSTREAM, createProxyServer } from '../server/app';
+import { SourceMedia, fetchVideo } from './ffmpegMedia';
+import { CliEvent, OutputFormat, createReporter } from './progress';
+import { CliSettings, parseSettings } from './settings';
+import { createFileCacheStore } from './fileCache';
+
+// Headless batch runs of the restoration pipeline: every video in the input goes
+// through the same stages as in the app, with the settings file in place of the
+// settings panel and prompt review. See `npm run cli -- --help`.
+
+export const EXIT_OK = 0;
+// At least one input failed; the others' outputs are still written.
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_CANCELLED = 130;
+
+const USAGE = `Usage: npm run cli -- <video file or directory> --settings <file.json> --out <dir> [options]
+
+Options:
+  --settings <file>     Settings applied to every input (see cli/settings.ts)
+  --out <dir>           Where outputs and run records are written
+  --concurrency <n>     Inputs processed at once (default 2)
+  --format human|json   Progress as text or as one JSON object per line (default human)
+  --api <url>           Use a running proxy, e.g. http://localhost:8787/api, instead of
+                        starting one with GEMINI_API_KEY
+  --cache <dir>         Reuse analysis and keyframe results across runs
+  --help                Show this help`;
+
+const VIDEO_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+};
+
+// As in the app: eight scored samples, whose JPEGs are also what frame analysis sends.
+const KEYFRAME_COUNT = 8;
+const KEYFRAME_LONG_EDGE = 768;
+
+export interface CliDeps {
+  media: SourceMedia;
+  env: Record<string, string | undefined>;
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+  // Aborts the run, e.g. on Ctrl+C; inputs not yet started are skipped.
+  signal?: AbortSignal;
+}
+
+class UsageError extends Error {}
+
+const listInputs = async (path: string): Promise<string[]> => {
+  const info = await stat(path).catch(() => {
+    throw new UsageError(`${path} does not exist`);
+  });
+  if (!info.isDirectory()) return [path];
+  const names = (await readdir(path)).filter((name) => VIDEO_TYPES[extname(name).toLowerCase()]).sort();
+  if (!names.length) throw new UsageError(`${path} contains no .mp4, .m4v, .mov or .webm files`);
+  return names.map((name) => join(path, name));
+};
+
+interface JobOptions {
+  settings: CliSettings;
+  media: SourceMedia;
+  outDir: string;
+  report: (event: CliEvent) => void;
+  signal?: AbortSignal;
+}
+
+// One input through the whole pipeline. Outputs are written as `<name>-restored.mp4`
+// (numbered when there are several) next to `<name>-restored.json`, the job record
+// as the app's history keeps it, without the base64 frames.
+const runJob = async (input: string, { settings, media, outDir, report, signal }: JobOptions) => {
+  const jobId = createJobId();
+  const timings: Record<string, StageTiming> = {};
+  const spans: TraceSpan[] = [];
+  let state: ProcessingState = { status: 'idle', message: '', progress: 0 };
+  report({ type: 'job-start', input, jobId });
+
+  try {
+    const bytes = await readFile(input);
+    const info = await media.probe(input, signal);
+    const keyframes = await media.sampleKeyframes(input, info, { count: KEYFRAME_COUNT, maxLongEdge: KEYFRAME_LONG_EDGE, signal });
+    const seedTime = settings.seedTime ?? pickBestKeyframe(keyframes)?.time ?? 0;
+    const frameBase64 = await media.captureFrameAt(input, seedTime, signal);
+    // Sources the app would trim or re-encode for analysis are analyzed from frames.
+    const analyzeFrames = settings.analyzeFrames ??
+      (info.durationSeconds > UPLOAD_LIMITS.maxDurationSeconds || bytes.length > UPLOAD_LIMITS.maxAnalysisBytes);
+    // A ratio picked for the source can rule out the configured resolution (Veo 3
+    // renders 1080p at 16:9 only), so the rest is snapped to fit it; a ratio the
+    // settings file pins is taken as is. Either way the job stops here, before
+    // anything is paid for, if the result still isn't something Veo accepts.
+    const pinnedRatio = settings.config.aspectRatio;
+    const sourceConfig: VeoConfig = {
+      ...settings.config,
+      aspectRatio: pinnedRatio ?? closestAspectRatio(info.width, info.height, VEO_MODELS[settings.config.model].aspectRatios),
+    };
+    const config = pinnedRatio ? sourceConfig : normalizeVeoConfig(sourceConfig);
+    const configErrors = validateVeoConfig(config);
+    if (configErrors.length) {
+      throw new InvalidInputError(`Invalid generation settings for this source: ${configErrors.join('; ')}`);
+    }
+    const ranges = settings.coverSource ? planSegmentRanges(info.durationSeconds, config.durationSeconds) : [];
+    const mimeType = VIDEO_TYPES[extname(input).toLowerCase()] || 'video/mp4';
+
+    const context: RestorationContext = {
+      settings: config,
+      media,
+      jobId,
+      style: settings.style,
+      reviewPrompt: async (analysis) => buildPromptRecord(settings.template, {
+        ...withStyleValues(settings.template.defaults, settings.style),
+        ...settings.templateValues,
+        analysis,
+      }),
+      sourceBase64: analyzeFrames ? undefined : bytes.toString('base64'),
+      sourceMimeType: mimeType,
+      frameBase64,
+      analysisFrames: analyzeFrames && keyframes.length ? keyframes.map((k) => k.imageBase64) : undefined,
+      segmentRanges: ranges.length > 1 ? ranges : undefined,
+      audioSource: new Blob([bytes], { type: mimeType }),
+      audioOffsetSeconds: ranges.length > 1 ? 0 : seedTime,
+      onSpan: (span) => spans.push(span),
+    };
+
+    const result = await runPipeline(RESTORATION_STAGES, context, {
+      signal,
+      onEvent: (event) => {
+        if (event.type === 'stage-start') timings[event.stageId] = { startedAt: Date.now() };
+        if (event.type === 'stage-complete' && timings[event.stageId]) timings[event.stageId].finishedAt = Date.now();
+        state = reduceProcessingState(state, event);
+        if (event.type === 'stage-start' || event.type === 'stage-progress') {
+          report({ type: 'progress', input, stageId: state.stageId, message: state.message, progress: state.progress });
+        }
+      },
+    });
+
+    const name = basename(input, extname(input));
+    const candidates = result.candidates || [];
+    const outputs: string[] = [];
+    for (const [index, candidate] of candidates.entries()) {
+      const video = await fetchVideo(candidate.url, signal);
+      const extension = video.type.includes('webm') ? '.webm' : '.mp4';
+      const path = join(outDir, `${name}-restored${candidates.length > 1 ? `-${index + 1}` : ''}${extension}`);
+      await writeFile(path, Buffer.from(await video.arrayBuffer()));
+      outputs.push(path);
+    }
+
+    const now = Date.now();
+    const job: JobRecord = {
+      id: jobId,
+      createdAt: timings[RESTORATION_STAGES[0].id]?.startedAt ?? now,
+      updatedAt: now,
+      status: 'completed',
+      source: { name: basename(input), mimeType, size: bytes.length, ...info },
+      settings: config,
+      analysis: result.analysis,
+      promptRecord: result.promptRecord,
+      segments: result.segmentPlan,
+      outputStartSeconds: context.audioOffsetSeconds,
+      style: settings.style,
+      candidates: candidates.map((candidate, index) => ({ id: candidate.id, url: outputs[index] })),
+      winnerId: candidates.length === 1 ? candidates[0].id : undefined,
+      timings,
+      trace: spans,
+    };
+    const record = join(outDir, `${name}-restored.json`);
+    await writeFile(record, JSON.stringify(job, null, 2) + '\n');
+    report({ type: 'job-complete', input, outputs, report: record, cacheHits: cacheStats(spans).hits });
+  } catch (error: any) {
+    if (!isAbortError(error)) {
+      const cause = error instanceof PipelineError ? error.cause : error;
+      report({
+        type: 'job-error',
+        input,
+        stageId: error instanceof PipelineError ? error.stageId : undefined,
+        errorKind: errorKindOf(cause),
+        error: (cause as Error)?.message || "Unknown error occurred",
+      });
+    }
+    throw error;
+  }
+};
+
+// Starts the proxy in this process on a free local port; the caller closes it.
+const startProxy = async (env: CliDeps['env']) => {
+  if (!env.GEMINI_API_KEY) throw new UsageError("GEMINI_API_KEY is not set (or pass --api to use a running proxy)");
+  const server = createProxyServer({
+    apiKey: env.GEMINI_API_KEY,
+    baseUrl: env.GEMINI_BASE_URL || DEFAULT_UPSTREAM,
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  return { server, apiBase: `http://127.0.0.1:${port}/api` };
+};
+
+export const runCli = async (argv: string[], { media, env, stdout, stderr, signal }: CliDeps): Promise<number> => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        settings: { type: 'string' },
+        out: { type: 'string' },
+        concurrency: { type: 'string', default: '2' },
+        format: { type: 'string', default: 'human' },
+        api: { type: 'string' },
+        cache: { type: 'string' },
+        help: { type: 'boolean', default: false },
+      },
+    });
+  } catch (e: any) {
+    stderr(`${e.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    stdout(USAGE);
+    return EXIT_OK;
+  }
+
+  let proxy: Awaited<ReturnType<typeof startProxy>> | undefined;
+  try {
+    if (positionals.length !== 1) throw new UsageError("Expected one input file or directory");
+    if (!values.settings) throw new UsageError("--settings is required");
+    if (!values.out) throw new UsageError("--out is required");
+    const concurrency = Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError("--concurrency must be a whole number of at least 1");
+    const format = values.format as OutputFormat;
+    if (format !== 'human' && format !== 'json') throw new UsageError("--format must be human or json");
+
+    const inputs = await listInputs(positionals[0]);
+    let settings: CliSettings;
+    try {
+      settings = parseSettings(await readFile(values.settings, 'utf8'));
+    } catch (e: any) {
+      throw new UsageError(`${values.settings}: ${e.message}`);
+    }
+    await mkdir(values.out, { recursive: true });
+
+    if (values.api) {
+      setApiBase(values.api);
+    } else {
+      proxy = await startProxy(env);
+      setApiBase(proxy.apiBase);
+    }
+    // The mock provider renders its clips with canvas, so headless runs use Gemini.
+    setProvider(createGeminiProvider());
+    setResultCacheStore(values.cache ? createFileCacheStore(values.cache) : null);
+
+    const report = createReporter(format, stdout);
+    const results = await runQueue(
+      inputs,
+      (input) => runJob(input, { settings, media, outDir: values.out!, report, signal }),
+      { concurrency, signal }
+    );
+    const failed = results.filter((result) => result.status === 'rejected').length;
+    report({ type: 'summary', succeeded: results.length - failed, failed });
+    if (signal?.aborted) return EXIT_CANCELLED;
+    return failed ? EXIT_FAILED : EXIT_OK;
+  } catch (e: any) {
+    if (!(e instanceof UsageError)) throw e;
+    stderr(`${e.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  } finally {
+    if (proxy) {
+      proxy.server.closeAllConnections();
+      proxy.server.close();
+    }
+  }
+};
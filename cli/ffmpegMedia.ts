@@ -0,0 +1,210 @@
+import { spawn } from 'node:child_process';
+import { resolveObjectURL } from 'node:buffer';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Keyframe, MediaBackend, VideoCandidate } from '../types';
+import { InvalidInputError, SCORE_WIDTH, createAbortError, scoreFrame } from '../core';
+
+// The pipeline's media work done with the ffmpeg and ffprobe binaries, plus what the
+// browser does before a run (probing, keyframe sampling, seed frame capture).
+
+export interface SourceInfo {
+  durationSeconds: number;
+  width: number;
+  height: number;
+}
+
+export interface SampleOptions {
+  count: number;
+  // Longer edge of each sample's JPEG; also what multi-frame analysis sends.
+  maxLongEdge: number;
+  signal?: AbortSignal;
+}
+
+export interface SourceMedia extends MediaBackend {
+  probe: (path: string, signal?: AbortSignal) => Promise<SourceInfo>;
+  // Frames spread evenly across the source, scored like the browser's samples.
+  sampleKeyframes: (path: string, info: SourceInfo, options: SampleOptions) => Promise<Keyframe[]>;
+  // Full-resolution PNG of the frame at `time`, base64.
+  captureFrameAt: (path: string, time: number, signal?: AbortSignal) => Promise<string>;
+}
+
+const run = (command: string, args: string[], signal?: AbortSignal): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, { signal, stdio: ['ignore', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    let stderr = '';
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk).slice(-4000);
+    });
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        reject(new Error(`${command} was not found on PATH; the CLI needs ffmpeg and ffprobe to read and write video`));
+      } else {
+        reject(error.name === 'AbortError' ? createAbortError() : error);
+      }
+    });
+    child.on('close', (code) => {
+      if (code === 0) resolve(Buffer.concat(stdout));
+      else reject(new Error(`${command} failed: ${stderr.trim().split('\n').pop() || `exit code ${code}`}`));
+    });
+  });
+
+const ffmpeg = (args: string[], signal?: AbortSignal) =>
+  run('ffmpeg', ['-hide_banner', '-loglevel', 'error', '-nostdin', ...args], signal);
+
+const frameArgs = (path: string, time: number, output: string[]) => [
+  '-ss', time.toFixed(3), '-i', path, '-frames:v', '1', ...output, '-f', 'image2pipe', '-',
+];
+
+// Runs `work` in a fresh temp directory that is removed afterwards.
+const withTempDir = async <T>(work: (dir: string) => Promise<T>): Promise<T> => {
+  const dir = await mkdtemp(join(tmpdir(), 'soracleaner-'));
+  try {
+    return await work(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
+
+const writeBlob = async (path: string, blob: Blob) => {
+  await writeFile(path, Buffer.from(await blob.arrayBuffer()));
+};
+
+// Downloads an output: proxy URLs over HTTP, `blob:` URLs from this process.
+export const fetchVideo = async (url: string, signal?: AbortSignal): Promise<Blob> => {
+  if (url.startsWith('blob:')) {
+    const blob = resolveObjectURL(url);
+    if (!blob) throw new Error("Output is no longer available");
+    return blob as Blob;
+  }
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Could not fetch the output (${response.status})`);
+  return response.blob();
+};
+
+const probe = async (path: string, signal?: AbortSignal): Promise<SourceInfo> => {
+  const output = await run('ffprobe', [
+    '-v', 'error', '-select_streams', 'v:0',
+    '-show_entries', 'stream=width,height:format=duration', '-of', 'json', path,
+  ], signal);
+  const parsed = JSON.parse(output.toString('utf8'));
+  const stream = parsed.streams?.[0];
+  if (!stream) throw new InvalidInputError(`${path} has no video track`);
+  return {
+    durationSeconds: Number(parsed.format?.duration) || 0,
+    width: Number(stream.width) || 0,
+    height: Number(stream.height) || 0,
+  };
+};
+
+const captureFrameAt = async (path: string, time: number, signal?: AbortSignal): Promise<string> =>
+  (await ffmpeg(frameArgs(path, time, ['-c:v', 'png']), signal)).toString('base64');
+
+const sampleKeyframes = async (
+  path: string,
+  { durationSeconds, width, height }: SourceInfo,
+  { count, maxLongEdge, signal }: SampleOptions
+): Promise<Keyframe[]> => {
+  const times = durationSeconds > 0
+    ? Array.from({ length: count }, (_, i) => (durationSeconds * (i + 0.5)) / count)
+    : [0];
+  const scale = Math.min(1, maxLongEdge / Math.max(width, height, 1));
+  const scoreHeight = Math.max(1, Math.round((SCORE_WIDTH * height) / Math.max(width, 1)));
+
+  const keyframes: Keyframe[] = [];
+  for (const time of times) {
+    const jpeg = await ffmpeg(frameArgs(path, time, [
+      '-vf', `scale=${Math.max(1, Math.round(width * scale))}:${Math.max(1, Math.round(height * scale))}`,
+      '-c:v', 'mjpeg', '-q:v', '3',
+    ]), signal);
+    const pixels = await ffmpeg(frameArgs(path, time, [
+      '-vf', `scale=${SCORE_WIDTH}:${scoreHeight}`, '-pix_fmt', 'rgba', '-c:v', 'rawvideo',
+    ]), signal);
+    keyframes.push({
+      time,
+      imageBase64: jpeg.toString('base64'),
+      ...scoreFrame(new Uint8ClampedArray(pixels.buffer, pixels.byteOffset, pixels.byteLength), SCORE_WIDTH, scoreHeight),
+    });
+  }
+  return keyframes;
+};
+
+const captureLastFrame = (clip: Blob, signal?: AbortSignal): Promise<string> =>
+  withTempDir(async (dir) => {
+    const path = join(dir, 'clip.mp4');
+    await writeBlob(path, clip);
+    // Seeking exactly to the end yields no frame, as in the browser.
+    const png = await ffmpeg(['-sseof', '-0.05', '-i', path, '-frames:v', '1', '-c:v', 'png', '-f', 'image2pipe', '-'], signal);
+    return png.toString('base64');
+  });
+
+// Segments come from one model with the same settings, so they share codec
+// parameters and are joined without re-encoding.
+const concatVideos: MediaBackend['concatVideos'] = (clips, { signal, onProgress } = {}) =>
+  withTempDir(async (dir) => {
+    if (!clips.length) throw new Error("Nothing to join");
+    const names: string[] = [];
+    for (const [index, clip] of clips.entries()) {
+      const name = `clip-${index}.mp4`;
+      await writeBlob(join(dir, name), clip);
+      names.push(`file '${name}'`);
+      onProgress?.(index, 0.5);
+    }
+    await writeFile(join(dir, 'list.txt'), names.join('\n'));
+    const output = join(dir, 'joined.mp4');
+    await ffmpeg(['-f', 'concat', '-safe', '0', '-i', join(dir, 'list.txt'), '-c', 'copy', '-movflags', '+faststart', output], signal);
+    onProgress?.(clips.length - 1, 1);
+    return new Blob([await readFile(output)], { type: 'video/mp4' });
+  });
+
+// Like the browser's version: 'keep' puts the source's audio under the output from
+// `offsetSeconds`, cut with a short fade at the output's end; 'mute' drops audio.
+// The video stream is copied, not re-encoded.
+const applyAudioPolicy: MediaBackend['applyAudioPolicy'] = async (
+  candidates,
+  { policy, source, offsetSeconds = 0, signal, onProgress }
+) => {
+  if (policy === 'generate') return candidates;
+  if (policy === 'keep' && !source) throw new InvalidInputError("Keeping the original audio needs the source file");
+
+  return withTempDir(async (dir) => {
+    const sourcePath = join(dir, 'source');
+    if (policy === 'keep') await writeBlob(sourcePath, source!);
+
+    const result: VideoCandidate[] = [];
+    for (const [index, candidate] of candidates.entries()) {
+      onProgress?.(index, 0);
+      const input = join(dir, `output-${index}.mp4`);
+      const output = join(dir, `audio-${index}.mp4`);
+      await writeBlob(input, await fetchVideo(candidate.url, signal));
+      if (policy === 'keep') {
+        const { durationSeconds } = await probe(input, signal);
+        const fade = Math.min(0.3, durationSeconds / 2);
+        await ffmpeg([
+          '-i', input, '-ss', offsetSeconds.toFixed(3), '-i', sourcePath,
+          '-map', '0:v', '-map', '1:a?', '-c:v', 'copy', '-c:a', 'aac',
+          '-af', `afade=t=out:st=${Math.max(0, durationSeconds - fade).toFixed(3)}:d=${fade.toFixed(3)}`,
+          '-t', durationSeconds.toFixed(3), output,
+        ], signal);
+      } else {
+        await ffmpeg(['-i', input, '-map', '0:v', '-c:v', 'copy', '-an', output], signal);
+      }
+      const blob = new Blob([await readFile(output)], { type: 'video/mp4' });
+      result.push({ ...candidate, url: URL.createObjectURL(blob) });
+      onProgress?.(index, 1);
+    }
+    return result;
+  });
+};
+
+export const createFfmpegMedia = (): SourceMedia => ({
+  probe,
+  sampleKeyframes,
+  captureFrameAt,
+  captureLastFrame,
+  concatVideos,
+  applyAudioPolicy,
+});
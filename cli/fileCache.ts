@@ -0,0 +1,24 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ResultCacheStore } from '../core';
+
+// Result cache (services/resultCache.ts) kept as one file per key in a directory,
+// so repeated batch runs over the same sources skip analysis and keyframes. Nothing
+// is evicted; delete the directory to clear it.
+export const createFileCacheStore = (dir: string): ResultCacheStore => ({
+  read: async (key) => {
+    try {
+      return await readFile(join(dir, key), 'utf8');
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return undefined;
+      throw e;
+    }
+  },
+  write: async (key, value) => {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, key), value);
+  },
+  clear: async () => {
+    await rm(dir, { recursive: true, force: true });
+  },
+});
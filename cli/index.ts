@@ -0,0 +1,27 @@
+import { loadEnv } from 'vite';
+import { runCli } from './cli';
+import { createFfmpegMedia } from './ffmpegMedia';
+
+// Entry point for `npm run cli`. Reads the same .env/.env.local files as the proxy.
+const env = loadEnv(process.env.NODE_ENV || 'development', process.cwd(), '');
+
+// First Ctrl+C cancels the run (outputs of finished inputs stay written); the
+// default handler takes over for a second one.
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
+runCli(process.argv.slice(2), {
+  media: createFfmpegMedia(),
+  env,
+  stdout: (line) => console.log(line),
+  stderr: (line) => console.error(line),
+  signal: controller.signal,
+}).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = 1;
+  }
+);
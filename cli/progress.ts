@@ -0,0 +1,46 @@
+import { basename } from 'node:path';
+import { ErrorKind } from '../types';
+
+// Progress of a batch run, printed as text for a terminal or as one JSON object per
+// line for other programs to consume.
+
+export type OutputFormat = 'human' | 'json';
+
+export type CliEvent =
+  | { type: 'job-start'; input: string; jobId: string }
+  // `progress` is the job's overall progress, 0-100, as in the app's overlay.
+  | { type: 'progress'; input: string; stageId?: string; message: string; progress: number }
+  | { type: 'job-complete'; input: string; outputs: string[]; report: string; cacheHits: number }
+  | { type: 'job-error'; input: string; stageId?: string; errorKind: ErrorKind; error: string }
+  | { type: 'summary'; succeeded: number; failed: number };
+
+export const createReporter = (format: OutputFormat, write: (line: string) => void) => {
+  if (format === 'json') {
+    return (event: CliEvent) => write(JSON.stringify({ time: new Date().toISOString(), ...event }));
+  }
+
+  // Jobs run side by side, so each line names its input; repeated messages
+  // (polling rounds without news) are printed once.
+  const lastMessage = new Map<string, string>();
+  return (event: CliEvent) => {
+    switch (event.type) {
+      case 'job-start':
+        write(`[${basename(event.input)}] started (${event.jobId})`);
+        break;
+      case 'progress':
+        if (lastMessage.get(event.input) === event.message) return;
+        lastMessage.set(event.input, event.message);
+        write(`[${basename(event.input)}] ${String(Math.round(event.progress)).padStart(3)}% ${event.message}`);
+        break;
+      case 'job-complete':
+        write(`[${basename(event.input)}] done: ${event.outputs.join(', ')}${event.cacheHits ? ` (${event.cacheHits} from cache)` : ''}`);
+        break;
+      case 'job-error':
+        write(`[${basename(event.input)}] failed${event.stageId ? ` at ${event.stageId}` : ''} (${event.errorKind}): ${event.error}`);
+        break;
+      case 'summary':
+        write(`${event.succeeded} succeeded, ${event.failed} failed`);
+        break;
+    }
+  };
+};
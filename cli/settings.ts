@@ -0,0 +1,104 @@
+import { AspectRatio, AudioPolicy, PromptTemplate, Resolution, StylePreset, VeoConfig, VeoModelId } from '../types';
+import { BUILTIN_STYLE_PRESETS, BUILTIN_TEMPLATES, DEFAULT_TEMPLATE_ID, DEFAULT_VEO_CONFIG, VEO_MODELS, validateVeoConfig } from '../core';
+
+// The settings JSON a batch run applies to every input: Veo settings (as in the
+// app's settings panel) plus how each input is prepared. Every field is optional.
+//
+//   {
+//     "model": "veo-3.1-fast-generate-preview", "resolution": "720p",
+//     "aspectRatio": "16:9", "durationSeconds": 8, "numberOfVideos": 1,
+//     "audio": "keep",
+//     "template": "builtin-camera", "templateValues": { "camera": "slow dolly in" },
+//     "style": "builtin-noir",
+//     "coverSource": true, "seedTime": 2.5, "analyzeFrames": false
+//   }
+
+export interface CliSettings {
+  // Veo settings; the aspect ratio defaults to the one closest to each source.
+  config: Omit<VeoConfig, 'aspectRatio'> & { aspectRatio?: AspectRatio };
+  template: PromptTemplate;
+  templateValues: Record<string, string>;
+  // Built-in style preset; its settings apply where the file doesn't set them.
+  style?: StylePreset;
+  // Generate long sources as consecutive segments covering all of them.
+  coverSource: boolean;
+  // Seed frame position, seconds; the best-scored sample by default.
+  seedTime?: number;
+  // Analyze sampled frames instead of the whole video; by default only for sources
+  // too long or too large to send whole.
+  analyzeFrames?: boolean;
+}
+
+const KNOWN_KEYS = [
+  'model', 'resolution', 'aspectRatio', 'durationSeconds', 'numberOfVideos', 'audio',
+  'template', 'templateBody', 'templateValues', 'style', 'coverSource', 'seedTime', 'analyzeFrames',
+];
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.values(value).every((v) => typeof v === 'string');
+
+// Throws an Error listing every problem, so a settings file is fixed in one pass.
+export const parseSettings = (json: string): CliSettings => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch (e: any) {
+    throw new Error(`Settings are not valid JSON: ${e.message}`);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) throw new Error("Settings must be a JSON object");
+
+  const errors: string[] = [];
+  for (const key of Object.keys(raw)) {
+    if (!KNOWN_KEYS.includes(key)) errors.push(`Unknown setting '${key}'`);
+  }
+
+  let style: StylePreset | undefined;
+  if (raw.style !== undefined) {
+    style = BUILTIN_STYLE_PRESETS.find((p) => p.id === raw.style);
+    if (!style) errors.push(`Unknown style '${raw.style}' (built-in: ${BUILTIN_STYLE_PRESETS.map((p) => p.id).join(', ')})`);
+  }
+  const preset = style?.config ?? {};
+
+  const model = (raw.model ?? preset.model ?? DEFAULT_VEO_CONFIG.model) as VeoModelId;
+  const config = {
+    model,
+    resolution: (raw.resolution ?? preset.resolution ?? DEFAULT_VEO_CONFIG.resolution) as Resolution,
+    aspectRatio: (raw.aspectRatio ?? preset.aspectRatio) as AspectRatio | undefined,
+    durationSeconds: Number(raw.durationSeconds ?? preset.durationSeconds ?? DEFAULT_VEO_CONFIG.durationSeconds),
+    numberOfVideos: Number(raw.numberOfVideos ?? preset.numberOfVideos ?? DEFAULT_VEO_CONFIG.numberOfVideos),
+    audio: (raw.audio ?? preset.audio ?? (VEO_MODELS[model]?.audio === false ? 'mute' : 'generate')) as AudioPolicy,
+  };
+  if (!['keep', 'generate', 'mute'].includes(config.audio)) errors.push(`Unknown audio policy '${config.audio}'`);
+  // Checked at 16:9 when the ratio is left to the source; every model offers it.
+  errors.push(...validateVeoConfig({ ...config, aspectRatio: config.aspectRatio ?? '16:9' }));
+
+  let template: PromptTemplate | undefined;
+  if (raw.templateBody !== undefined) {
+    if (typeof raw.templateBody !== 'string') errors.push("'templateBody' must be a string");
+    else template = { id: 'cli-settings', name: 'Settings file', body: raw.templateBody, defaults: {} };
+  } else {
+    const id = raw.template ?? DEFAULT_TEMPLATE_ID;
+    template = BUILTIN_TEMPLATES.find((t) => t.id === id);
+    if (!template) errors.push(`Unknown template '${id}' (built-in: ${BUILTIN_TEMPLATES.map((t) => t.id).join(', ')})`);
+  }
+  if (raw.templateValues !== undefined && !isStringRecord(raw.templateValues)) {
+    errors.push("'templateValues' must map variable names to strings");
+  }
+  if (raw.coverSource !== undefined && typeof raw.coverSource !== 'boolean') errors.push("'coverSource' must be true or false");
+  if (raw.analyzeFrames !== undefined && typeof raw.analyzeFrames !== 'boolean') errors.push("'analyzeFrames' must be true or false");
+  if (raw.seedTime !== undefined && !(typeof raw.seedTime === 'number' && raw.seedTime >= 0)) {
+    errors.push("'seedTime' must be a number of seconds");
+  }
+
+  if (errors.length) throw new Error(errors.join('\n'));
+  return {
+    config,
+    template: template!,
+    templateValues: raw.templateValues ?? {},
+    style,
+    coverSource: raw.coverSource ?? false,
+    seedTime: raw.seedTime,
+    analyzeFrames: raw.analyzeFrames,
+  };
+};
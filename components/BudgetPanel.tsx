@@ -0,0 +1,93 @@
+import React from 'react';
+import { CostEstimate } from '../types';
+import { BudgetCheck, BudgetPeriod, BudgetSettings } from '../services/budget';
+import { formatCost } from '../services/pricing';
+import { AlertCircle } from './Icons';
+
+interface BudgetPanelProps {
+  budget: BudgetSettings;
+  onChange: (budget: BudgetSettings) => void;
+  // Estimated cost of the next run, checked against what is left.
+  estimate: CostEstimate;
+  check: BudgetCheck;
+  disabled?: boolean;
+}
+
+// Spending limit for the session or day, with the next run's estimated breakdown.
+const BudgetPanel: React.FC<BudgetPanelProps> = ({ budget, onChange, estimate, check, disabled }) => {
+  const { currency } = estimate;
+  const usedPercent = budget.limit ? Math.min(100, (check.spent / budget.limit) * 100) : 0;
+  const unpriced = estimate.lines.filter((line) => !line.priced);
+
+  return (
+    <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800/50 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="budget-limit" className="text-zinc-400">Budget</label>
+        <div className="flex items-center gap-2">
+          <input
+            id="budget-limit"
+            type="number"
+            min={0}
+            step={0.5}
+            placeholder="No limit"
+            value={budget.limit ?? ''}
+            disabled={disabled}
+            onChange={(e) => {
+              const limit = Number(e.target.value);
+              onChange({ ...budget, limit: e.target.value && limit > 0 ? limit : null });
+            }}
+            className="w-24 bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-white text-xs focus:outline-none focus:border-indigo-500"
+          />
+          <select
+            aria-label="Budget period"
+            value={budget.period}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...budget, period: e.target.value as BudgetPeriod })}
+            className="bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-white text-xs focus:outline-none focus:border-indigo-500"
+          >
+            <option value="session">per session</option>
+            <option value="day">per day</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-zinc-500">
+          <span>Spent {formatCost(check.spent, currency)}</span>
+          {check.remaining !== null && <span>{formatCost(check.remaining, currency)} left</span>}
+        </div>
+        {budget.limit !== null && (
+          <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${check.allowed ? 'bg-indigo-500' : 'bg-red-500'}`}
+              style={{ width: `${usedPercent}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      <details className="text-xs text-zinc-500">
+        <summary className="cursor-pointer text-zinc-400">
+          Next run: about {formatCost(estimate.total, currency)}
+        </summary>
+        <ul className="mt-2 space-y-1">
+          {estimate.lines.map((line, index) => (
+            <li key={index} className="flex justify-between gap-4">
+              <span>{line.label} <span className="font-mono text-zinc-600">{line.model}</span></span>
+              <span>{line.priced ? formatCost(line.amount, currency) : '—'}</span>
+            </li>
+          ))}
+        </ul>
+      </details>
+
+      {unpriced.length > 0 && (
+        <p className="flex items-start gap-2 text-xs text-yellow-500/90">
+          <AlertCircle size={14} className="mt-0.5 shrink-0" />
+          No price for {unpriced.map((line) => line.model).join(', ')} in config/pricing.json; the estimate leaves it out.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BudgetPanel;
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { VideoCandidate } from '../types';
+import { Play, Pause, Star, Trophy } from './Icons';
+
+interface CandidateGridProps {
+  sourceUrl: string | null;
+  candidates: VideoCandidate[];
+  winnerId: string | null;
+  onRate: (candidateId: string, rating: number) => void;
+  onPickWinner: (candidateId: string) => void;
+}
+
+// Side-by-side comparison of every generated candidate against the original,
+// with one transport that drives all players together.
+const CandidateGrid: React.FC<CandidateGridProps> = ({ sourceUrl, candidates, winnerId, onRate, onPickWinner }) => {
+  const videoRefs = useRef(new Map<string, HTMLVideoElement>());
+  const [playing, setPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  const registerVideo = (key: string) => (el: HTMLVideoElement | null) => {
+    if (el) videoRefs.current.set(key, el);
+    else videoRefs.current.delete(key);
+  };
+
+  const allVideos = (): HTMLVideoElement[] => Array.from(videoRefs.current.values());
+
+  const togglePlayback = () => {
+    const videos = allVideos();
+    if (playing) {
+      videos.forEach((v) => v.pause());
+    } else {
+      videos.forEach((v) => {
+        v.currentTime = Math.min(time, v.duration || time);
+        v.play().catch(() => undefined);
+      });
+    }
+    setPlaying(!playing);
+  };
+
+  const seek = (seconds: number) => {
+    allVideos().forEach((v) => {
+      v.currentTime = Math.min(seconds, v.duration || seconds);
+    });
+    setTime(seconds);
+  };
+
+  // The first player acts as the clock for the shared scrubber.
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => setTime(e.currentTarget.currentTime);
+  const handleMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) =>
+    setDuration((prev) => Math.max(prev, e.currentTarget.duration || 0));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4 p-3 bg-zinc-900/50 rounded-xl border border-zinc-800/50">
+        <button
+          onClick={togglePlayback}
+          className="flex items-center gap-2 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg text-xs transition-colors"
+        >
+          {playing ? <Pause size={14} /> : <Play size={14} />}
+          {playing ? 'Pause all' : 'Play all'}
+        </button>
+        <input
+          type="range"
+          aria-label="Synchronized position"
+          min={0}
+          max={duration || 0}
+          step={0.05}
+          value={time}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-1 accent-indigo-500"
+        />
+        <span className="text-xs text-zinc-500 tabular-nums">{time.toFixed(1)}s</span>
+      </div>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {sourceUrl && (
+          <div className="space-y-2">
+            <div className="aspect-video bg-zinc-900 rounded-xl overflow-hidden border border-zinc-800">
+              <video
+                ref={registerVideo('source')}
+                src={sourceUrl}
+                className="w-full h-full object-cover"
+                muted
+                loop
+                playsInline
+                onTimeUpdate={handleTimeUpdate}
+                onLoadedMetadata={handleMetadata}
+              />
+            </div>
+            <p className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Original</p>
+          </div>
+        )}
+
+        {candidates.map((candidate, index) => {
+          const isWinner = candidate.id === winnerId;
+          return (
+            <div key={candidate.id} className="space-y-2">
+              <div className={`aspect-video bg-zinc-900 rounded-xl overflow-hidden border ${isWinner ? 'border-indigo-500' : 'border-zinc-800'}`}>
+                <video
+                  ref={registerVideo(candidate.id)}
+                  src={candidate.url}
+                  className="w-full h-full object-cover"
+                  muted
+                  loop
+                  playsInline
+                  onTimeUpdate={!sourceUrl && index === 0 ? handleTimeUpdate : undefined}
+                  onLoadedMetadata={handleMetadata}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-1" aria-label={`Rate candidate ${index + 1}`}>
+                  {[1, 2, 3, 4, 5].map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => onRate(candidate.id, value)}
+                      aria-label={`${value} star${value > 1 ? 's' : ''}`}
+                      className={(candidate.rating || 0) >= value ? 'text-yellow-400' : 'text-zinc-600 hover:text-zinc-400'}
+                    >
+                      <Star size={14} fill={(candidate.rating || 0) >= value ? 'currentColor' : 'none'} />
+                    </button>
+                  ))}
+                </div>
+                {isWinner ? (
+                  <span className="flex items-center gap-1 text-xs text-indigo-400">
+                    <Trophy size={12} /> Winner
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => onPickWinner(candidate.id)}
+                    className="text-xs text-zinc-400 hover:text-white transition-colors"
+                  >
+                    Pick winner
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CandidateGrid;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import ErrorPanel from './ErrorPanel';
+import { ProcessingState } from '../types';
+
+const QUOTA_ERROR: ProcessingState = {
+  status: 'error',
+  message: 'Processing failed',
+  progress: 0,
+  error: 'Quota exceeded',
+  errorKind: 'quota',
+  retryAfterMs: 3000,
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ErrorPanel', () => {
+  it('retries a quota error by itself once the wait has passed', () => {
+    const onAutoRetry = vi.fn();
+    render(<ErrorPanel state={QUOTA_ERROR} onRetry={vi.fn()} onAutoRetry={onAutoRetry} onDismiss={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Retry in 3s' })).toBeInTheDocument();
+    act(() => vi.advanceTimersByTime(3000));
+    expect(onAutoRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for a click once the automatic retry was used', () => {
+    const onRetry = vi.fn();
+    render(<ErrorPanel state={QUOTA_ERROR} onRetry={onRetry} onDismiss={vi.fn()} />);
+
+    act(() => vi.advanceTimersByTime(60_000));
+    expect(onRetry).not.toHaveBeenCalled();
+    act(() => screen.getByRole('button', { name: 'Retry now' }).click());
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { ProcessingState } from '../types';
+import { ERROR_TITLES, RECOVERY_ACTIONS, RETRY_POLICIES } from '../services/errors';
+import { checkProxyHealth } from '../services/apiClient';
+import { AlertCircle, Loader2 } from './Icons';
+
+interface ErrorPanelProps {
+  state: ProcessingState;
+  // Label of the failed stage when it can be retried from where it stopped.
+  retryLabel?: string;
+  onRetry?: () => void;
+  // Retry fired by itself once a quota wait has passed; left out once one was made,
+  // so a quota that stays exhausted waits for a click instead of looping.
+  onAutoRetry?: () => void;
+  // Why retrying isn't offered, e.g. it would exceed the budget.
+  retryBlockedReason?: string;
+  // Re-opens prompt review with the existing analysis.
+  onEditPrompt?: () => void;
+  // Goes back to the generation still running upstream instead of starting a new one.
+  onKeepWaiting?: () => void;
+  // Back to the idle workspace, e.g. to change settings or the source.
+  onDismiss: () => void;
+}
+
+const primaryButton = 'px-6 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+const secondaryButton = 'px-6 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg text-sm transition-colors';
+
+// Error state of the output panel: a title per error kind and the recovery
+// action that fits it, falling back to a plain retry.
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ state, retryLabel, onRetry, onAutoRetry, retryBlockedReason, onEditPrompt, onKeepWaiting, onDismiss }) => {
+  const kind = state.errorKind || 'unknown';
+  const action = RECOVERY_ACTIONS[kind];
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [keyStatus, setKeyStatus] = useState<'checking' | 'missing' | 'present' | 'unreachable' | null>(null);
+
+  // Quota errors retry on their own once the suggested wait has passed.
+  useEffect(() => {
+    if (action !== 'retry_later' || !onAutoRetry) {
+      setSecondsLeft(null);
+      return;
+    }
+    const waitMs = state.retryAfterMs ?? RETRY_POLICIES.quota.baseDelayMs;
+    const retryAt = Date.now() + waitMs;
+    setSecondsLeft(Math.ceil(waitMs / 1000));
+    const timer = setInterval(() => {
+      const left = Math.ceil((retryAt - Date.now()) / 1000);
+      if (left <= 0) {
+        clearInterval(timer);
+        onAutoRetry();
+      } else {
+        setSecondsLeft(left);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [action, state.retryAfterMs, state.error, Boolean(onAutoRetry)]);
+
+  const checkKey = async () => {
+    setKeyStatus('checking');
+    try {
+      const health = await checkProxyHealth();
+      setKeyStatus(health.hasKey ? 'present' : 'missing');
+    } catch {
+      setKeyStatus('unreachable');
+    }
+  };
+
+  const retryButton = onRetry && (
+    <button onClick={onRetry} className={primaryButton}>
+      {retryLabel ? `Retry "${retryLabel}"` : 'Retry'}
+    </button>
+  );
+
+  let primary: React.ReactNode = retryButton;
+  if (action === 'check_key') {
+    primary = keyStatus === 'present' ? retryButton : (
+      <button onClick={checkKey} disabled={keyStatus === 'checking'} className={primaryButton}>
+        {keyStatus === 'checking' ? <Loader2 size={14} className="animate-spin inline" /> : 'Check API key'}
+      </button>
+    );
+  } else if (action === 'retry_later' && onRetry) {
+    primary = (
+      <button onClick={onRetry} className={primaryButton}>
+        {secondsLeft ? `Retry in ${secondsLeft}s` : 'Retry now'}
+      </button>
+    );
+  } else if (action === 'edit_prompt' && onEditPrompt) {
+    primary = <button onClick={onEditPrompt} className={primaryButton}>Edit prompt</button>;
+  } else if (action === 'edit_input') {
+    primary = <button onClick={onDismiss} className={primaryButton}>Adjust settings</button>;
+  } else if (action === 'keep_waiting' && onKeepWaiting) {
+    primary = <button onClick={onKeepWaiting} className={primaryButton}>Keep waiting</button>;
+  }
+
+  return (
+    <div className="text-center p-8 max-w-sm">
+      <div className="w-16 h-16 bg-red-500/10 rounded-full flex items-center justify-center mx-auto mb-4 text-red-500">
+        <AlertCircle size={24} />
+      </div>
+      <h4 className="text-white font-medium mb-2">{ERROR_TITLES[kind]}</h4>
+      <p className="text-sm text-red-400 mb-4">{state.error}</p>
+      {retryBlockedReason && <p className="text-xs text-zinc-400 mb-4">{retryBlockedReason}</p>}
+      {keyStatus === 'missing' && (
+        <p className="text-xs text-zinc-400 mb-4">
+          The local server has no GEMINI_API_KEY. Add it to .env.local and restart <code>npm run server</code>.
+        </p>
+      )}
+      {keyStatus === 'present' && (
+        <p className="text-xs text-zinc-400 mb-4">
+          A key is configured, but it was rejected. Check that it is valid and has access to this model.
+        </p>
+      )}
+      {keyStatus === 'unreachable' && (
+        <p className="text-xs text-zinc-400 mb-4">The local server is not responding. Start it with <code>npm run server</code>.</p>
+      )}
+      <div className="flex items-center justify-center gap-3 mt-2">
+        {primary}
+        <button onClick={onDismiss} className={secondaryButton}>
+          {action === 'edit_input' ? 'Dismiss' : 'Start Over'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorPanel;
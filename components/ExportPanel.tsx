@@ -0,0 +1,281 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio, ExportFormat, ExportQuality, JobRecord, PostProcessEdits } from '../types';
+import { DISCLOSURE_TEXT, ProvenanceExport, exportWithProvenance } from '../services/provenance';
+import { DEFAULT_EDITS, EXPORT_FORMATS, QUALITY_PRESETS, SPEEDS, hasEdits, supportedExportFormats } from '../services/postProcess';
+import { ALL_ASPECT_RATIOS } from '../services/veoConfig';
+import { isAbortError } from '../services/polling';
+import { AlertCircle, CheckCircle2, Download, Loader2, X } from './Icons';
+
+interface ExportPanelProps {
+  videoUrl: string;
+  // History record of the output; its settings and prompt go into the manifest.
+  job?: JobRecord;
+}
+
+const fieldClass =
+  "w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-white text-xs focus:outline-none focus:border-indigo-500";
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download before the browser has started it.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Download of the picked output with its provenance manifest and optional badge,
+// trimmed, reframed, retimed and converted in the browser if asked.
+const ExportPanel: React.FC<ExportPanelProps> = ({ videoUrl, job }) => {
+  const [burnInBadge, setBurnInBadge] = useState(false);
+  const [edits, setEdits] = useState<PostProcessEdits>(DEFAULT_EDITS);
+  // Undefined keeps the output's own format.
+  const [format, setFormat] = useState<ExportFormat | undefined>();
+  const [quality, setQuality] = useState<ExportQuality>('high');
+  const [formats] = useState(supportedExportFormats);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [progress, setProgress] = useState<{ message: string; fraction?: number } | null>(null);
+  const [result, setResult] = useState<ProvenanceExport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    setEdits(DEFAULT_EDITS);
+    setDuration(null);
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => setDuration(Number.isFinite(video.duration) ? video.duration : null);
+    video.src = videoUrl;
+    return () => {
+      video.onloadedmetadata = null;
+      video.removeAttribute('src');
+    };
+  }, [videoUrl]);
+
+  const trimEnd = edits.trimEndSeconds ?? duration;
+  const trimError = trimEnd !== null && edits.trimStartSeconds >= trimEnd
+    ? "The end of the trim must come after its start."
+    : null;
+  const reencodes = burnInBadge || hasEdits(edits) || Boolean(format) || quality !== 'high';
+
+  const edit = (changes: Partial<PostProcessEdits>) => setEdits((current) => ({ ...current, ...changes }));
+  const seconds = (value: string) => Math.max(0, Number(value) || 0);
+
+  const handleExport = async () => {
+    if (!job) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setResult(null);
+    try {
+      const exported = await exportWithProvenance(videoUrl, job, {
+        burnInBadge,
+        edits,
+        format,
+        quality,
+        signal: controller.signal,
+        onProgress: (message, fraction) => setProgress({ message, fraction }),
+      });
+      saveBlob(exported.video, exported.videoName);
+      saveBlob(exported.sidecar, exported.sidecarName);
+      setResult(exported);
+    } catch (e: any) {
+      if (!isAbortError(e)) setError(e.message || "Export failed");
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  // Without a history record (e.g. it could not be saved) there is nothing to build
+  // a manifest from; the output can still be downloaded as generated.
+  if (!job) {
+    return (
+      <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800/50 flex items-center justify-between gap-4 text-xs text-zinc-400">
+        <p>This run isn't in the history, so the output downloads as generated, without edits or a provenance manifest.</p>
+        <a
+          href={videoUrl}
+          download="restored_video.mp4"
+          target="_blank"
+          rel="noreferrer"
+          className="shrink-0 flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          <Download size={16} />
+          Download Result
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800/50 space-y-3 text-xs text-zinc-400">
+      <div className="flex items-center justify-between gap-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={burnInBadge}
+            disabled={Boolean(progress)}
+            onChange={(e) => setBurnInBadge(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          Burn in "{DISCLOSURE_TEXT}" badge
+        </label>
+        {progress ? (
+          <button
+            onClick={() => controllerRef.current?.abort()}
+            className="flex items-center gap-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg text-xs transition-colors"
+          >
+            <X size={14} /> Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleExport}
+            disabled={Boolean(trimError)}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={16} />
+            Download Result
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <label className="space-y-1">
+          <span>Trim start (s)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            max={duration ?? undefined}
+            value={edits.trimStartSeconds}
+            disabled={Boolean(progress)}
+            onChange={(e) => edit({ trimStartSeconds: seconds(e.target.value) })}
+            className={fieldClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Trim end (s)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            max={duration ?? undefined}
+            value={edits.trimEndSeconds ?? ''}
+            placeholder={duration !== null ? duration.toFixed(1) : 'End'}
+            disabled={Boolean(progress)}
+            onChange={(e) => edit({ trimEndSeconds: e.target.value === '' ? null : seconds(e.target.value) })}
+            className={fieldClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Speed</span>
+          <select
+            value={edits.speed}
+            disabled={Boolean(progress)}
+            onChange={(e) => edit({ speed: Number(e.target.value) })}
+            className={fieldClass}
+          >
+            {SPEEDS.map((speed) => <option key={speed} value={speed}>{speed}x</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span>Fade (s)</span>
+          <input
+            type="number"
+            min={0}
+            max={3}
+            step={0.25}
+            value={edits.fadeSeconds}
+            disabled={Boolean(progress)}
+            onChange={(e) => edit({ fadeSeconds: Math.min(3, seconds(e.target.value)) })}
+            className={fieldClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Crop to</span>
+          <select
+            value={edits.aspectRatio ?? ''}
+            disabled={Boolean(progress)}
+            onChange={(e) => edit({ aspectRatio: (e.target.value || null) as AspectRatio | null })}
+            className={fieldClass}
+          >
+            <option value="">Keep framing</option>
+            {ALL_ASPECT_RATIOS.map((ratio) => <option key={ratio} value={ratio}>{ratio}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span>Crop position</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={edits.cropPosition}
+            disabled={Boolean(progress) || !edits.aspectRatio}
+            onChange={(e) => edit({ cropPosition: Number(e.target.value) })}
+            className="w-full accent-indigo-500 disabled:opacity-40"
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Format</span>
+          <select
+            value={format ?? ''}
+            disabled={Boolean(progress)}
+            onChange={(e) => setFormat((e.target.value || undefined) as ExportFormat | undefined)}
+            className={fieldClass}
+          >
+            <option value="">Same as output</option>
+            {formats.map((option) => <option key={option} value={option}>{EXPORT_FORMATS[option].label}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span>Quality</span>
+          <select
+            value={quality}
+            disabled={Boolean(progress)}
+            onChange={(e) => setQuality(e.target.value as ExportQuality)}
+            className={fieldClass}
+          >
+            {(Object.keys(QUALITY_PRESETS) as ExportQuality[]).map((option) => (
+              <option key={option} value={option}>{QUALITY_PRESETS[option].label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {progress && (
+        <p className="flex items-center gap-2 text-indigo-300">
+          <Loader2 size={12} className="animate-spin" />
+          {progress.message}
+          {progress.fraction !== undefined && ` ${Math.round(progress.fraction * 100)}%`}
+        </p>
+      )}
+
+      {!progress && !result && (
+        <p>
+          The download includes a provenance manifest (models, prompt, source hash, time) as a
+          <span className="font-mono"> .provenance.json</span> sidecar, also embedded in MP4 files.
+          {reencodes && ' Edits, conversion and the badge are rendered in this browser; video formats take about as long as the result plays.'}
+        </p>
+      )}
+
+      {result && (
+        <p className={`flex items-start gap-2 ${result.provenance.jws ? 'text-emerald-400' : 'text-yellow-500/90'}`}>
+          {result.provenance.jws ? <CheckCircle2 size={14} className="shrink-0" /> : <AlertCircle size={14} className="shrink-0" />}
+          {result.provenance.jws
+            ? `Saved ${result.videoName} with a manifest signed by key ${result.provenance.keyId}.`
+            : `Saved ${result.videoName} with an unsigned manifest; start the local server (npm run server) to sign it.`}
+        </p>
+      )}
+
+      {trimError && <p className="text-red-400">{trimError}</p>}
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { JobRecord } from '../types';
+import { VEO_MODELS } from '../services/veoConfig';
+import { expiringCandidates } from '../services/jobStore';
+import { formatCost } from '../services/pricing';
+import { DEFAULT_STYLE_ID } from '../services/stylePresets';
+import { Activity, AlertCircle, History, RotateCcw, Trash2, X } from './Icons';
+
+interface HistorySidebarProps {
+  open: boolean;
+  jobs: JobRecord[];
+  activeJobId: string | null;
+  onClose: () => void;
+  onOpen: (job: JobRecord) => void;
+  onRerun: (job: JobRecord) => void;
+  onDelete: (job: JobRecord) => void;
+  onSaveLocally: (job: JobRecord) => void;
+  onShowDetails: (job: JobRecord) => void;
+}
+
+const STATUS_STYLES: Record<JobRecord['status'], string> = {
+  running: 'text-indigo-400',
+  completed: 'text-emerald-400',
+  error: 'text-red-400',
+  cancelled: 'text-zinc-500',
+};
+
+const formatExpiry = (expirationTime?: string) => {
+  const minutes = Math.round((Date.parse(expirationTime || '') - Date.now()) / 60000);
+  return minutes <= 0 ? 'has expired' : `expires in ${minutes} min`;
+};
+
+// Fidelity of the picked output, for comparing runs at a glance.
+const winnerQuality = (job: JobRecord) => job.quality?.find((report) => report.candidateId === job.winnerId);
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  open,
+  jobs,
+  activeJobId,
+  onClose,
+  onOpen,
+  onRerun,
+  onDelete,
+  onSaveLocally,
+  onShowDetails,
+}) => {
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-zinc-950 border-l border-zinc-800 flex flex-col">
+        <div className="h-20 px-6 flex items-center justify-between border-b border-zinc-800">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-zinc-300 uppercase tracking-wider">
+            <History size={16} /> History
+          </h3>
+          <button onClick={onClose} aria-label="Close history" className="text-zinc-500 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {jobs.length === 0 && <p className="text-sm text-zinc-500 text-center py-8">No jobs yet.</p>}
+
+          {jobs.map((job) => {
+            const thumbnail = job.startFrameBase64 || job.sourceFrameBase64;
+            const expiring = expiringCandidates(job);
+            return (
+              <div
+                key={job.id}
+                className={`rounded-xl border p-3 space-y-3 ${job.id === activeJobId ? 'border-indigo-500/60 bg-indigo-500/5' : 'border-zinc-800 bg-zinc-900/50'}`}
+              >
+                <button onClick={() => onOpen(job)} className="w-full flex gap-3 text-left">
+                  {thumbnail ? (
+                    <img src={`data:image/png;base64,${thumbnail}`} alt="" className="w-20 h-12 object-cover rounded-md bg-zinc-800" />
+                  ) : (
+                    <div className="w-20 h-12 rounded-md bg-zinc-800" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-white truncate">{job.source.name}</p>
+                    <p className="text-xs text-zinc-500">
+                      {new Date(job.createdAt).toLocaleString()} · {VEO_MODELS[job.settings.model]?.label || job.settings.model}
+                      {job.style && job.style.id !== DEFAULT_STYLE_ID && ` · ${job.style.name}`}
+                    </p>
+                    <p className={`text-xs ${STATUS_STYLES[job.status]}`}>
+                      {job.status}
+                      {job.candidates.length > 1 && ` · ${job.candidates.length} candidates`}
+                      {job.usage && ` · ${formatCost(job.usage.total, job.usage.currency)}`}
+                      {winnerQuality(job) && ` · SSIM ${winnerQuality(job)!.summary.ssim.toFixed(2)}`}
+                    </p>
+                  </div>
+                </button>
+
+                {expiring.length > 0 && (
+                  <div className="flex items-start gap-2 text-xs text-yellow-500/90 bg-yellow-500/10 p-2 rounded-lg">
+                    <AlertCircle size={14} className="mt-0.5 shrink-0" />
+                    <div>
+                      <p>Remote video {formatExpiry(expiring[0].expirationTime)} and has no local copy.</p>
+                      <button onClick={() => onSaveLocally(job)} className="underline hover:text-yellow-300">
+                        Save locally
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-3 text-xs text-zinc-500">
+                  <button onClick={() => onShowDetails(job)} className="flex items-center gap-1 hover:text-white transition-colors">
+                    <Activity size={12} /> Details
+                  </button>
+                  <button
+                    onClick={() => onRerun(job)}
+                    disabled={!job.sourceFrameBase64 && !job.creation}
+                    className="flex items-center gap-1 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    <RotateCcw size={12} /> Re-run
+                  </button>
+                  <button onClick={() => onDelete(job)} className="flex items-center gap-1 hover:text-red-400 transition-colors">
+                    <Trash2 size={12} /> Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default HistorySidebar;
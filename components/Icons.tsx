@@ -1,4 +1,4 @@
 import React from 'react';
-import { Upload, Link, Wand2, Play, Download, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Upload, Link, Wand2, Play, Download, Loader2, AlertCircle, CheckCircle2, X, Pause, Star, Trophy, History, RotateCcw, Trash2, Info, Activity, Sparkles, ImageIcon } from 'lucide-react';
 
-export { Upload, Link, Wand2, Play, Download, Loader2, AlertCircle, CheckCircle2 };
\ No newline at end of file
+export { Upload, Link, Wand2, Play, Download, Loader2, AlertCircle, CheckCircle2, X, Pause, Star, Trophy, History, RotateCcw, Trash2, Info, Activity, Sparkles, ImageIcon };
\ No newline at end of file
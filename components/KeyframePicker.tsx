@@ -0,0 +1,96 @@
+import React from 'react';
+import { Keyframe } from '../types';
+import { Loader2, Star } from './Icons';
+
+interface KeyframePickerProps {
+  keyframes: Keyframe[];
+  // Number of samples being taken; the strip fills in as they arrive.
+  expectedCount: number;
+  sampling: boolean;
+  selectedTime: number | null;
+  bestTime?: number;
+  onSelect: (keyframe: Keyframe) => void;
+  analyzeFrames: boolean;
+  onAnalyzeFramesChange: (value: boolean) => void;
+  disabled?: boolean;
+}
+
+const FLAG_LABELS: Record<Keyframe['flags'][number], string> = {
+  dark: 'Dark',
+  bright: 'Overexposed',
+  blurry: 'Blurry',
+};
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+// Thumbnail strip of sampled frames; the chosen one becomes the Veo seed frame.
+const KeyframePicker: React.FC<KeyframePickerProps> = ({
+  keyframes,
+  expectedCount,
+  sampling,
+  selectedTime,
+  bestTime,
+  onSelect,
+  analyzeFrames,
+  onAnalyzeFramesChange,
+  disabled,
+}) => (
+  <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800/50 space-y-3">
+    <div className="flex items-center justify-between">
+      <h4 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">Seed frame</h4>
+      {sampling && (
+        <span className="flex items-center gap-1 text-xs text-zinc-500">
+          <Loader2 size={12} className="animate-spin" /> Sampling frames...
+        </span>
+      )}
+    </div>
+
+    <div className="grid grid-cols-4 gap-2">
+      {keyframes.map((keyframe) => {
+        const selected = keyframe.time === selectedTime;
+        return (
+          <button
+            key={keyframe.time}
+            onClick={() => onSelect(keyframe)}
+            disabled={disabled}
+            title={keyframe.flags.map((flag) => FLAG_LABELS[flag]).join(', ') || undefined}
+            className={`relative rounded-md overflow-hidden border-2 transition-colors disabled:cursor-not-allowed ${
+              selected ? 'border-indigo-500' : 'border-transparent hover:border-zinc-600'
+            }`}
+          >
+            <img src={`data:image/jpeg;base64,${keyframe.imageBase64}`} alt={`Frame at ${formatTime(keyframe.time)}`} className="w-full aspect-video object-cover bg-zinc-800" />
+            <span className="absolute bottom-0 inset-x-0 flex items-center justify-between px-1 text-[10px] bg-black/60 text-zinc-300">
+              {formatTime(keyframe.time)}
+              <span className={keyframe.flags.length ? 'text-yellow-500' : 'text-emerald-400'}>
+                {Math.round(keyframe.score * 100)}
+              </span>
+            </span>
+            {keyframe.time === bestTime && (
+              <Star size={12} className="absolute top-1 right-1 text-yellow-400 fill-yellow-400" />
+            )}
+          </button>
+        );
+      })}
+      {sampling && Array.from({ length: Math.max(0, expectedCount - keyframes.length) }, (_, i) => (
+        <div key={`pending-${i}`} className="w-full aspect-video rounded-md bg-zinc-800 animate-pulse" />
+      ))}
+    </div>
+
+    <label className="flex items-start gap-2 text-xs text-zinc-400">
+      <input
+        type="checkbox"
+        checked={analyzeFrames}
+        onChange={(e) => onAnalyzeFramesChange(e.target.checked)}
+        disabled={disabled || !keyframes.length}
+        className="mt-0.5 accent-indigo-500"
+      />
+      <span>Analyze these {keyframes.length || expectedCount} frames instead of the full video (smaller request, better for long clips)</span>
+    </label>
+  </div>
+);
+
+export default KeyframePicker;
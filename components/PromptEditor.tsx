@@ -0,0 +1,191 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { PromptRecord, PromptTemplate, StylePreset } from '../types';
+import {
+  buildPromptRecord,
+  createTemplateId,
+  exportTemplates,
+  extractVariables,
+  mergeTemplates,
+  parseTemplateImport,
+} from '../services/promptTemplates';
+import { withStyleValues } from '../services/stylePresets';
+import { AlertCircle, Download, Upload } from './Icons';
+
+interface PromptEditorProps {
+  analysis: string;
+  templates: PromptTemplate[];
+  initialTemplateId?: string;
+  // Style preset of the run; its video modifier fills `{style}`.
+  style?: StylePreset;
+  onTemplatesChange: (templates: PromptTemplate[]) => void;
+  onSubmit: (record: PromptRecord) => void;
+  onCancel: () => void;
+}
+
+const inputClass =
+  "w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:outline-none focus:border-indigo-500";
+
+// Review step between analysis and generation: edit the scene description, choose a
+// template and fill in its variables, then hand the rendered prompt to Veo.
+const PromptEditor: React.FC<PromptEditorProps> = ({
+  analysis: initialAnalysis,
+  templates,
+  initialTemplateId,
+  style,
+  onTemplatesChange,
+  onSubmit,
+  onCancel,
+}) => {
+  const [analysis, setAnalysis] = useState(initialAnalysis);
+  const [templateId, setTemplateId] = useState(initialTemplateId || templates[0]?.id);
+  const template = templates.find((t) => t.id === templateId) || templates[0];
+  const [body, setBody] = useState(template.body);
+  const [values, setValues] = useState<Record<string, string>>(() => withStyleValues(template.defaults, style));
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const variables = useMemo(() => extractVariables(body).filter((name) => name !== 'analysis'), [body]);
+  const edited: PromptTemplate = { ...template, body };
+  const record = buildPromptRecord(edited, { ...values, analysis });
+  const isModified = body !== template.body;
+
+  const selectTemplate = (id: string) => {
+    const next = templates.find((t) => t.id === id);
+    if (!next) return;
+    setTemplateId(id);
+    setBody(next.body);
+    setValues(withStyleValues(next.defaults, style));
+  };
+
+  const saveAsTemplate = () => {
+    const name = window.prompt("Template name", isModified ? `${template.name} (edited)` : template.name);
+    if (!name) return;
+    const defaults: Record<string, string> = {};
+    variables.forEach((v) => { defaults[v] = values[v] ?? ''; });
+    const created: PromptTemplate = { id: createTemplateId(), name, body, defaults };
+    onTemplatesChange([...templates, created]);
+    setTemplateId(created.id);
+  };
+
+  const deleteTemplate = () => {
+    if (template.builtIn) return;
+    const remaining = templates.filter((t) => t.id !== template.id);
+    onTemplatesChange(remaining);
+    selectTemplate(remaining[0].id);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportTemplates(templates)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'prompt_templates.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onTemplatesChange(mergeTemplates(templates, parseTemplateImport(await file.text())));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  const submit = () => onSubmit({ ...record, modified: isModified });
+
+  return (
+    <div className="w-full h-full overflow-y-auto p-6 text-left space-y-4">
+      <div>
+        <label htmlFor="prompt-analysis" className="block text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+          Scene analysis
+        </label>
+        <textarea
+          id="prompt-analysis"
+          value={analysis}
+          onChange={(e) => setAnalysis(e.target.value)}
+          rows={4}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <label htmlFor="prompt-template" className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+            Template
+          </label>
+          <div className="flex items-center gap-3 text-xs text-zinc-500">
+            <button type="button" onClick={saveAsTemplate} className="hover:text-white transition-colors">Save as…</button>
+            {!template.builtIn && (
+              <button type="button" onClick={deleteTemplate} className="hover:text-red-400 transition-colors">Delete</button>
+            )}
+            <button type="button" onClick={() => importInputRef.current?.click()} className="flex items-center gap-1 hover:text-white transition-colors">
+              <Upload size={12} /> Import
+            </button>
+            <button type="button" onClick={handleExport} className="flex items-center gap-1 hover:text-white transition-colors">
+              <Download size={12} /> Export
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </div>
+        </div>
+        <select id="prompt-template" value={template.id} onChange={(e) => selectTemplate(e.target.value)} className={inputClass}>
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <textarea
+          aria-label="Template body"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={2}
+          className={`${inputClass} font-mono text-xs`}
+        />
+        {importError && (
+          <div className="flex items-start gap-2 text-xs text-red-400">
+            <AlertCircle size={14} className="mt-0.5" />
+            <p>{importError}</p>
+          </div>
+        )}
+      </div>
+
+      {variables.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          {variables.map((name) => (
+            <label key={name} className="block text-xs text-zinc-400 space-y-1">
+              <span className="font-mono">{`{${name}}`}</span>
+              <input
+                value={values[name] ?? ''}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="p-3 bg-zinc-950/60 rounded-lg border border-zinc-800 text-xs text-zinc-400">
+        <p className="font-semibold text-zinc-500 uppercase tracking-wider mb-1">Final prompt</p>
+        <p className="text-zinc-300">{record.prompt}</p>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onCancel} className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg text-sm transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={submit}
+          disabled={!record.prompt}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Generate Video
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PromptEditor;
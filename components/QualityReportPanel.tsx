@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { QualityReport } from '../types';
+import { measureQuality } from '../services/qualityMetrics';
+import { isAbortError } from '../services/polling';
+import { Activity, Loader2 } from './Icons';
+
+interface QualityReportPanelProps {
+  // Playable source to compare against; absent for reopened jobs without one.
+  sourceUrl?: string | null;
+  videoUrl: string;
+  candidateId: string;
+  sourceOffsetSeconds?: number;
+  // Report stored with the job; measured (and handed to onReport) when absent.
+  report?: QualityReport;
+  onReport: (report: QualityReport) => void;
+}
+
+const SPARK_WIDTH = 240;
+const SPARK_HEIGHT = 36;
+
+// Flicker is drawn against this ceiling unless the clip flickers more.
+const FLICKER_SCALE = 0.05;
+
+const toPoints = (values: number[], max: number) =>
+  values
+    .map((value, i) => {
+      const x = values.length > 1 ? (i / (values.length - 1)) * SPARK_WIDTH : SPARK_WIDTH / 2;
+      const y = SPARK_HEIGHT - (Math.min(Math.max(value, 0), max) / max) * SPARK_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+// Fidelity of the result to its source: summary figures and a per-frame sparkline.
+const QualityReportPanel: React.FC<QualityReportPanelProps> = ({
+  sourceUrl,
+  videoUrl,
+  candidateId,
+  sourceOffsetSeconds,
+  report,
+  onReport,
+}) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (report || !sourceUrl) return;
+    const controller = new AbortController();
+    setProgress(0);
+    measureQuality(sourceUrl, videoUrl, candidateId, {
+      sourceOffsetSeconds,
+      signal: controller.signal,
+      onProgress: setProgress,
+    })
+      .then(onReport)
+      .catch((e) => {
+        if (!isAbortError(e)) setError(e.message || "Could not measure quality");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setProgress(null);
+      });
+    return () => controller.abort();
+    // The report callback changes every render; re-measure only for a new output.
+  }, [sourceUrl, videoUrl, candidateId, sourceOffsetSeconds, Boolean(report)]);
+
+  if (!report && !sourceUrl) return null;
+
+  const flickerMax = Math.max(FLICKER_SCALE, report?.summary.maxFlicker ?? 0);
+
+  return (
+    <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800/50 space-y-3 text-xs text-zinc-400">
+      <h4 className="flex items-center gap-2 text-sm text-zinc-300">
+        <Activity size={14} /> Fidelity to source
+      </h4>
+
+      {progress !== null && (
+        <p className="flex items-center gap-2 text-indigo-300">
+          <Loader2 size={12} className="animate-spin" />
+          Comparing frames... {Math.round(progress * 100)}%
+        </p>
+      )}
+      {error && <p className="text-red-400">{error}</p>}
+
+      {report && (
+        <>
+          <dl className="grid grid-cols-4 gap-2">
+            <div>
+              <dt className="text-zinc-500">SSIM</dt>
+              <dd className="text-white font-mono">{report.summary.ssim.toFixed(3)}</dd>
+            </div>
+            <div>
+              <dt className="text-zinc-500">PSNR</dt>
+              <dd className="text-white font-mono">{report.summary.psnr.toFixed(1)} dB</dd>
+            </div>
+            <div>
+              <dt className="text-zinc-500">Colour drift</dt>
+              <dd className="text-white font-mono">{report.summary.histogramDrift.toFixed(3)}</dd>
+            </div>
+            <div>
+              <dt className="text-zinc-500">Flicker</dt>
+              <dd className="text-white font-mono">
+                {(report.summary.flicker * 100).toFixed(1)}% <span className="text-zinc-500">max {(report.summary.maxFlicker * 100).toFixed(1)}%</span>
+              </dd>
+            </div>
+          </dl>
+          <svg
+            width={SPARK_WIDTH}
+            height={SPARK_HEIGHT}
+            viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`}
+            className="w-full h-9"
+            preserveAspectRatio="none"
+            role="img"
+            aria-label="Per-frame SSIM and flicker"
+          >
+            <polyline points={toPoints(report.frames.map((f) => f.ssim), 1)} fill="none" stroke="#818cf8" strokeWidth={1.5} />
+            <polyline points={toPoints(report.frames.map((f) => f.flicker), flickerMax)} fill="none" stroke="#f59e0b" strokeWidth={1} />
+          </svg>
+          <p className="text-zinc-500">
+            <span className="text-indigo-400">SSIM</span> and <span className="text-amber-500">flicker</span> over{' '}
+            {report.frames.length} frames, from {report.sourceOffsetSeconds.toFixed(1)}s in the source.
+            The output is a regeneration, so a faithful one still scores well below 1.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QualityReportPanel;
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, AlertCircle, Loader2 } from './Icons';
+import { VideoCandidate } from '../types';
+import { PendingOperation, clearPendingOperation } from '../services/operationStore';
+import { resumeCleanVideo } from '../services/gemini';
+import { isAbortError } from '../services/polling';
+
+interface ResumeOperationPanelProps {
+  operation: PendingOperation;
+  onDismiss: () => void;
+  // Finishes the resumed candidates, e.g. applies the job's audio policy and completes
+  // it in history, and returns the ones to show.
+  onResolved?: (
+    candidates: VideoCandidate[],
+    options: { signal: AbortSignal; onProgress: (message: string) => void }
+  ) => Promise<VideoCandidate[]>;
+}
+
+// Picks up a Veo generation that was still running when the tab was closed.
+const ResumeOperationPanel: React.FC<ResumeOperationPanelProps> = ({ operation, onDismiss, onResolved }) => {
+  const [message, setMessage] = useState('Resuming previous generation...');
+  const [candidates, setCandidates] = useState<VideoCandidate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    resumeCleanVideo(operation.name, { signal: controller.signal, onProgress: setMessage })
+      .then(async (results) => {
+        if (!results.length) {
+          setError("The resumed operation returned no video.");
+          return;
+        }
+        setCandidates(onResolved
+          ? await onResolved(results, { signal: controller.signal, onProgress: setMessage })
+          : results);
+      })
+      .catch((e: any) => {
+        if (!isAbortError(e)) setError(e.message || "Could not resume the generation.");
+      });
+
+    return () => controller.abort();
+  }, [operation.name]);
+
+  const dismiss = () => {
+    controllerRef.current?.abort();
+    clearPendingOperation();
+    onDismiss();
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mb-8 bg-zinc-900 rounded-2xl border border-zinc-800 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Previous Generation</h3>
+        <button onClick={dismiss} className="text-xs text-zinc-500 hover:text-white transition-colors">
+          {candidates.length || error ? 'Close' : 'Discard'}
+        </button>
+      </div>
+
+      {!candidates.length && !error && (
+        <div className="flex items-center gap-3 text-sm text-indigo-300">
+          <Loader2 className="animate-spin" size={16} />
+          <span>{message}</span>
+        </div>
+      )}
+
+      {operation.segment && operation.segment.count > 1 && candidates.length > 0 && (
+        <p className="text-xs text-yellow-500/90">
+          This is part {operation.segment.index + 1} of {operation.segment.count} of a longer run. The other parts were
+          not generated, so the job is marked as failed; start it again for the full video.
+        </p>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-400">
+          <AlertCircle size={16} className="mt-0.5" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {candidates.map((candidate, index) => (
+        <div key={candidate.id} className="space-y-3">
+          <video src={candidate.url} className="w-full rounded-xl border border-zinc-800" controls autoPlay={index === 0} loop />
+          <div className="flex justify-end">
+            <a
+              href={candidate.url}
+              download="restored_video.mp4"
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              <Download size={16} />
+              Download Result
+            </a>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ResumeOperationPanel;
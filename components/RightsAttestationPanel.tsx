@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { RightsAttestation, SourceProvenance } from '../types';
+import { AlertCircle, CheckCircle2, Info } from './Icons';
+
+interface RightsAttestationPanelProps {
+  // Metadata read from the source; absent when the file itself isn't available.
+  provenance?: SourceProvenance;
+  attestation: RightsAttestation | null;
+  onChange: (attestation: RightsAttestation | null) => void;
+  // What the confirmation is about: the source video, or a Create mode start image.
+  subject?: 'video' | 'image';
+  disabled?: boolean;
+}
+
+const statement = (basis: RightsAttestation['basis'], subject: 'video' | 'image' = 'video') =>
+  basis === 'owner'
+    ? `I own this ${subject}, or hold all rights needed to modify it and generate derivative versions of it.`
+    : `I am licensed to use this ${subject}, and the license allows modifying it and generating derivative versions of it.`;
+
+// Shows what the source says about its origin and collects the user's rights
+// confirmation, which every run requires.
+const RightsAttestationPanel: React.FC<RightsAttestationPanelProps> = ({ provenance, attestation, onChange, subject, disabled }) => {
+  const [basis, setBasis] = useState<RightsAttestation['basis']>('owner');
+  const [reference, setReference] = useState('');
+  const [confirmed, setConfirmed] = useState(false);
+
+  const canConfirm = confirmed && (basis === 'owner' || reference.trim().length > 0);
+
+  const confirm = () => {
+    onChange({
+      basis,
+      reference: basis === 'licensed' ? reference.trim() : undefined,
+      statement: statement(basis, subject),
+      attestedAt: Date.now(),
+    });
+    setConfirmed(false);
+  };
+
+  return (
+    <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800/50 space-y-3 text-xs text-zinc-400">
+      <h4 className="text-sm text-zinc-300">{subject === 'image' ? 'Start image rights' : 'Source provenance'}</h4>
+      {!provenance && (
+        <p>
+          {subject === 'image'
+            ? 'Provenance metadata is only read from videos.'
+            : 'No file to inspect; provenance is only read from uploads and imported links.'}
+        </p>
+      )}
+      {provenance && provenance.findings.length === 0 && (
+        <p className="flex items-start gap-2">
+          <Info size={14} className="mt-0.5 shrink-0" />
+          No provenance metadata (C2PA manifest, rights or generator tags) found in this file.
+        </p>
+      )}
+      {provenance && provenance.findings.length > 0 && (
+        <ul className="space-y-1">
+          {provenance.findings.map((finding) => (
+            <li key={finding} className="flex items-start gap-2 text-yellow-500/90">
+              <AlertCircle size={14} className="mt-0.5 shrink-0" />
+              {finding}
+            </li>
+          ))}
+        </ul>
+      )}
+      {provenance && provenance.tags.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-zinc-300">All metadata ({provenance.tags.length})</summary>
+          <ul className="mt-2 space-y-1">
+            {provenance.tags.map((tag, index) => (
+              <li key={index}>
+                <span className="text-zinc-500">{tag.source} · {tag.name}:</span> {tag.value}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {attestation ? (
+        <div className="flex items-start justify-between gap-4 pt-1 border-t border-zinc-800">
+          <p className="flex items-start gap-2 text-emerald-400 pt-2">
+            <CheckCircle2 size={14} className="mt-0.5 shrink-0" />
+            <span>
+              {attestation.basis === 'owner' ? 'Ownership' : `License (${attestation.reference})`} confirmed{' '}
+              {new Date(attestation.attestedAt).toLocaleString()}.
+            </span>
+          </p>
+          <button
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="pt-2 text-zinc-500 hover:text-white transition-colors disabled:opacity-40"
+          >
+            Change
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2 pt-3 border-t border-zinc-800">
+          <div className="flex gap-4">
+            {(['owner', 'licensed'] as const).map((option) => (
+              <label key={option} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="rights-basis"
+                  checked={basis === option}
+                  disabled={disabled}
+                  onChange={() => setBasis(option)}
+                  className="accent-indigo-500"
+                />
+                {option === 'owner' ? 'I own it' : 'I have a license'}
+              </label>
+            ))}
+          </div>
+          {basis === 'licensed' && (
+            <input
+              type="text"
+              value={reference}
+              disabled={disabled}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="License or agreement reference"
+              className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-white text-xs focus:outline-none focus:border-indigo-500"
+            />
+          )}
+          <label className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={confirmed}
+              disabled={disabled}
+              onChange={(e) => setConfirmed(e.target.checked)}
+              className="mt-0.5 accent-indigo-500"
+            />
+            <span>{statement(basis, subject)}</span>
+          </label>
+          <button
+            onClick={confirm}
+            disabled={disabled || !canConfirm}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Confirm rights
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RightsAttestationPanel;
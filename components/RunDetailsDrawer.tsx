@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { JobRecord, StageTiming, TraceSpan } from '../types';
+import { RESTORATION_STAGES } from '../services/restorationPipeline';
+import { formatCost } from '../services/pricing';
+import { cacheStats, toNdjson } from '../services/tracing';
+import { clearResultCache } from '../services/resultCache';
+import { Activity, Download, X } from './Icons';
+
+interface RunDetailsDrawerProps {
+  job: JobRecord | null;
+  // Spans of a run still in progress, not yet written to the job.
+  liveSpans?: TraceSpan[];
+  onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<TraceSpan['outcome'], string> = {
+  ok: 'text-emerald-400',
+  error: 'text-red-400',
+  cancelled: 'text-zinc-500',
+};
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes}B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)}KB` : `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+// Per-stage timings and every recorded service call of a job, with NDJSON export.
+const RunDetailsDrawer: React.FC<RunDetailsDrawerProps> = ({ job, liveSpans = [], onClose }) => {
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  if (!job) return null;
+
+  const spans = [...(job.trace || []), ...liveSpans];
+  const cache = cacheStats(spans);
+  const stageLabel = (stageId?: string) => RESTORATION_STAGES.find((stage) => stage.id === stageId)?.label || stageId || '—';
+
+  const handleExport = () => {
+    const blob = new Blob([toNdjson({ ...job, trace: spans })], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `run-${job.id}.ndjson`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearResultCache();
+      setCacheCleared(true);
+    } catch (e) {
+      console.warn("Could not clear the result cache", e);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative w-full max-w-lg h-full bg-zinc-950 border-l border-zinc-800 flex flex-col">
+        <div className="h-20 px-6 flex items-center justify-between border-b border-zinc-800">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-zinc-300 uppercase tracking-wider">
+            <Activity size={16} /> Run details
+          </h3>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={handleExport}
+              className="flex items-center gap-1 text-xs text-zinc-400 hover:text-white transition-colors"
+            >
+              <Download size={14} /> Export NDJSON
+            </button>
+            <button onClick={onClose} aria-label="Close run details" className="text-zinc-500 hover:text-white transition-colors">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 text-xs">
+          <section className="space-y-1 text-zinc-400">
+            <p className="text-sm text-white truncate">{job.source.name}</p>
+            <p>
+              {job.status}
+              {job.errorKind && ` · ${job.errorKind}`} · {job.settings.model}
+              {job.usage && ` · ${formatCost(job.usage.total, job.usage.currency)}`}
+            </p>
+            {job.error && <p className="text-red-400">{job.error}</p>}
+            {cache.hits + cache.misses > 0 && (
+              <p>
+                Result cache: {cache.hits} {cache.hits === 1 ? 'hit' : 'hits'}, {cache.misses} {cache.misses === 1 ? 'miss' : 'misses'}
+                {' · '}
+                {cacheCleared ? (
+                  'cleared'
+                ) : (
+                  <button onClick={handleClearCache} className="underline hover:text-white transition-colors">
+                    Clear cache
+                  </button>
+                )}
+              </p>
+            )}
+            {job.attestation && (
+              <p>
+                Rights: {job.attestation.basis === 'owner' ? 'owner' : `licensed (${job.attestation.reference})`}, confirmed{' '}
+                {new Date(job.attestation.attestedAt).toLocaleString()}
+              </p>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h4 className="text-zinc-300 font-medium uppercase tracking-wider">Stages</h4>
+            {Object.keys(job.timings).length === 0 && <p className="text-zinc-500">No stages recorded.</p>}
+            <ul className="space-y-1">
+              {(Object.entries(job.timings) as [string, StageTiming][]).map(([stageId, timing]) => (
+                <li key={stageId} className="flex justify-between text-zinc-400">
+                  <span>{stageLabel(stageId)}</span>
+                  <span className="font-mono">
+                    {timing.finishedAt ? formatDuration(timing.finishedAt - timing.startedAt) : 'unfinished'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          {job.segments && (
+            <section className="space-y-2">
+              <h4 className="text-zinc-300 font-medium uppercase tracking-wider">Segments</h4>
+              <ol className="space-y-1 text-zinc-400">
+                {job.segments.map((segment, index) => (
+                  <li key={index}>
+                    <span className="font-mono text-zinc-500">
+                      {segment.startSeconds.toFixed(1)}–{segment.endSeconds.toFixed(1)}s
+                    </span>{' '}
+                    {segment.description}
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
+
+          <section className="space-y-2">
+            <h4 className="text-zinc-300 font-medium uppercase tracking-wider">Calls</h4>
+            {spans.length === 0 && <p className="text-zinc-500">No calls recorded.</p>}
+            <ul className="space-y-2">
+              {spans.map((span) => (
+                <li key={span.id} className="p-3 rounded-lg border border-zinc-800 bg-zinc-900/50 space-y-1">
+                  <div className="flex justify-between gap-4">
+                    <span className="text-white font-mono">
+                      {span.name}
+                      {span.attempt > 1 && <span className="text-zinc-500"> (attempt {span.attempt})</span>}
+                    </span>
+                    <span className={OUTCOME_STYLES[span.outcome]}>
+                      {span.outcome}{span.errorKind && ` · ${span.errorKind}`}
+                    </span>
+                  </div>
+                  <p className="text-zinc-500">
+                    {stageLabel(span.stageId)} · {span.provider} · <span className="font-mono">{span.model}</span>
+                  </p>
+                  <p className="text-zinc-500 font-mono">
+                    {new Date(span.startedAt).toLocaleTimeString()} · {formatDuration(span.durationMs)} ·{' '}
+                    {span.cache === 'hit' ? 'from cache' : `${formatBytes(span.requestBytes)} sent`}
+                    {span.pollCount !== undefined && ` · ${span.pollCount} polls`}
+                  </p>
+                  {span.operationName && <p className="text-zinc-600 font-mono truncate">{span.operationName}</p>}
+                  {span.error && <p className="text-red-400">{span.error}</p>}
+                </li>
+              ))}
+            </ul>
+          </section>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default RunDetailsDrawer;
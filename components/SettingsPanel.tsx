@@ -0,0 +1,184 @@
+import React from 'react';
+import { AspectRatio, AudioPolicy, Resolution, VeoConfig, VeoModelId } from '../types';
+import { ALL_ASPECT_RATIOS, VEO_MODELS, isResolutionAllowed, normalizeVeoConfig, validateVeoConfig } from '../services/veoConfig';
+import { AlertCircle } from './Icons';
+
+interface SettingsPanelProps {
+  config: VeoConfig;
+  onChange: (config: VeoConfig) => void;
+  // Aspect ratio detected from the source video, if known.
+  detectedAspectRatio?: AspectRatio | null;
+  // Source length; when longer than one clip, offers to cover it with several segments.
+  sourceSeconds?: number | null;
+  extendToSource?: boolean;
+  onExtendToSourceChange?: (extend: boolean) => void;
+  // Segments the current settings would generate.
+  segmentCount?: number;
+  // Whether the source file is at hand to take the original audio from.
+  canKeepAudio?: boolean;
+  disabled?: boolean;
+}
+
+const AUDIO_OPTIONS: { value: AudioPolicy; label: string }[] = [
+  { value: 'keep', label: 'Original' },
+  { value: 'generate', label: 'Generated' },
+  { value: 'mute', label: 'Silent' },
+];
+
+const optionClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+    active ? 'bg-indigo-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white hover:bg-zinc-700'
+  }`;
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  config,
+  onChange,
+  detectedAspectRatio,
+  sourceSeconds,
+  extendToSource,
+  onExtendToSourceChange,
+  segmentCount = 1,
+  canKeepAudio = true,
+  disabled,
+}) => {
+  const caps = VEO_MODELS[config.model];
+  const errors = validateVeoConfig(config);
+
+  // Every edit goes through normalization, so picking a model that lacks the current
+  // resolution or duration snaps them to the nearest supported value.
+  const update = (patch: Partial<VeoConfig>) => onChange(normalizeVeoConfig({ ...config, ...patch }));
+
+  return (
+    <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800/50 space-y-4 text-sm">
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="veo-model" className="text-zinc-400">Model</label>
+        <select
+          id="veo-model"
+          value={config.model}
+          disabled={disabled}
+          onChange={(e) => update({ model: e.target.value as VeoModelId })}
+          className="bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-white text-xs focus:outline-none focus:border-indigo-500"
+        >
+          {(Object.keys(VEO_MODELS) as VeoModelId[]).map((id) => (
+            <option key={id} value={id}>{VEO_MODELS[id].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-zinc-400">
+          Aspect ratio
+          {detectedAspectRatio && <span className="ml-2 text-xs text-zinc-600">source ≈ {detectedAspectRatio}</span>}
+        </span>
+        <div className="flex gap-1">
+          {ALL_ASPECT_RATIOS.map((ratio) => (
+            <button
+              key={ratio}
+              type="button"
+              disabled={disabled || !caps.aspectRatios.includes(ratio)}
+              onClick={() => update({ aspectRatio: ratio })}
+              className={optionClass(config.aspectRatio === ratio)}
+            >
+              {ratio}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-zinc-400">Resolution</span>
+        <div className="flex gap-1">
+          {(['720p', '1080p'] as Resolution[]).map((resolution) => (
+            <button
+              key={resolution}
+              type="button"
+              disabled={disabled || !isResolutionAllowed(caps, resolution, config.aspectRatio)}
+              onClick={() => update({ resolution })}
+              className={optionClass(config.resolution === resolution)}
+            >
+              {resolution}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-zinc-400">Duration</span>
+        <div className="flex gap-1">
+          {caps.durations.map((seconds) => (
+            <button
+              key={seconds}
+              type="button"
+              disabled={disabled}
+              onClick={() => update({ durationSeconds: seconds })}
+              className={optionClass(config.durationSeconds === seconds)}
+            >
+              {seconds}s
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-zinc-400">Videos</span>
+        <div className="flex gap-1">
+          {Array.from({ length: 4 }, (_, i) => i + 1).map((count) => (
+            <button
+              key={count}
+              type="button"
+              disabled={disabled || count > caps.maxVideos}
+              onClick={() => update({ numberOfVideos: count })}
+              className={optionClass(config.numberOfVideos === count)}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-zinc-400">Audio</span>
+        <div className="flex gap-1">
+          {AUDIO_OPTIONS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              disabled={disabled || (value === 'keep' && !canKeepAudio) || (value === 'generate' && !caps.audio)}
+              onClick={() => update({ audio: value })}
+              className={optionClass((config.audio ?? 'generate') === value)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {onExtendToSourceChange && sourceSeconds && sourceSeconds > config.durationSeconds && (
+        <label className="flex items-start gap-2 text-xs text-zinc-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={Boolean(extendToSource)}
+            disabled={disabled}
+            onChange={(e) => onExtendToSourceChange(e.target.checked)}
+            className="mt-0.5 accent-indigo-500"
+          />
+          <span>
+            Cover the whole {Math.round(sourceSeconds)}s source
+            {extendToSource && segmentCount > 1
+              ? ` with ${segmentCount} consecutive ${config.durationSeconds}s segments, joined into one video (one video per segment).`
+              : ` instead of its first ${config.durationSeconds}s.`}
+          </span>
+        </label>
+      )}
+
+      {errors.length > 0 && (
+        <div className="flex items-start gap-2 text-xs text-red-400">
+          <AlertCircle size={14} className="mt-0.5" />
+          <p>{errors.join('. ')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
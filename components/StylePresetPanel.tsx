@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { StylePreset, VeoConfig } from '../types';
+import { createStylePresetId } from '../services/stylePresets';
+import { VEO_MODELS } from '../services/veoConfig';
+import { Loader2, Wand2 } from './Icons';
+
+interface StylePresetPanelProps {
+  presets: StylePreset[];
+  selected: StylePreset;
+  onSelect: (preset: StylePreset) => void;
+  onPresetsChange: (presets: StylePreset[]) => void;
+  // Current settings; a new preset keeps their model, resolution and duration.
+  config: VeoConfig;
+  // Keyframe rendered in the selected style from the seed frame, base64 PNG.
+  previewBase64?: string;
+  previewing?: boolean;
+  onPreview?: () => void;
+  // Formatted price of one preview.
+  previewCost?: string;
+  // Why a preview isn't offered, e.g. it would exceed the budget.
+  previewBlockedReason?: string;
+  disabled?: boolean;
+}
+
+const inputClass =
+  "w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-xs text-white placeholder-zinc-600 focus:outline-none focus:border-indigo-500";
+
+const describeConfig = (config: Partial<VeoConfig>): string =>
+  [
+    config.model && (VEO_MODELS[config.model]?.label || config.model),
+    config.resolution,
+    config.aspectRatio,
+    config.durationSeconds && `${config.durationSeconds}s`,
+  ].filter(Boolean).join(' · ');
+
+// Picks the look of the keyframe and video. Custom presets start from the selected
+// one and are kept in this browser.
+const StylePresetPanel: React.FC<StylePresetPanelProps> = ({
+  presets,
+  selected,
+  onSelect,
+  onPresetsChange,
+  config,
+  previewBase64,
+  previewing,
+  onPreview,
+  previewCost,
+  previewBlockedReason,
+  disabled,
+}) => {
+  const [draft, setDraft] = useState<StylePreset | null>(null);
+
+  const startDraft = () => setDraft({
+    ...selected,
+    id: createStylePresetId(),
+    name: `${selected.name.replace(/ \(default\)$/, '')} (custom)`,
+    config: { model: config.model, resolution: config.resolution, durationSeconds: config.durationSeconds },
+    builtIn: false,
+  });
+
+  const saveDraft = () => {
+    if (!draft?.name.trim()) return;
+    const created = { ...draft, name: draft.name.trim() };
+    onPresetsChange([...presets, created]);
+    onSelect(created);
+    setDraft(null);
+  };
+
+  const deleteSelected = () => {
+    if (selected.builtIn) return;
+    onPresetsChange(presets.filter((p) => p.id !== selected.id));
+    onSelect(presets[0]);
+  };
+
+  const field = (key: 'name' | 'frameModifier' | 'videoModifier' | 'negativePrompt', label: string) => (
+    <label className="block space-y-1">
+      <span>{label}</span>
+      <input
+        value={draft![key]}
+        onChange={(e) => setDraft({ ...draft!, [key]: e.target.value })}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  return (
+    <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800/50 space-y-3 text-xs text-zinc-400">
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="style-preset" className="text-sm text-zinc-400">Style</label>
+        <div className="flex items-center gap-3">
+          {!draft && (
+            <button type="button" onClick={startDraft} disabled={disabled} className="hover:text-white transition-colors disabled:opacity-40">
+              Customize…
+            </button>
+          )}
+          {!draft && !selected.builtIn && (
+            <button type="button" onClick={deleteSelected} disabled={disabled} className="hover:text-red-400 transition-colors disabled:opacity-40">
+              Delete
+            </button>
+          )}
+          <select
+            id="style-preset"
+            value={selected.id}
+            disabled={disabled || Boolean(draft)}
+            onChange={(e) => {
+              const next = presets.find((p) => p.id === e.target.value);
+              if (next) onSelect(next);
+            }}
+            className="bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-white text-xs focus:outline-none focus:border-indigo-500"
+          >
+            {presets.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {draft ? (
+        <div className="space-y-2">
+          {field('name', 'Name')}
+          {field('frameModifier', 'Keyframe modifier')}
+          {field('videoModifier', 'Video modifier ({style} in the prompt)')}
+          {field('negativePrompt', 'Avoid (negative prompt)')}
+          <p className="text-zinc-500">Uses the current settings: {describeConfig(draft.config)}.</p>
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => setDraft(null)} className="hover:text-white transition-colors">Cancel</button>
+            <button
+              type="button"
+              onClick={saveDraft}
+              disabled={!draft.name.trim()}
+              className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              Save preset
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-3">
+          <div className="flex-1 min-w-0 space-y-1">
+            <p><span className="text-zinc-500">Video:</span> {selected.videoModifier}</p>
+            <p><span className="text-zinc-500">Keyframe:</span> {selected.frameModifier}</p>
+            {selected.negativePrompt && <p><span className="text-zinc-500">Avoid:</span> {selected.negativePrompt}</p>}
+            {Object.keys(selected.config).length > 0 && (
+              <p><span className="text-zinc-500">Settings:</span> {describeConfig(selected.config)}</p>
+            )}
+          </div>
+          {onPreview && (
+            <div className="w-28 shrink-0 space-y-1 text-center">
+              <div className="aspect-video bg-zinc-800 rounded-md overflow-hidden flex items-center justify-center">
+                {previewing ? (
+                  <Loader2 className="animate-spin text-indigo-400" size={16} />
+                ) : previewBase64 ? (
+                  <img src={`data:image/png;base64,${previewBase64}`} alt={`${selected.name} preview`} className="w-full h-full object-cover" />
+                ) : (
+                  <Wand2 className="text-zinc-600" size={16} />
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={onPreview}
+                disabled={disabled || previewing || Boolean(previewBlockedReason)}
+                title={previewBlockedReason || (previewCost && `Renders the seed frame in this style (about ${previewCost})`)}
+                className="hover:text-white transition-colors disabled:opacity-40"
+              >
+                Preview on seed frame
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StylePresetPanel;
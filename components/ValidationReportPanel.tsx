@@ -0,0 +1,68 @@
+import React from 'react';
+import { ValidationIssue, VideoValidationReport } from '../types';
+import { AlertCircle, CheckCircle2, Info } from './Icons';
+
+interface ValidationReportPanelProps {
+  report: VideoValidationReport;
+}
+
+const SEVERITY_STYLES: Record<ValidationIssue['severity'], string> = {
+  error: 'text-red-400',
+  warning: 'text-yellow-500/90',
+  info: 'text-zinc-400',
+};
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+const describe = (parts: (string | false | undefined)[]) => parts.filter(Boolean).join(' · ');
+
+// Summary of the input checks: what was detected, what is wrong, and what the
+// analysis copy was normalized to.
+const ValidationReportPanel: React.FC<ValidationReportPanelProps> = ({ report }) => {
+  const { normalized } = report;
+  const detected = describe([
+    report.container?.replace('video/', '').toUpperCase(),
+    report.codec?.toUpperCase(),
+    report.width && report.height ? `${report.width}×${report.height}` : undefined,
+    report.durationSeconds !== undefined && Number.isFinite(report.durationSeconds) && `${report.durationSeconds.toFixed(1)}s`,
+    formatSize(report.size),
+  ]);
+
+  return (
+    <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800/50 text-xs space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-semibold text-zinc-300 truncate">{report.fileName}</p>
+        {report.verdict === 'reject' ? (
+          <span className="text-red-400 shrink-0">Rejected</span>
+        ) : report.verdict === 'normalize' ? (
+          <span className="text-yellow-500/90 shrink-0">Normalized</span>
+        ) : (
+          <span className="flex items-center gap-1 text-emerald-400 shrink-0"><CheckCircle2 size={12} /> Valid</span>
+        )}
+      </div>
+      <p className="text-zinc-500">{detected}</p>
+      {normalized && (
+        <p className="text-zinc-500">
+          Analysis copy: {describe([
+            normalized.mimeType.replace('video/', '').toUpperCase(),
+            `${normalized.width}×${normalized.height}`,
+            `${normalized.durationSeconds.toFixed(1)}s`,
+            formatSize(normalized.size),
+          ])}
+        </p>
+      )}
+      {report.issues.length > 0 && (
+        <ul className="space-y-1">
+          {report.issues.map((issue, index) => (
+            <li key={`${issue.code}-${index}`} className={`flex items-start gap-2 ${SEVERITY_STYLES[issue.severity]}`}>
+              {issue.severity === 'info' ? <Info size={12} className="mt-0.5 shrink-0" /> : <AlertCircle size={12} className="mt-0.5 shrink-0" />}
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationReportPanel;
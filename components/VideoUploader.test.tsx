@@ -0,0 +1,114 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import VideoUploader from './VideoUploader';
+import { replay } from '../test/replay';
+import ingest from '../test/fixtures/proxy/ingest.json';
+import ingestError from '../test/fixtures/proxy/ingest-error.json';
+
+// jsdom can't decode video; everything else in validation runs on the real bytes.
+vi.mock('../services/videoProcessing', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/videoProcessing')>()),
+  probeVideo: vi.fn(async () => ({ durationSeconds: 8, width: 1280, height: 720 })),
+}));
+
+const MP4_BYTES = Buffer.from(ingest.exchanges[0].response.body.base64Data, 'base64');
+
+let onVideoSelected: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  onVideoSelected = vi.fn();
+  vi.stubGlobal('fetch', replay().fetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const selectFile = async (file: File) => {
+  // As if picked with the dialog's file-type filter switched to "All files".
+  const user = userEvent.setup({ applyAccept: false });
+  const { container } = render(<VideoUploader onVideoSelected={onVideoSelected} />);
+  await user.upload(container.querySelector('input[type="file"]') as HTMLInputElement, file);
+};
+
+describe('VideoUploader', () => {
+  it('hands over a valid upload', async () => {
+    await selectFile(new File([MP4_BYTES], 'beach.mp4', { type: 'video/mp4' }));
+    await waitFor(() => expect(onVideoSelected).toHaveBeenCalledTimes(1));
+    const data = onVideoSelected.mock.calls[0][0];
+    expect(data.mimeType).toBe('video/mp4');
+    expect(data.base64Data).toBe(MP4_BYTES.toString('base64'));
+    expect(data.url).toBeNull();
+    expect(data.validation.verdict).toBe('ok');
+  });
+
+  it('keeps a file that is not a video with its report', async () => {
+    await selectFile(new File(['hello'], 'notes.txt', { type: 'text/plain' }));
+    expect(await screen.findByText("This doesn't look like an MP4, MOV or WebM video.")).toBeInTheDocument();
+    expect(onVideoSelected).not.toHaveBeenCalled();
+  });
+
+  it('imports a pasted link through the proxy', async () => {
+    const proxy = replay(ingest);
+    vi.stubGlobal('fetch', proxy.fetch);
+    const user = userEvent.setup();
+    render(<VideoUploader onVideoSelected={onVideoSelected} />);
+
+    await user.click(screen.getByRole('button', { name: /paste link/i }));
+    await user.type(screen.getByPlaceholderText('Paste video URL (MP4, MOV or WebM)'), 'https://videos.example.com/beach');
+    await user.click(screen.getByRole('button', { name: 'Import from URL' }));
+
+    await waitFor(() => expect(onVideoSelected).toHaveBeenCalledTimes(1));
+    expect(proxy.requests[0].body).toEqual({ url: 'https://videos.example.com/beach' });
+    expect(onVideoSelected.mock.calls[0][0]).toMatchObject({
+      url: 'https://videos.example.com/beach',
+      mimeType: 'video/mp4',
+    });
+  });
+
+  it('shows a failed link import and accepts another attempt', async () => {
+    const proxy = replay(ingestError, ingest);
+    vi.stubGlobal('fetch', proxy.fetch);
+    const user = userEvent.setup();
+    render(<VideoUploader onVideoSelected={onVideoSelected} />);
+
+    await user.click(screen.getByRole('button', { name: /paste link/i }));
+    const input = () => screen.getByPlaceholderText('Paste video URL (MP4, MOV or WebM)');
+    await user.type(input(), 'https://videos.example.com/page.html');
+    await user.click(screen.getByRole('button', { name: 'Import from URL' }));
+    expect(await screen.findByText("The link does not point to an MP4, MOV or WebM file")).toBeInTheDocument();
+    expect(onVideoSelected).not.toHaveBeenCalled();
+
+    await user.clear(input());
+    await user.type(input(), 'https://videos.example.com/beach.mp4');
+    expect(screen.queryByText("The link does not point to an MP4, MOV or WebM file")).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Import from URL' }));
+    await waitFor(() => expect(onVideoSelected).toHaveBeenCalledTimes(1));
+    expect(proxy.pending()).toHaveLength(0);
+  });
+
+  it('hands over a Create mode prompt with its start image', async () => {
+    const user = userEvent.setup();
+    render(<VideoUploader onVideoSelected={onVideoSelected} />);
+
+    await user.click(screen.getByRole('button', { name: /create/i }));
+    await user.type(screen.getByLabelText('Video prompt'), '  A paper boat drifting down a rainy street  ');
+    await user.upload(screen.getByLabelText('Start image'), new File(['png bytes'], 'boat.png', { type: 'image/png' }));
+    expect(await screen.findByText('boat.png')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Continue' }));
+
+    expect(onVideoSelected).toHaveBeenCalledWith({
+      file: null,
+      url: null,
+      previewUrl: null,
+      creation: {
+        prompt: 'A paper boat drifting down a rainy street',
+        imageBase64: Buffer.from('png bytes').toString('base64'),
+        imageMimeType: 'image/png',
+        imageName: 'boat.png',
+      },
+    });
+  });
+});
@@ -1,6 +1,9 @@
-import React, { useState, useRef } from 'react';
-import { Upload, Link as LinkIcon, AlertCircle } from './Icons';
-import { VideoData } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Upload, Link as LinkIcon, AlertCircle, Loader2, Sparkles, ImageIcon, X } from './Icons';
+import { CreationInput, VideoData, VideoValidationReport } from '../types';
+import { START_IMAGE_TYPES, downloadVideoFromUrl, prepareVideoFile, readStartImage } from '../services/ingest';
+import { isAbortError } from '../services/polling';
+import ValidationReportPanel from './ValidationReportPanel';
 
 interface VideoUploaderProps {
   onVideoSelected: (data: VideoData) => void;
@@ -8,33 +11,63 @@ interface VideoUploaderProps {
 }
 
 const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected, disabled }) => {
-  const [activeTab, setActiveTab] = useState<'upload' | 'link'>('upload');
+  const [activeTab, setActiveTab] = useState<'upload' | 'link' | 'create'>('upload');
   const [dragActive, setDragActive] = useState(false);
   const [linkInput, setLinkInput] = useState('');
+  // Create mode: a prompt, optionally with a still the clip starts from.
+  const [createPrompt, setCreatePrompt] = useState('');
+  const [startImage, setStartImage] = useState<Omit<CreationInput, 'prompt'> | null>(null);
+  // Validation/normalization in progress, shown in place of the drop zone.
+  const [busy, setBusy] = useState<{ message: string; fraction?: number } | null>(null);
+  const [rejected, setRejected] = useState<VideoValidationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       processFile(e.target.files[0]);
     }
+    e.target.value = '';
   };
 
-  const processFile = (file: File) => {
-    const url = URL.createObjectURL(file);
-    // Convert to base64 for API
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      const base64Data = base64String.split(',')[1];
-      onVideoSelected({
-        file,
-        url: null,
-        previewUrl: url,
-        base64Data: base64Data,
-        mimeType: file.type
+  // Runs validation (and normalization when needed) before handing the video over;
+  // rejected files stay here with their report.
+  const ingest = async (loadFile: (signal: AbortSignal) => Promise<File>, sourceUrl?: string) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRejected(null);
+    setError(null);
+    try {
+      const file = await loadFile(controller.signal);
+      const { report, data } = await prepareVideoFile(file, {
+        signal: controller.signal,
+        sourceUrl,
+        onProgress: (message, fraction) => setBusy({ message, fraction }),
       });
-    };
-    reader.readAsDataURL(file);
+      if (data) onVideoSelected(data);
+      else setRejected(report);
+    } catch (e: any) {
+      if (isAbortError(e)) return;
+      setError(e.message || (sourceUrl ? "Could not import this link" : "Could not read this video"));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setBusy(null);
+      }
+    }
+  };
+
+  const processFile = (file: File) => ingest(async () => file);
+
+  const cancelIngest = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setBusy(null);
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -56,26 +89,36 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected, disabled
     }
   };
 
+  // The proxy downloads the link and sniffs its format, so links without a video
+  // extension work and analysis gets the full clip rather than a single frame.
   const handleLinkSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // Since we cannot CORS fetch arbitrary URLs, we will just pass it.
-    // Real implementation would need a backend proxy.
-    // For this demo, we assume the user might paste a direct mp4 link which might work in video tag,
-    // but for API processing we warn them.
-    if (!linkInput) return;
-    
-    // Check if it looks like a video file
-    if (linkInput.match(/\.(mp4|webm|mov)$/i)) {
-       onVideoSelected({
-        file: null,
-        url: linkInput,
-        previewUrl: linkInput,
-      });
-    } else {
-      alert("For this demo, please use a direct link to a video file (.mp4) or upload a file. Standard website URLs cannot be processed client-side.");
+    if (!linkInput || busy) return;
+    const url = linkInput.trim();
+    setBusy({ message: 'Downloading video...' });
+    ingest((signal) => downloadVideoFromUrl(url, signal), url);
+  };
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      setStartImage(await readStartImage(file));
+    } catch (err: any) {
+      setError(err.message || "Could not read this image");
     }
   };
 
+  // No video to validate: the prompt (and still) are handed over as they are.
+  const handleCreateSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const prompt = createPrompt.trim();
+    if (!prompt) return;
+    onVideoSelected({ file: null, url: null, previewUrl: null, creation: { prompt, ...startImage } });
+  };
+
   return (
     <div className="w-full max-w-2xl mx-auto bg-zinc-900 rounded-2xl border border-zinc-800 overflow-hidden shadow-2xl">
       <div className="flex border-b border-zinc-800">
@@ -97,10 +140,32 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected, disabled
           <LinkIcon size={18} />
           Paste Link
         </button>
+        <button
+          onClick={() => setActiveTab('create')}
+          className={`flex-1 py-4 text-sm font-medium transition-colors duration-200 flex items-center justify-center gap-2 ${
+            activeTab === 'create' ? 'bg-zinc-800/50 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800/30'
+          }`}
+        >
+          <Sparkles size={18} />
+          Create
+        </button>
       </div>
 
       <div className="p-8">
-        {activeTab === 'upload' ? (
+        {busy ? (
+          <div className="py-12 flex flex-col items-center gap-4 text-center">
+            <Loader2 className="animate-spin text-indigo-400" size={32} />
+            <p className="text-sm text-zinc-300">{busy.message}</p>
+            {busy.fraction !== undefined && (
+              <div className="w-full max-w-xs h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(busy.fraction * 100)}%` }} />
+              </div>
+            )}
+            <button onClick={cancelIngest} className="text-xs text-zinc-500 hover:text-white transition-colors">
+              Cancel
+            </button>
+          </div>
+        ) : activeTab === 'upload' ? (
           <div
             onDragEnter={handleDrag}
             onDragLeave={handleDrag}
@@ -129,7 +194,7 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected, disabled
                   Drag and drop your video here
                 </p>
                 <p className="text-sm text-zinc-500">
-                  Supports MP4, MOV, WEBM up to 50MB
+                  Supports MP4, MOV, WEBM. Long or large videos are trimmed and downscaled for analysis
                 </p>
               </div>
               <button
@@ -141,23 +206,81 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected, disabled
               </button>
             </div>
           </div>
+        ) : activeTab === 'create' ? (
+          <form onSubmit={handleCreateSubmit} className="flex flex-col gap-4">
+            <textarea
+              placeholder="Describe the video to generate"
+              aria-label="Video prompt"
+              value={createPrompt}
+              onChange={(e) => setCreatePrompt(e.target.value)}
+              disabled={disabled}
+              rows={4}
+              className="w-full bg-zinc-950 border border-zinc-700 rounded-xl p-4 text-white placeholder-zinc-600 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all resize-y"
+            />
+            <input
+              ref={imageInputRef}
+              type="file"
+              accept={START_IMAGE_TYPES.join(',')}
+              aria-label="Start image"
+              onChange={handleImageChange}
+              className="hidden"
+              disabled={disabled}
+            />
+            {startImage ? (
+              <div className="flex items-center gap-3 p-2 bg-zinc-950 border border-zinc-800 rounded-xl">
+                <img
+                  src={`data:${startImage.imageMimeType};base64,${startImage.imageBase64}`}
+                  alt="Start image"
+                  className="w-20 h-12 object-cover rounded-md"
+                />
+                <p className="flex-1 min-w-0 text-sm text-zinc-300 truncate">{startImage.imageName}</p>
+                <button
+                  type="button"
+                  onClick={() => setStartImage(null)}
+                  aria-label="Remove start image"
+                  className="p-2 text-zinc-500 hover:text-white transition-colors"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => imageInputRef.current?.click()}
+                disabled={disabled}
+                className="flex items-center justify-center gap-2 py-3 border border-dashed border-zinc-700 rounded-xl text-sm text-zinc-400 hover:text-white hover:border-zinc-600 transition-colors disabled:opacity-50"
+              >
+                <ImageIcon size={16} />
+                Add a start image (optional)
+              </button>
+            )}
+            <p className="text-xs text-zinc-500">
+              Veo generates the clip from the prompt alone, or animates the image following the prompt.
+            </p>
+            <button
+              type="submit"
+              disabled={!createPrompt.trim() || disabled}
+              className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-semibold rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              Continue
+            </button>
+          </form>
         ) : (
           <form onSubmit={handleLinkSubmit} className="flex flex-col gap-4 py-8">
             <div className="relative">
               <LinkIcon className="absolute left-4 top-1/2 -translate-y-1/2 text-zinc-500" size={20} />
               <input
                 type="url"
-                placeholder="Paste video URL (Direct .mp4 link)"
+                placeholder="Paste video URL (MP4, MOV or WebM)"
                 value={linkInput}
-                onChange={(e) => setLinkInput(e.target.value)}
+                onChange={(e) => { setLinkInput(e.target.value); setError(null); }}
                 disabled={disabled}
                 className="w-full bg-zinc-950 border border-zinc-700 rounded-xl py-4 pl-12 pr-4 text-white placeholder-zinc-600 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
               />
             </div>
-            <div className="flex items-start gap-2 text-xs text-yellow-500/80 bg-yellow-500/10 p-3 rounded-lg">
-                <AlertCircle size={14} className="mt-0.5" />
-                <p>Processing external links directly requires server-side fetching. For best results in this browser-only demo, please download the video and use the Upload tab.</p>
-            </div>
+            <p className="text-xs text-zinc-500">
+              The link must point directly to a video file (up to 50MB). It is downloaded by the local server, not your browser.
+            </p>
             <button
               type="submit"
               disabled={!linkInput || disabled}
@@ -167,6 +290,18 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected, disabled
             </button>
           </form>
         )}
+
+        {error && !busy && (
+          <div className="mt-4 flex items-start gap-2 text-xs text-red-400 bg-red-500/10 p-3 rounded-lg">
+            <AlertCircle size={14} className="mt-0.5" />
+            <p>{error}</p>
+          </div>
+        )}
+        {rejected && !busy && (
+          <div className="mt-4">
+            <ValidationReportPanel report={rejected} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,44 @@
+// The restoration pipeline without the browser: everything here runs in Node as
+// well as in a tab, with no DOM API used at import or run time. Video decoding and
+// encoding come from the caller as a MediaBackend (services/browserMedia.ts in the
+// app, cli/ffmpegMedia.ts on the command line). Model calls go through the active
+// provider and, for Gemini, the local proxy at the API base.
+
+export type {
+  AudioPolicyOptions,
+  ConcatOptions,
+  GenerationProvider,
+  Keyframe,
+  MediaBackend,
+  ProcessingState,
+  PromptRecord,
+  PromptTemplate,
+  SegmentRange,
+  TraceSpan,
+  VeoConfig,
+  VideoCandidate,
+} from "../types";
+
+export { runPipeline, reduceProcessingState, PipelineError } from "../services/pipeline";
+export type { PipelineEvent, PipelineStage, StageHelpers } from "../services/pipeline";
+export { CREATION_STAGES, RESTORATION_STAGES } from "../services/restorationPipeline";
+export type { RestorationContext } from "../services/restorationPipeline";
+export { runQueue } from "../services/jobQueue";
+export type { QueueOptions } from "../services/jobQueue";
+
+export { getProvider, setProvider } from "../services/providers";
+export { createGeminiProvider } from "../services/providers/geminiProvider";
+export { resolveProxyUrl, setApiBase } from "../services/apiClient";
+export { setResultCacheStore } from "../services/resultCache";
+export type { ResultCacheStore } from "../services/resultCache";
+
+export { DEFAULT_VEO_CONFIG, VEO_MODELS, closestAspectRatio, normalizeVeoConfig, validateVeoConfig } from "../services/veoConfig";
+export { BUILTIN_TEMPLATES, CREATION_TEMPLATE, DEFAULT_TEMPLATE_ID, buildPromptRecord } from "../services/promptTemplates";
+export { BUILTIN_STYLE_PRESETS, DEFAULT_STYLE_ID, frameStyle, withStyleValues } from "../services/stylePresets";
+export { planSegmentRanges } from "../services/segments";
+export { SCORE_WIDTH, pickBestKeyframe, scoreFrame } from "../services/frameScore";
+export { UPLOAD_LIMITS } from "../services/ingest";
+export { GenerationError, InvalidInputError, errorKindOf } from "../services/errors";
+export { createAbortError, isAbortError } from "../services/polling";
+export { cacheStats } from "../services/tracing";
+export { createJobId } from "../services/jobStore";
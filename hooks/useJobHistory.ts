@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { JobRecord } from '../types';
+import { deleteJob, downloadCandidateBlobs, listJobs, putJob, updateJob } from '../services/jobStore';
+
+// Keeps a React copy of the IndexedDB job list in sync with every write.
+export const useJobHistory = () => {
+  const [jobs, setJobs] = useState<JobRecord[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setJobs(await listJobs());
+    } catch (e) {
+      console.warn("Job history unavailable", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveJob = useCallback(async (job: JobRecord) => {
+    await putJob(job);
+    await refresh();
+  }, [refresh]);
+
+  const patchJob = useCallback(async (
+    id: string,
+    patch: Partial<JobRecord> | ((job: JobRecord) => Partial<JobRecord>)
+  ) => {
+    const next = await updateJob(id, patch);
+    await refresh();
+    return next;
+  }, [refresh]);
+
+  const removeJob = useCallback(async (id: string) => {
+    await deleteJob(id);
+    await refresh();
+  }, [refresh]);
+
+  // Fetches remote-only outputs into the store before their URIs expire.
+  const saveLocally = useCallback(async (id: string) => {
+    const job = jobs.find((j) => j.id === id);
+    if (!job) return;
+    const candidates = await downloadCandidateBlobs(job.candidates);
+    await patchJob(id, { candidates });
+  }, [jobs, patchJob]);
+
+  return { jobs, refresh, saveJob, patchJob, removeJob, saveLocally };
+};
@@ -0,0 +1,238 @@
+// @vitest-environment node
+import { createHash } from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import http from 'node:http';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createProxyServer } from './app';
+import { Fixture, replay } from '../test/replay';
+import analyzeVideo from '../test/fixtures/upstream/analyze-video.json';
+import analyzeQuotaError from '../test/fixtures/upstream/analyze-quota-error.json';
+import synthesizeFrame from '../test/fixtures/upstream/synthesize-frame.json';
+import synthesizeFrameEmpty from '../test/fixtures/upstream/synthesize-frame-empty-images.json';
+import veoPendingDone from '../test/fixtures/upstream/veo-pending-pending-done.json';
+import veoOperationError from '../test/fixtures/upstream/veo-operation-error.json';
+import veoSafetyFiltered from '../test/fixtures/upstream/veo-safety-filtered.json';
+
+// The real proxy, with the SDK's upstream calls answered from recorded responses.
+
+const OPERATION = 'models/veo-3.1-fast-generate-preview/operations/op-fixture-1';
+const CONFIG = {
+  model: 'veo-3.1-fast-generate-preview',
+  resolution: '720p',
+  aspectRatio: '16:9',
+  durationSeconds: 8,
+  numberOfVideos: 1,
+};
+
+const realFetch = globalThis.fetch;
+let server: http.Server;
+let base: string;
+
+// Serves the proxy with the given upstream recordings in place of the network.
+const serve = async (...fixtures: Fixture[]) => {
+  const upstream = replay(...fixtures);
+  vi.stubGlobal('fetch', upstream.fetch);
+  server = createProxyServer({ apiKey: 'test-key', fetchImpl: upstream.fetch as typeof fetch });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return upstream;
+};
+
+const call = async (method: string, path: string, body?: unknown) => {
+  const response = await realFetch(`${base}${path}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  await new Promise((resolve) => server?.close(resolve));
+});
+
+describe('POST /api/analyze', () => {
+  it('returns the model description', async () => {
+    const upstream = await serve(analyzeVideo);
+    const { status, body } = await call('POST', '/api/analyze', { videoBase64: 'AAAA', mimeType: 'video/mp4' });
+    expect(status).toBe(200);
+    expect(body.text).toMatch(/golden retriever/);
+    expect(upstream.pending()).toHaveLength(0);
+  });
+
+  it('passes an upstream 429 on as a quota error', async () => {
+    await serve(analyzeQuotaError);
+    const { status, body } = await call('POST', '/api/analyze', { videoBase64: 'AAAA', mimeType: 'video/mp4' });
+    expect(status).toBe(429);
+    expect(body.kind).toBe('quota');
+  });
+
+  it('rejects a request without video data', async () => {
+    const upstream = await serve();
+    const { status, body } = await call('POST', '/api/analyze', { mimeType: 'video/mp4' });
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: "Missing 'videoBase64'", kind: 'invalid_input' });
+    expect(upstream.requests).toHaveLength(0);
+  });
+});
+
+describe('POST /api/frame', () => {
+  const request = { imageBase64: 'AAAA', mimeType: 'image/png', aspectRatio: '16:9' };
+
+  it('returns the regenerated keyframe', async () => {
+    const upstream = await serve(synthesizeFrame);
+    const { status, body } = await call('POST', '/api/frame', request);
+    expect(status).toBe(200);
+    expect(body.imageBase64).toBe(synthesizeFrame.exchanges.at(-1)!.response.body.predictions[0].bytesBase64Encoded);
+    expect(upstream.pending()).toHaveLength(0);
+  });
+
+  it('reports empty generatedImages as a safety block', async () => {
+    await serve(synthesizeFrameEmpty);
+    const { status, body } = await call('POST', '/api/frame', request);
+    expect(status).toBe(422);
+    expect(body).toEqual({ error: "Keyframe was blocked by safety filters", kind: 'safety' });
+  });
+
+  it('rejects an aspect ratio Veo has no use for before calling the image model', async () => {
+    const upstream = await serve();
+    const { status, body } = await call('POST', '/api/frame', { ...request, aspectRatio: '21:9' });
+    expect(status).toBe(400);
+    expect(body.error).toBe("Unsupported aspect ratio '21:9'");
+    expect(upstream.requests).toHaveLength(0);
+  });
+});
+
+describe('Veo operations', () => {
+  const start = { startFrameBase64: 'AAAA', prompt: 'A dog on a beach', config: CONFIG };
+  const poll = () => call('GET', `/api/operation?name=${encodeURIComponent(OPERATION)}`);
+
+  it('reports pending → pending → done with a media link', async () => {
+    const upstream = await serve(veoPendingDone);
+    expect((await call('POST', '/api/videos', start)).body).toEqual({ name: OPERATION, done: false });
+    expect((await poll()).body).toEqual({ name: OPERATION, done: false });
+    expect((await poll()).body).toEqual({ name: OPERATION, done: false });
+
+    const { body } = await poll();
+    expect(body.done).toBe(true);
+    expect(body.error).toBeUndefined();
+    expect(body.videos).toEqual([{
+      url: `/api/media?uri=${encodeURIComponent('https://generativelanguage.googleapis.com/v1beta/files/fixture-video:download?alt=media')}`,
+    }]);
+    expect(upstream.pending()).toHaveLength(0);
+  });
+
+  it('maps an operation error code to an error kind', async () => {
+    await serve(veoOperationError);
+    await call('POST', '/api/videos', start);
+    expect((await poll()).body).toEqual({
+      name: OPERATION,
+      done: true,
+      error: "Quota exceeded for video generation.",
+      errorKind: 'quota',
+    });
+  });
+
+  it('reports a run with every video filtered as a safety block', async () => {
+    await serve(veoSafetyFiltered);
+    await call('POST', '/api/videos', start);
+    const { body } = await poll();
+    expect(body.errorKind).toBe('safety');
+    expect(body.error).toMatch(/^Video was blocked by safety filters/);
+    expect(body.videos).toBeUndefined();
+  });
+
+  it('starts a text-to-video generation without a start frame', async () => {
+    const upstream = await serve(veoPendingDone);
+    const { startFrameBase64, ...textOnly } = start;
+    expect((await call('POST', '/api/videos', textOnly)).body).toEqual({ name: OPERATION, done: false });
+    expect(upstream.requests[0].body).toMatchObject({ instances: [{ prompt: 'A dog on a beach' }] });
+    expect(upstream.requests[0].body).not.toHaveProperty('instances.0.image');
+  });
+
+  it('rejects a start frame of an unsupported type', async () => {
+    const upstream = await serve();
+    const { status, body } = await call('POST', '/api/videos', { ...start, startFrameMimeType: 'image/gif' });
+    expect(status).toBe(400);
+    expect(body.error).toBe("Unsupported start frame type 'image/gif'");
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('rejects invalid settings before calling Veo', async () => {
+    const upstream = await serve();
+    const { status, body } = await call('POST', '/api/videos', { ...start, config: { ...CONFIG, durationSeconds: 60 } });
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/^Invalid generation settings/);
+    expect(upstream.requests).toHaveLength(0);
+  });
+});
+
+describe('POST /api/provenance/sign', () => {
+  const start = { startFrameBase64: 'AAAA', prompt: 'A dog on a beach', config: CONFIG };
+  const VIDEO_URI = 'https://generativelanguage.googleapis.com/v1beta/files/fixture-video:download?alt=media';
+  const VIDEO_BYTES = Buffer.from('fixture video bytes');
+  const download: Fixture = {
+    description: 'Generated video download',
+    exchanges: [{
+      request: { method: 'GET', url: VIDEO_URI },
+      response: { status: 200, headers: { 'content-type': 'video/mp4' }, bodyBase64: VIDEO_BYTES.toString('base64') },
+    }],
+  };
+  const manifest = (hash: string) => ({
+    claim_generator: 'SoraCleaner',
+    assertions: [
+      { label: 'c2pa.hash.data', data: { alg: 'sha256', hash } },
+      { label: 'soracleaner.proxy_attestation', data: { exportMatchesGenerated: true } },
+    ],
+  });
+  const payloadOf = (jws: string) => JSON.parse(Buffer.from(jws.split('.')[1], 'base64url').toString('utf8'));
+
+  it('refuses operations this proxy did not start', async () => {
+    await serve();
+    const { status, body } = await call('POST', '/api/provenance/sign', {
+      payload: JSON.stringify(manifest('00')),
+      operationNames: [OPERATION],
+    });
+    expect(status).toBe(403);
+    expect(body.error).toMatch(/not started through this proxy/);
+  });
+
+  it('signs its own attestation in place of the one the client sent', async () => {
+    await serve(veoPendingDone, download);
+    await call('POST', '/api/videos', start);
+    for (let i = 0; i < 3; i++) await call('GET', `/api/operation?name=${encodeURIComponent(OPERATION)}`);
+    await (await realFetch(`${base}/api/media?uri=${encodeURIComponent(VIDEO_URI)}`)).arrayBuffer();
+
+    const hash = createHash('sha256').update(VIDEO_BYTES).digest('hex');
+    const signAs = async (claimed: string) => (await call('POST', '/api/provenance/sign', {
+      payload: JSON.stringify(manifest(claimed)),
+      operationNames: [OPERATION],
+    })).body;
+
+    const matching = await signAs(hash);
+    const attestations = payloadOf(matching.jws).assertions.filter((a: any) => a.label === 'soracleaner.proxy_attestation');
+    expect(attestations).toEqual([{
+      label: 'soracleaner.proxy_attestation',
+      data: {
+        operations: [{
+          name: OPERATION,
+          model: CONFIG.model,
+          prompt: 'A dog on a beach',
+          startedAt: expect.any(String),
+          videoSha256: [hash],
+        }],
+        exportMatchesGenerated: true,
+      },
+    }]);
+    expect(payloadOf(matching.jws)).toEqual(matching.manifest);
+
+    const edited = await signAs('ff'.repeat(32));
+    expect(payloadOf(edited.jws).assertions.at(-1).data.exportMatchesGenerated).toBe(false);
+  });
+});
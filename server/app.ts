@@ -0,0 +1,297 @@
+import { createHash } from 'node:crypto';
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { AspectRatio, ProxyOperationStatus } from '../types';
+import { ALL_ASPECT_RATIOS, validateVeoConfig } from '../services/veoConfig';
+import { kindFromStatus } from '../services/errors';
+import { HttpError } from './errors';
+import { GeminiBackend, UpstreamOperation, createGeminiBackend } from './gemini';
+import { IngestOptions, ingestVideoUrl } from './ingest';
+import {
+  ProvenanceSigner,
+  claimedMediaHash,
+  createProvenanceLedger,
+  createProvenanceSigner,
+  readSignRequest,
+  withAttestation,
+} from './provenance';
+
+// Same-origin proxy for the browser app. It holds the API key, forwards model calls
+// to Gemini and streams generated videos back, so no key ever reaches the DOM.
+
+export interface ProxyServerOptions {
+  apiKey: string;
+  // Upstream API origin; defaults to the public Gemini API.
+  baseUrl?: string;
+  // Largest accepted JSON body (base64 video uploads are large).
+  maxBodyBytes?: number;
+  // Injected for tests; built from apiKey/baseUrl otherwise.
+  backend?: GeminiBackend;
+  fetchImpl?: typeof fetch;
+  // Limits for POST /api/ingest (pasted links).
+  ingest?: Omit<IngestOptions, 'signal'>;
+  // Signs provenance manifests of exported videos; an ephemeral key by default.
+  signer?: ProvenanceSigner;
+}
+
+export const DEFAULT_UPSTREAM = 'https://generativelanguage.googleapis.com';
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = async (req: IncomingMessage, maxBytes: number): Promise<any> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+};
+
+const requireString = (body: any, field: string): string => {
+  const value = body?.[field];
+  if (typeof value !== 'string' || !value) throw new HttpError(400, `Missing '${field}'`);
+  return value;
+};
+
+// Optional text fields; absent and empty are the same.
+const optionalString = (body: any, field: string): string | undefined => {
+  const value = body?.[field];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new HttpError(400, `'${field}' must be a string`);
+  return value;
+};
+
+// Aspect ratio of POST /api/frame; the image model gets only ratios Veo can render.
+const readAspectRatio = (body: any): AspectRatio => {
+  const aspectRatio = requireString(body, 'aspectRatio');
+  if (!ALL_ASPECT_RATIOS.includes(aspectRatio as AspectRatio)) {
+    throw new HttpError(400, `Unsupported aspect ratio '${aspectRatio}'`);
+  }
+  return aspectRatio as AspectRatio;
+};
+
+const START_FRAME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// The start frame of POST /api/videos; absent for text-to-video.
+const readStartFrame = (body: any): { imageBytes: string; mimeType: string } | undefined => {
+  if (body?.startFrameBase64 === undefined) return undefined;
+  const mimeType = body.startFrameMimeType ?? 'image/png';
+  if (!START_FRAME_TYPES.includes(mimeType)) throw new HttpError(400, `Unsupported start frame type '${mimeType}'`);
+  return { imageBytes: requireString(body, 'startFrameBase64'), mimeType };
+};
+
+// Aborts upstream work when the browser goes away (tab closed, request cancelled).
+const abortOnDisconnect = (res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+export const createProxyServer = ({
+  apiKey,
+  baseUrl = DEFAULT_UPSTREAM,
+  maxBodyBytes = 100 * 1024 * 1024,
+  backend = createGeminiBackend({ apiKey, baseUrl }),
+  fetchImpl = fetch,
+  ingest = {},
+  signer = createProvenanceSigner(),
+}: ProxyServerOptions): http.Server => {
+  const upstreamOrigin = new URL(baseUrl).origin;
+  const ledger = createProvenanceLedger();
+
+  const toStatus = (operation: UpstreamOperation): ProxyOperationStatus => ({
+    name: operation.name,
+    done: operation.done,
+    error: operation.error,
+    errorKind: operation.errorKind,
+    videos: operation.done && !operation.error
+      ? operation.videos.map((video) => ({
+          url: `/api/media?uri=${encodeURIComponent(video.uri)}`,
+          expirationTime: video.expirationTime,
+        }))
+      : undefined,
+  });
+
+  // Streams an upstream file to the browser, adding the key server-side. Only URIs
+  // on the configured upstream are allowed, so this can't be used as an open proxy.
+  const streamMedia = async (req: IncomingMessage, res: ServerResponse, uri: string) => {
+    let target: URL;
+    try {
+      target = new URL(uri);
+    } catch {
+      throw new HttpError(400, "Invalid media URI");
+    }
+    if (target.origin !== upstreamOrigin) throw new HttpError(403, "Media URI is not on the upstream API");
+
+    const headers: Record<string, string> = { 'x-goog-api-key': apiKey };
+    if (req.headers.range) headers.range = req.headers.range;
+    const upstream = await fetchImpl(target, { headers, signal: abortOnDisconnect(res) });
+    if (!upstream.ok || !upstream.body) {
+      throw new HttpError(upstream.status === 404 ? 404 : 502, `Upstream media request failed (${upstream.status})`);
+    }
+
+    const passthrough: Record<string, string> = { 'Cache-Control': 'private, max-age=3600' };
+    for (const name of ['content-type', 'content-length', 'content-range', 'accept-ranges']) {
+      const value = upstream.headers.get(name);
+      if (value) passthrough[name] = value;
+    }
+    res.writeHead(upstream.status, passthrough);
+    const body = Readable.fromWeb(upstream.body as any);
+    // Whole-file downloads are hashed on the way, so signed manifests can cite them.
+    if (upstream.status === 200 && !req.headers.range) {
+      const hash = createHash('sha256');
+      body.on('data', (chunk) => hash.update(chunk));
+      body.on('end', () => ledger.recordMediaHash(uri, hash.digest('hex')));
+    }
+    body.pipe(res);
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const { pathname } = url;
+
+    if (req.method === 'GET' && pathname === '/api/health') {
+      sendJson(res, 200, { ok: true, hasKey: Boolean(apiKey) });
+      return;
+    }
+    // Link import needs no key, so it also works with the offline mock provider.
+    if (req.method === 'POST' && pathname === '/api/ingest') {
+      const body = await readJson(req, 64 * 1024);
+      const video = await ingestVideoUrl(requireString(body, 'url'), {
+        ...ingest,
+        signal: abortOnDisconnect(res),
+      });
+      sendJson(res, 200, video);
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/api/provenance/key') {
+      sendJson(res, 200, { keyId: signer.keyId, publicKeyJwk: signer.publicKeyJwk, persistent: signer.persistent });
+      return;
+    }
+    // Signs only for generations this proxy started; the signed attestation holds
+    // what the proxy saw itself, next to the client's own assertions.
+    if (req.method === 'POST' && pathname === '/api/provenance/sign') {
+      const { manifest, operationNames } = readSignRequest(await readJson(req, 1024 * 1024));
+      const signed = withAttestation(manifest, ledger.attest(operationNames, claimedMediaHash(manifest)));
+      sendJson(res, 200, {
+        manifest: signed,
+        jws: signer.signJws(JSON.stringify(signed)),
+        keyId: signer.keyId,
+        persistent: signer.persistent,
+      });
+      return;
+    }
+
+    if (!apiKey) throw new HttpError(503, "GEMINI_API_KEY is not configured on the server");
+
+    if (req.method === 'POST' && pathname === '/api/analyze') {
+      const body = await readJson(req, maxBodyBytes);
+      const text = await backend.analyzeVideo(
+        requireString(body, 'videoBase64'),
+        requireString(body, 'mimeType'),
+        abortOnDisconnect(res)
+      );
+      sendJson(res, 200, { text });
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/api/analyze-frames') {
+      const body = await readJson(req, maxBodyBytes);
+      const frames = body?.framesBase64;
+      if (!Array.isArray(frames) || !frames.length || frames.some((f: unknown) => typeof f !== 'string' || !f)) {
+        throw new HttpError(400, "Missing 'framesBase64'");
+      }
+      const text = await backend.analyzeFrames(frames, requireString(body, 'mimeType'), abortOnDisconnect(res));
+      sendJson(res, 200, { text });
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/api/segments') {
+      const body = await readJson(req, maxBodyBytes);
+      const ranges = body?.ranges;
+      if (!Array.isArray(ranges) || !ranges.length || ranges.some((r: any) =>
+        !Number.isFinite(r?.startSeconds) || !Number.isFinite(r?.endSeconds) || r.endSeconds <= r.startSeconds)) {
+        throw new HttpError(400, "Missing or invalid 'ranges'");
+      }
+      const descriptions = await backend.describeSegments(requireString(body, 'analysis'), ranges, abortOnDisconnect(res));
+      sendJson(res, 200, { descriptions });
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/api/frame') {
+      const body = await readJson(req, maxBodyBytes);
+      const imageBase64 = await backend.synthesizeFrame(
+        requireString(body, 'imageBase64'),
+        requireString(body, 'mimeType'),
+        readAspectRatio(body),
+        { modifier: optionalString(body, 'styleModifier'), negativePrompt: optionalString(body, 'negativePrompt') },
+        abortOnDisconnect(res)
+      );
+      sendJson(res, 200, { imageBase64 });
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/api/videos') {
+      const body = await readJson(req, maxBodyBytes);
+      const configErrors = body?.config ? validateVeoConfig(body.config) : ["Missing 'config'"];
+      if (configErrors.length) throw new HttpError(400, `Invalid generation settings: ${configErrors.join('; ')}`);
+      const operation = await backend.startVideo(
+        readStartFrame(body),
+        requireString(body, 'prompt'),
+        body.config,
+        optionalString(body, 'negativePrompt'),
+        abortOnDisconnect(res)
+      );
+      if (operation.name) ledger.recordOperation(operation.name, { model: body.config.model, prompt: body.prompt });
+      sendJson(res, 200, toStatus(operation));
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/api/operation') {
+      const name = url.searchParams.get('name');
+      if (!name) throw new HttpError(400, "Missing 'name'");
+      const operation = await backend.getOperation(name, abortOnDisconnect(res));
+      if (operation.done && !operation.error) ledger.recordVideos(name, operation.videos.map((video) => video.uri));
+      sendJson(res, 200, toStatus(operation));
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/api/media') {
+      await streamMedia(req, res, url.searchParams.get('uri') || '');
+      return;
+    }
+
+    throw new HttpError(404, `No route for ${req.method} ${pathname}`);
+  };
+
+  return http.createServer((req, res) => {
+    route(req, res).catch((error: any) => {
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      // SDK errors carry the upstream HTTP status; keep it so the client can tell quota from auth.
+      const status = error instanceof HttpError
+        ? error.status
+        : typeof error?.status === 'number' && error.status >= 400 ? error.status : 502;
+      const message = error.message || "Upstream request failed";
+      if (status >= 500) console.error("Proxy error:", error);
+      sendJson(res, status, {
+        error: message,
+        kind: error instanceof HttpError && error.kind ? error.kind : kindFromStatus(status, message),
+      });
+    });
+  });
+};
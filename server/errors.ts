@@ -0,0 +1,10 @@
+import { ErrorKind } from '../types';
+
+// Error with the HTTP status the proxy should answer with. `kind` is passed on to
+// the client when the status alone would be ambiguous (e.g. a safety block).
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly kind?: ErrorKind) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
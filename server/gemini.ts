@@ -0,0 +1,226 @@
+import { GenerateVideosOperation, GoogleGenAI, Type } from "@google/genai";
+import { AspectRatio, ErrorKind, SegmentRange, StylePrompt, VeoConfig, VeoResponse } from "../types";
+import { ANALYSIS_MODEL, FRAME_IMAGE_MODEL } from "../services/models";
+import { ANALYZE_FRAMES_PROMPT, ANALYZE_VIDEO_PROMPT, DESCRIBE_FRAME_PROMPT, FRAME_IMAGE_PROMPT_SUFFIX } from "../services/modelPrompts";
+import { HttpError } from "./errors";
+
+// Server-side Gemini/Imagen/Veo calls. The API key never leaves this process.
+
+export interface GeminiBackendOptions {
+  apiKey: string;
+  // Override of the API origin, e.g. a local stub upstream in tests.
+  baseUrl?: string;
+}
+
+export interface UpstreamOperation {
+  name: string;
+  done: boolean;
+  error?: string;
+  errorKind?: ErrorKind;
+  videos: { uri: string; expirationTime?: string }[];
+}
+
+// google.rpc.Code values a failed long-running operation reports.
+const RPC_ERROR_KINDS: Record<number, ErrorKind> = {
+  3: 'invalid_input',
+  4: 'timeout',
+  7: 'auth',
+  8: 'quota',
+  13: 'upstream',
+  14: 'upstream',
+  16: 'auth',
+};
+
+export const createGeminiBackend = ({ apiKey, baseUrl }: GeminiBackendOptions) => {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+
+  const analyzeVideo = async (
+    videoBase64: string,
+    mimeType: string,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    // Use Gemini 2.5 Flash for fast multimodal analysis
+    const response = await ai.models.generateContent({
+      model: ANALYSIS_MODEL, // Using latest flash for analysis
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              data: videoBase64,
+              mimeType: mimeType,
+            },
+          },
+          {
+            text: ANALYZE_VIDEO_PROMPT,
+          },
+        ],
+      },
+      config: { abortSignal: signal },
+    });
+
+    return response.text || "A cinematic video scene.";
+  };
+
+  // Multi-frame alternative to analyzeVideo for long clips: a handful of sampled
+  // stills is a fraction of the request size of the whole video.
+  const analyzeFrames = async (
+    framesBase64: string[],
+    mimeType: string,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    const response = await ai.models.generateContent({
+      model: ANALYSIS_MODEL,
+      contents: {
+        parts: [
+          ...framesBase64.map((data) => ({ inlineData: { data, mimeType } })),
+          {
+            text: ANALYZE_FRAMES_PROMPT,
+          },
+        ],
+      },
+      config: { abortSignal: signal },
+    });
+
+    return response.text || "A cinematic video scene.";
+  };
+
+  // Splits the scene description into one description per time range, for clips
+  // generated as consecutive segments. Returns exactly one string per range.
+  const describeSegments = async (
+    analysis: string,
+    ranges: SegmentRange[],
+    signal?: AbortSignal
+  ): Promise<string[]> => {
+    const list = ranges
+      .map((range, index) => `${index + 1}. ${range.startSeconds.toFixed(1)}s to ${range.endSeconds.toFixed(1)}s`)
+      .join('\n');
+    const response = await ai.models.generateContent({
+      model: ANALYSIS_MODEL,
+      contents: {
+        parts: [{
+          text: `Here is a description of a video:\n\n${analysis}\n\nThe video is regenerated as ${ranges.length} consecutive segments:\n${list}\n\nFor each segment, in order, write what happens during that time range: subject, action and camera movement, continuing seamlessly from the previous segment. Do not mention watermarks or text overlays.`,
+        }],
+      },
+      config: {
+        abortSignal: signal,
+        responseMimeType: 'application/json',
+        responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+    });
+
+    let descriptions: unknown;
+    try {
+      descriptions = JSON.parse(response.text || '[]');
+    } catch {
+      throw new HttpError(502, "Segment descriptions were not valid JSON", 'upstream');
+    }
+    if (!Array.isArray(descriptions) || descriptions.length !== ranges.length || descriptions.some((d) => typeof d !== 'string')) {
+      throw new HttpError(502, `Expected ${ranges.length} segment descriptions`, 'upstream');
+    }
+    return descriptions;
+  };
+
+  const synthesizeFrame = async (
+    imageBase64: string,
+    mimeType: string,
+    aspectRatio: AspectRatio,
+    style: StylePrompt = {},
+    signal?: AbortSignal
+  ): Promise<string> => {
+    // The frame is re-rendered clean rather than edited: Gemini describes it
+    // (ignoring the watermark), then Imagen renders that description.
+
+    // 1. Describe dirty frame
+    const descriptionResponse = await ai.models.generateContent({
+      model: ANALYSIS_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data: imageBase64, mimeType } },
+          { text: DESCRIBE_FRAME_PROMPT }
+        ]
+      },
+      config: { abortSignal: signal },
+    });
+    const prompt = descriptionResponse.text || "A clean video frame";
+
+    // 2. Generate clean frame using Imagen
+    const imagenResponse = await ai.models.generateImages({
+      model: FRAME_IMAGE_MODEL,
+      // A style preset's modifier replaces the default photorealistic one.
+      prompt: prompt + (style.modifier ? ` ${style.modifier}` : FRAME_IMAGE_PROMPT_SUFFIX),
+      config: {
+          numberOfImages: 1,
+          negativePrompt: style.negativePrompt,
+          aspectRatio, // Matches the video settings so Veo gets a correctly framed start image
+          outputMimeType: 'image/png',
+          abortSignal: signal,
+      }
+    });
+
+    // Imagen returns no images (rather than an error) when its safety filters drop them.
+    const image = imagenResponse.generatedImages?.[0];
+    if (!image?.image?.imageBytes) {
+      const reason = image?.raiFilteredReason;
+      throw new HttpError(422, `Keyframe was blocked by safety filters${reason ? `: ${reason}` : ''}`, 'safety');
+    }
+    return image.image.imageBytes;
+  };
+
+  const toUpstreamOperation = (operation: GenerateVideosOperation): UpstreamOperation => {
+    const response = operation.response as VeoResponse | undefined;
+    const videos = (response?.generatedVideos || [])
+      .filter(v => v?.video?.uri)
+      .map(v => ({ uri: v.video.uri, expirationTime: v.video.expirationTime }));
+    const result: UpstreamOperation = { name: operation.name || '', done: Boolean(operation.done), videos };
+
+    if (operation.error) {
+      result.error = String(operation.error.message || "Video generation failed");
+      result.errorKind = RPC_ERROR_KINDS[Number(operation.error.code)];
+    } else if (result.done && !videos.length && response?.raiMediaFilteredCount) {
+      // Veo finishes "successfully" with no videos when safety filters drop them all.
+      const reasons = response.raiMediaFilteredReasons?.join('; ');
+      result.error = `Video was blocked by safety filters${reasons ? `: ${reasons}` : ''}`;
+      result.errorKind = 'safety';
+    }
+    return result;
+  };
+
+  // Starts a Veo generation and returns the long-running operation without waiting on it.
+  // Without a start frame (Create mode from a prompt alone) Veo generates text-to-video.
+  const startVideo = async (
+    startFrame: { imageBytes: string; mimeType: string } | undefined,
+    prompt: string,
+    config: VeoConfig,
+    negativePrompt?: string,
+    signal?: AbortSignal
+  ): Promise<UpstreamOperation> => {
+    // We use the cleaned start frame and the video description to generate a new video
+    // This effectively "removes" the watermark by hallucinating the rest of the video from the clean start.
+    const operation = await ai.models.generateVideos({
+      model: config.model,
+      prompt, // Style suffixes come from the prompt template
+      image: startFrame,
+      config: {
+        numberOfVideos: config.numberOfVideos,
+        resolution: config.resolution,
+        aspectRatio: config.aspectRatio,
+        durationSeconds: config.durationSeconds,
+        negativePrompt,
+        abortSignal: signal,
+      },
+    });
+    return toUpstreamOperation(operation);
+  };
+
+  const getOperation = async (name: string, signal?: AbortSignal): Promise<UpstreamOperation> => {
+    const operation = new GenerateVideosOperation();
+    operation.name = name;
+    return toUpstreamOperation(
+      await ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } })
+    );
+  };
+
+  return { analyzeVideo, analyzeFrames, describeSegments, synthesizeFrame, startVideo, getOperation };
+};
+
+export type GeminiBackend = ReturnType<typeof createGeminiBackend>;
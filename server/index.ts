@@ -0,0 +1,21 @@
+import { loadEnv } from 'vite';
+import { createProxyServer, DEFAULT_UPSTREAM } from './app';
+import { createProvenanceSigner } from './provenance';
+
+// Entry point for `npm run server`. Reads the same .env/.env.local files as Vite.
+const env = loadEnv(process.env.NODE_ENV || 'development', process.cwd(), '');
+const port = Number(env.PROXY_PORT) || 8787;
+
+const server = createProxyServer({
+  apiKey: env.GEMINI_API_KEY || '',
+  baseUrl: env.GEMINI_BASE_URL || DEFAULT_UPSTREAM,
+  signer: createProvenanceSigner(env.PROVENANCE_SIGNING_KEY),
+});
+
+server.listen(port, () => {
+  console.log(`SoraCleaner proxy listening on http://localhost:${port}`);
+  if (!env.GEMINI_API_KEY) console.warn("GEMINI_API_KEY is not set; model calls will fail.");
+  if (!env.PROVENANCE_SIGNING_KEY) {
+    console.warn("PROVENANCE_SIGNING_KEY is not set; provenance manifests are signed with a key that changes on restart.");
+  }
+});
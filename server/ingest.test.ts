@@ -0,0 +1,64 @@
+// @vitest-environment node
+import { lookup } from 'node:dns/promises';
+import { AddressInfo } from 'node:net';
+import http from 'node:http';
+import { afterEach, describe, expect, it } from 'vitest';
+import { ingestVideoUrl, isPrivateAddress } from './ingest';
+
+// Smallest header the container sniffer accepts as MP4.
+const MP4_BYTES = Buffer.from([0, 0, 0, 0x18, ...Buffer.from('ftypisom'), 0, 0, 0, 0, ...Buffer.from('isom'), 0, 0, 0, 0]);
+
+let server: http.Server | undefined;
+
+afterEach(async () => {
+  await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+  server = undefined;
+});
+
+describe('isPrivateAddress', () => {
+  it('blocks private, reserved, multicast and IPv4-embedding ranges', () => {
+    for (const address of ['10.1.2.3', '127.0.0.1', '169.254.169.254', '224.0.0.1', '255.255.255.255', '198.18.0.1',
+      '::1', 'fd00::1', 'fe80::1', 'fec0::1', 'ff02::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '2002:7f00:1::1', '64:ff9b::a00:1']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe('ingestVideoUrl', () => {
+  it('rejects a host name that resolves to a private address', async () => {
+    await expect(ingestVideoUrl('http://localhost:9/clip.mp4')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('downloads through the pinned request', async () => {
+    server = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'video/mp4' });
+      res.end(MP4_BYTES);
+    });
+    // Listen where the name resolves first, which is where the request is pinned.
+    const [{ address }] = await lookup('localhost', { all: true });
+    await new Promise<void>((resolve) => server!.listen(0, address, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const video = await ingestVideoUrl(`http://localhost:${port}/clips/clip.mp4`, { allowPrivateHosts: true });
+    expect(video).toMatchObject({ name: 'clip.mp4', mimeType: 'video/mp4', size: MP4_BYTES.length });
+  });
+
+  it('keeps a file name with a malformed escape as it appears in the link', async () => {
+    server = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'video/mp4' });
+      res.end(MP4_BYTES);
+    });
+    const [{ address }] = await lookup('localhost', { all: true });
+    await new Promise<void>((resolve) => server!.listen(0, address, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const video = await ingestVideoUrl(`http://localhost:${port}/clips/100%25%zz.mp4`, { allowPrivateHosts: true });
+    expect(video.name).toBe('100%25%zz.mp4');
+  });
+});
@@ -0,0 +1,215 @@
+import { lookup } from 'node:dns/promises';
+import http from 'node:http';
+import https from 'node:https';
+import { BlockList, LookupFunction, isIP } from 'node:net';
+import { Readable } from 'node:stream';
+import { IngestedVideo } from '../types';
+import { sniffVideoContainer } from '../services/videoContainer';
+import { HttpError } from './errors';
+
+// Downloads a pasted video link on the server so the browser gets the full file
+// (no CORS, no tainted canvas) and analysis can use the whole clip.
+
+export interface IngestOptions {
+  maxBytes?: number;
+  maxRedirects?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Injected for tests. Replaces the request pinned to the checked address, so only
+  // the address check itself still applies.
+  fetchImpl?: typeof fetch;
+  // Allows loopback/private hosts, e.g. a local fixture server in tests.
+  allowPrivateHosts?: boolean;
+}
+
+export const DEFAULT_INGEST_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = 3;
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+// Declared types we are willing to download; the real format is sniffed afterwards.
+const ACCEPTED_CONTENT_TYPES = ['video/', 'application/octet-stream', 'binary/octet-stream'];
+
+// Special-purpose ranges (IANA registries) a link must not reach: private, loopback,
+// link-local, shared, documentation, benchmarking, multicast and reserved space, plus
+// the IPv6 prefixes that embed an IPv4 address. IPv4-mapped IPv6 addresses are
+// checked against the IPv4 ranges.
+const BLOCKED_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.88.99.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001::', 23, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['2002::', 16, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['fec0::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix, type] of BLOCKED_RANGES) blockedAddresses.addSubnet(network, prefix, type);
+
+export const isPrivateAddress = (address: string): boolean =>
+  blockedAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// Rejects anything that isn't a public http(s) URL, so the proxy can't be pointed at
+// internal services. Checked again on every redirect hop. Returns the address to
+// connect to, so the request can't be sent elsewhere by a second DNS answer.
+const resolveFetchable = async (url: URL, allowPrivateHosts: boolean): Promise<string> => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new HttpError(400, "Only http(s) links can be imported");
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true }).catch(() => [])).map((a) => a.address);
+  if (!addresses.length) throw new HttpError(400, `Could not resolve ${url.hostname}`);
+  if (!allowPrivateHosts && addresses.some(isPrivateAddress)) {
+    throw new HttpError(403, "Links to private network addresses are not allowed");
+  }
+  return addresses[0];
+};
+
+// GET that connects to `address` instead of resolving the host again (TLS still
+// checks the certificate against the host name). Redirects are not followed.
+const pinnedFetch = (url: URL, address: string, signal: AbortSignal): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const family = isIP(address);
+    const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+      if (options.all) callback(null, [{ address, family }]);
+      else callback(null, address, family);
+    };
+    const request = (url.protocol === 'https:' ? https : http).request(url, { signal, lookup: pinnedLookup }, (res) => {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(res.headers)) {
+        if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+      }
+      const status = res.statusCode || 502;
+      const body = [204, 205, 304].includes(status) ? null : (Readable.toWeb(res) as ReadableStream<Uint8Array>);
+      resolve(new Response(body, { status, headers }));
+    });
+    request.on('error', reject);
+    request.end();
+  });
+
+const nameFromUrl = (url: URL, mimeType: string): string => {
+  const segment = url.pathname.split('/').filter(Boolean).pop() || '';
+  let last = segment;
+  try {
+    last = decodeURIComponent(segment);
+  } catch {
+    // A malformed escape (e.g. '%zz') keeps the name as it appears in the link.
+  }
+  if (last) return last;
+  const extension = mimeType === 'video/webm' ? 'webm' : mimeType === 'video/quicktime' ? 'mov' : 'mp4';
+  return `${url.hostname}.${extension}`;
+};
+
+const tooLarge = (maxBytes: number) =>
+  new HttpError(413, `Video is larger than ${maxBytes >= 1024 * 1024 ? `${Math.round(maxBytes / 1024 / 1024)}MB` : `${maxBytes} bytes`}`);
+
+const readLimited = async (response: Response, maxBytes: number): Promise<Buffer> => {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body!.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge(maxBytes);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+};
+
+export const ingestVideoUrl = async (
+  rawUrl: string,
+  {
+    maxBytes = DEFAULT_INGEST_MAX_BYTES,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    signal,
+    fetchImpl,
+    allowPrivateHosts = false,
+  }: IngestOptions = {}
+): Promise<IngestedVideo> => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new HttpError(400, "Invalid URL");
+  }
+
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const requestSignal = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+  try {
+    // Redirects are followed by hand so each hop is re-checked and counted.
+    for (let hop = 0; ; hop++) {
+      const address = await resolveFetchable(url, allowPrivateHosts);
+      const response = fetchImpl
+        ? await fetchImpl(url, { redirect: 'manual', signal: requestSignal })
+        : await pinnedFetch(url, address, requestSignal);
+
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.get('location');
+        await response.body?.cancel();
+        if (!location) throw new HttpError(502, `Redirect from ${url.host} has no location`);
+        if (hop >= maxRedirects) throw new HttpError(400, `Too many redirects (limit ${maxRedirects})`);
+        url = new URL(location, url);
+        continue;
+      }
+
+      if (!response.ok || !response.body) {
+        await response.body?.cancel();
+        throw new HttpError(502, `Could not download video (${response.status})`);
+      }
+
+      const declaredType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+      if (declaredType && !ACCEPTED_CONTENT_TYPES.some((type) => declaredType.startsWith(type))) {
+        await response.body.cancel();
+        throw new HttpError(415, `Link does not point to a video file (${declaredType})`);
+      }
+      const declaredLength = Number(response.headers.get('content-length'));
+      if (declaredLength > maxBytes) {
+        await response.body.cancel();
+        throw tooLarge(maxBytes);
+      }
+
+      const bytes = await readLimited(response, maxBytes);
+      const mimeType = sniffVideoContainer(bytes);
+      if (!mimeType) throw new HttpError(415, "Unsupported video format; use MP4, MOV or WebM");
+
+      return {
+        name: nameFromUrl(url, mimeType),
+        mimeType,
+        size: bytes.length,
+        base64Data: bytes.toString('base64'),
+        finalUrl: url.toString(),
+      };
+    }
+  } catch (error: any) {
+    if (error instanceof HttpError) throw error;
+    if (timeout.aborted) throw new HttpError(504, "Timed out downloading the video");
+    if (signal?.aborted) throw error;
+    throw new HttpError(502, `Could not download video: ${error.message}`);
+  }
+};
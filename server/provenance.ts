@@ -0,0 +1,157 @@
+import { KeyObject, createHash, createPrivateKey, generateKeyPairSync, sign } from 'node:crypto';
+import { HttpError } from './errors';
+
+// Signs provenance manifests for exported videos as compact JWS (ES256), so anyone
+// holding the public key (GET /api/provenance/key) can check a sidecar or embedded
+// manifest with a standard JOSE library.
+
+export interface ProvenanceSigner {
+  keyId: string;
+  publicKeyJwk: JsonWebKey;
+  // Whether the key came from configuration rather than being generated at startup.
+  persistent: boolean;
+  signJws: (payload: string) => string;
+}
+
+const base64url = (data: Buffer | string) => Buffer.from(data).toString('base64url');
+
+const fromPrivateKey = (privateKey: KeyObject, persistent: boolean): ProvenanceSigner => {
+  if (privateKey.asymmetricKeyType !== 'ec' || privateKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+    throw new Error("Provenance signing key must be an EC P-256 private key");
+  }
+  const { kty, crv, x, y } = privateKey.export({ format: 'jwk' });
+  const publicKeyJwk: JsonWebKey = { kty, crv, x, y };
+  const keyId = createHash('sha256').update(`${x}.${y}`).digest('hex').slice(0, 16);
+
+  return {
+    keyId,
+    publicKeyJwk,
+    persistent,
+    signJws: (payload) => {
+      const header = base64url(JSON.stringify({ alg: 'ES256', kid: keyId, jwk: publicKeyJwk, cty: 'json' }));
+      const signingInput = `${header}.${base64url(payload)}`;
+      // JWS wants the raw r||s signature, not DER.
+      const signature = sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+      return `${signingInput}.${base64url(signature)}`;
+    },
+  };
+};
+
+// Uses the configured PKCS#8 PEM key, or a fresh key pair whose signatures only
+// verify against the public key served by this process.
+export const createProvenanceSigner = (privateKeyPem?: string): ProvenanceSigner => {
+  if (privateKeyPem) {
+    return fromPrivateKey(createPrivateKey(privateKeyPem.replace(/\\n/g, '\n')), true);
+  }
+  const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  return fromPrivateKey(privateKey, false);
+};
+
+const requirePayload = (body: any): string => {
+  const payload = body?.payload;
+  if (typeof payload !== 'string' || !payload) throw new HttpError(400, "Missing 'payload'");
+  try {
+    JSON.parse(payload);
+  } catch {
+    throw new HttpError(400, "'payload' must be a JSON document");
+  }
+  return payload;
+};
+
+// What this proxy itself saw of each generation: the operations it started, the
+// videos they produced and the hash of each video as it streamed it to the browser.
+// Kept in memory, so a restart forgets earlier runs.
+interface OperationRecord {
+  name: string;
+  model: string;
+  prompt: string;
+  startedAt: string;
+  videoUris: string[];
+}
+
+export interface ProvenanceLedger {
+  recordOperation: (name: string, details: { model: string; prompt: string }) => void;
+  recordVideos: (name: string, uris: string[]) => void;
+  recordMediaHash: (uri: string, sha256: string) => void;
+  attest: (operationNames: string[], exportSha256: string | undefined) => ProxyAttestation;
+}
+
+export interface ProxyAttestation {
+  operations: { name: string; model: string; prompt: string; startedAt: string; videoSha256: string[] }[];
+  // Whether the exported bytes are one of those videos exactly as downloaded.
+  exportMatchesGenerated: boolean;
+}
+
+export const ATTESTATION_LABEL = 'soracleaner.proxy_attestation';
+
+const MAX_RECORDS = 1000;
+
+// Map with insertion-order eviction, so a long-running proxy stays bounded.
+const remember = <T>(map: Map<string, T>, key: string, value: T) => {
+  map.delete(key);
+  map.set(key, value);
+  if (map.size > MAX_RECORDS) map.delete(map.keys().next().value!);
+};
+
+export const createProvenanceLedger = (): ProvenanceLedger => {
+  const operations = new Map<string, OperationRecord>();
+  const mediaHashes = new Map<string, string>();
+
+  return {
+    recordOperation: (name, { model, prompt }) =>
+      remember(operations, name, { name, model, prompt, startedAt: new Date().toISOString(), videoUris: [] }),
+    recordVideos: (name, uris) => {
+      const operation = operations.get(name);
+      if (operation) operation.videoUris = uris;
+    },
+    recordMediaHash: (uri, sha256) => remember(mediaHashes, uri, sha256),
+    attest: (operationNames, exportSha256) => {
+      if (!operationNames.length) throw new HttpError(400, "Missing 'operationNames'");
+      const records = operationNames.map((name) => {
+        const operation = operations.get(name);
+        if (!operation) throw new HttpError(403, `Operation '${name}' was not started through this proxy`);
+        return operation;
+      });
+      const attested = records.map(({ name, model, prompt, startedAt, videoUris }) => ({
+        name,
+        model,
+        prompt,
+        startedAt,
+        videoSha256: videoUris.flatMap((uri) => mediaHashes.get(uri) ?? []),
+      }));
+      return {
+        operations: attested,
+        exportMatchesGenerated: Boolean(exportSha256) && attested.some(({ videoSha256 }) => videoSha256.includes(exportSha256!)),
+      };
+    },
+  };
+};
+
+// Reads the sign request: the client's manifest and the operations it names. The
+// client's assertions are kept as declared; the signed attestation replaces any
+// the client sent, so the signature only vouches for what the proxy saw.
+export const readSignRequest = (body: any): { manifest: any; operationNames: string[] } => {
+  const manifest = JSON.parse(requirePayload(body));
+  if (!manifest || typeof manifest !== 'object' || !Array.isArray(manifest.assertions)) {
+    throw new HttpError(400, "'payload' must be a manifest with assertions");
+  }
+  const operationNames = body?.operationNames;
+  if (!Array.isArray(operationNames) || operationNames.some((name: unknown) => typeof name !== 'string' || !name)) {
+    throw new HttpError(400, "Missing 'operationNames'");
+  }
+  return { manifest, operationNames: [...new Set<string>(operationNames)] };
+};
+
+// The manifest's own claim about the exported bytes, if it makes one.
+export const claimedMediaHash = (manifest: any): string | undefined => {
+  const hash = manifest.assertions.find((assertion: any) => assertion?.label === 'c2pa.hash.data')?.data?.hash;
+  return typeof hash === 'string' ? hash : undefined;
+};
+
+export const withAttestation = (manifest: any, attestation: ProxyAttestation) => ({
+  ...manifest,
+  assertions: [
+    ...manifest.assertions.filter((assertion: any) => assertion?.label !== ATTESTATION_LABEL),
+    { label: ATTESTATION_LABEL, data: attestation },
+  ],
+});
@@ -0,0 +1,55 @@
+import { ErrorKind } from "../types";
+import { classifyError, createGenerationError, kindFromStatus } from "./errors";
+
+// Thin fetch helpers for the local proxy (server/). Failures are thrown as typed
+// GenerationErrors carrying the server's message and status.
+
+let apiBase = process.env.API_BASE_URL || '/api';
+
+// Points the client at another proxy, e.g. the one the CLI starts on a free port.
+export const setApiBase = (base: string) => {
+  apiBase = base.replace(/\/+$/, '');
+};
+
+// Output URLs from the proxy are root-relative (`/api/media?uri=...`); with an
+// absolute API base they are resolved against that origin.
+export const resolveProxyUrl = (url: string): string =>
+  /^https?:\/\//.test(apiBase) ? new URL(url, apiBase).toString() : url;
+
+export const readResponse = async <T>(response: Response): Promise<T> => {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const message: string = body?.error || `Request failed with status ${response.status}`;
+    const kind: ErrorKind = body?.kind || kindFromStatus(response.status, message);
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw createGenerationError(kind, message, response.status, retryAfter > 0 ? retryAfter * 1000 : undefined);
+  }
+  return body as T;
+};
+
+const request = async <T>(path: string, init: RequestInit): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${apiBase}${path}`, init);
+  } catch (error) {
+    throw classifyError(error);
+  }
+  return readResponse<T>(response);
+};
+
+export const postJson = <T>(path: string, payload: unknown, signal?: AbortSignal): Promise<T> =>
+  request<T>(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+export const getJson = <T>(path: string, signal?: AbortSignal): Promise<T> => request<T>(path, { signal });
+
+export interface ProxyHealth {
+  ok: boolean;
+  hasKey: boolean;
+}
+
+export const checkProxyHealth = (signal?: AbortSignal): Promise<ProxyHealth> => getJson<ProxyHealth>('/health', signal);
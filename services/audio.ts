@@ -0,0 +1,42 @@
+import { AudioPolicyOptions, VideoCandidate } from "../types";
+import { InvalidInputError } from "./errors";
+import { decodeAudioTrack, transcodeVideo } from "./videoProcessing";
+
+// Applies the run's audio policy to its outputs in the browser. 'generate' keeps
+// what the model returned; 'keep' replaces it with the source's audio, starting
+// where the output starts in the source and cut to the output's length; 'mute'
+// strips it. Both re-encode the output (see transcodeVideo).
+
+export const applyAudioPolicy = async (
+  candidates: VideoCandidate[],
+  { policy, source, offsetSeconds = 0, signal, onProgress }: AudioPolicyOptions
+): Promise<VideoCandidate[]> => {
+  if (policy === 'generate') return candidates;
+
+  let original: AudioBuffer | null = null;
+  if (policy === 'keep') {
+    if (!source) throw new InvalidInputError("The original audio is only available for uploads and imported links");
+    // A source without a (decodable) audio track keeps its silence.
+    original = await decodeAudioTrack(source);
+  }
+
+  const result: VideoCandidate[] = [];
+  for (const [index, candidate] of candidates.entries()) {
+    const response = await fetch(candidate.url, { signal });
+    if (!response.ok) throw new Error(`Could not fetch the output (${response.status})`);
+    const video = await response.blob();
+    // Muting an output that has no sound needs no re-encode.
+    if (policy === 'mute' && !(await decodeAudioTrack(video))) {
+      result.push(candidate);
+      continue;
+    }
+    const { blob } = await transcodeVideo(video, {
+      audio: original,
+      audioOffsetSeconds: offsetSeconds,
+      signal,
+      onProgress: (fraction) => onProgress?.(index, fraction),
+    });
+    result.push({ ...candidate, url: URL.createObjectURL(blob) });
+  }
+  return result;
+};
@@ -0,0 +1,21 @@
+import { MediaBackend } from "../types";
+import { applyAudioPolicy } from "./audio";
+import { captureFrameAt } from "./keyframes";
+import { concatVideos, loadVideo } from "./videoProcessing";
+
+// The restoration stages' video work done in the browser: <video> for decoding,
+// canvas and MediaRecorder for encoding.
+export const browserMedia: MediaBackend = {
+  captureLastFrame: async (clip, signal) => {
+    const url = URL.createObjectURL(clip);
+    try {
+      const video = await loadVideo(url, signal);
+      // Seeking exactly to the end yields no frame in some browsers.
+      return await captureFrameAt(video, Math.max(0, video.duration - 0.05), signal);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  },
+  concatVideos: async (clips, options) => (await concatVideos(clips, options)).blob,
+  applyAudioPolicy,
+};
@@ -0,0 +1,107 @@
+// Spending budget for the current browser session or calendar day. Spend is kept
+// in its own ledger rather than summed from job history, so deleting jobs doesn't
+// free up budget.
+
+const BUDGET_KEY = 'soracleaner.budget';
+const LEDGER_KEY = 'soracleaner.spendLedger';
+const SESSION_KEY = 'soracleaner.sessionStartedAt';
+
+export type BudgetPeriod = 'session' | 'day';
+
+export interface BudgetSettings {
+  // No limit when null.
+  limit: number | null;
+  period: BudgetPeriod;
+}
+
+interface LedgerEntry {
+  jobId: string;
+  at: number;
+  amount: number;
+}
+
+export const DEFAULT_BUDGET: BudgetSettings = { limit: null, period: 'session' };
+
+// Ledger entries older than this are dropped; no period looks further back.
+const LEDGER_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+export const loadBudget = (): BudgetSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(BUDGET_KEY) || 'null');
+    if (!parsed) return DEFAULT_BUDGET;
+    return {
+      limit: typeof parsed.limit === 'number' && parsed.limit > 0 ? parsed.limit : null,
+      period: parsed.period === 'day' ? 'day' : 'session',
+    };
+  } catch {
+    return DEFAULT_BUDGET;
+  }
+};
+
+export const saveBudget = (settings: BudgetSettings) => {
+  try {
+    localStorage.setItem(BUDGET_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save budget", e);
+  }
+};
+
+// A "session" lasts as long as the tab's sessionStorage does.
+const sessionStartedAt = (): number => {
+  try {
+    const stored = Number(sessionStorage.getItem(SESSION_KEY));
+    if (stored > 0) return stored;
+    const now = Date.now();
+    sessionStorage.setItem(SESSION_KEY, String(now));
+    return now;
+  } catch {
+    return 0;
+  }
+};
+
+const loadLedger = (): LedgerEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEDGER_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const recordSpend = (jobId: string, amount: number, now: number = Date.now()) => {
+  if (amount <= 0) return;
+  const ledger = loadLedger().filter((entry) => now - entry.at < LEDGER_RETENTION_MS);
+  ledger.push({ jobId, at: now, amount });
+  try {
+    localStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+  } catch (e) {
+    console.warn("Could not record spend", e);
+  }
+};
+
+const periodStart = (period: BudgetPeriod, now: number): number => {
+  if (period === 'session') return sessionStartedAt();
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+export const spentInPeriod = (period: BudgetPeriod, now: number = Date.now()): number => {
+  const since = periodStart(period, now);
+  return loadLedger().reduce((sum, entry) => (entry.at >= since ? sum + entry.amount : sum), 0);
+};
+
+export interface BudgetCheck {
+  allowed: boolean;
+  spent: number;
+  // Remaining budget, or null without a limit.
+  remaining: number | null;
+}
+
+// A run is blocked if its estimate would take spend past the limit.
+export const checkBudget = (settings: BudgetSettings, estimate: number, now: number = Date.now()): BudgetCheck => {
+  const spent = spentInPeriod(settings.period, now);
+  if (settings.limit === null) return { allowed: true, spent, remaining: null };
+  const remaining = Math.max(0, settings.limit - spent);
+  return { allowed: estimate <= remaining + 1e-9, spent, remaining };
+};
@@ -0,0 +1,183 @@
+import { ErrorKind } from "../types";
+
+// Typed errors for model calls. Every failure that reaches the UI is classified
+// into one of these kinds, which decides whether it is retried automatically and
+// which recovery action the error panel offers.
+
+export class GenerationError extends Error {
+  constructor(
+    public readonly kind: ErrorKind,
+    message: string,
+    // HTTP status from the proxy/upstream, when there was one.
+    public readonly status?: number,
+    // Server-suggested wait before retrying (quota errors).
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+}
+
+export class AuthError extends GenerationError {
+  constructor(message: string, status?: number) {
+    super('auth', message, status);
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends GenerationError {
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super('quota', message, status, retryAfterMs);
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyError extends GenerationError {
+  constructor(message: string, status?: number) {
+    super('safety', message, status);
+    this.name = 'SafetyError';
+  }
+}
+
+export class InvalidInputError extends GenerationError {
+  constructor(message: string, status?: number) {
+    super('invalid_input', message, status);
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class TimeoutError extends GenerationError {
+  constructor(message: string, status?: number) {
+    super('timeout', message, status);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class UpstreamError extends GenerationError {
+  constructor(message: string, status?: number) {
+    super('upstream', message, status);
+    this.name = 'UpstreamError';
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(message: string) {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+export const createGenerationError = (
+  kind: ErrorKind,
+  message: string,
+  status?: number,
+  retryAfterMs?: number
+): GenerationError => {
+  switch (kind) {
+    case 'auth': return new AuthError(message, status);
+    case 'quota': return new QuotaError(message, status, retryAfterMs);
+    case 'safety': return new SafetyError(message, status);
+    case 'invalid_input': return new InvalidInputError(message, status);
+    case 'timeout': return new TimeoutError(message, status);
+    case 'upstream': return new UpstreamError(message, status);
+    case 'network': return new NetworkError(message);
+    default: return new GenerationError('unknown', message, status);
+  }
+};
+
+// e.g. `"retryDelay": "30s"` in Google API error details, or "retry in 12.5s".
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay"?:\s*"|\s+in\s+|\s+after\s+)(\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+// Infers the kind from an HTTP status and the message text. The message checks
+// cover errors that arrive without a useful status (e.g. finished Veo operations).
+export const kindFromStatus = (status: number | undefined, message: string): ErrorKind => {
+  const text = message.toLowerCase();
+  if (status === 401 || status === 403 || /api key|permission denied|unauthenticated|requested entity was not found/.test(text)) {
+    return 'auth';
+  }
+  if (status === 429 || /quota|rate limit|resource_exhausted|resource exhausted/.test(text)) return 'quota';
+  if (/safety|blocked|responsible ai|prohibited/.test(text)) return 'safety';
+  if (status === 408 || status === 504 || /timed out|deadline/.test(text)) return 'timeout';
+  if (status !== undefined && status >= 500) return 'upstream';
+  if (status === 400 || status === 413 || status === 415 || status === 422 || /invalid_argument|invalid argument/.test(text)) {
+    return 'invalid_input';
+  }
+  return 'unknown';
+};
+
+// Normalizes anything thrown by a provider into a GenerationError. Abort errors
+// are passed through untouched so cancellation keeps working.
+export const classifyError = (error: unknown): GenerationError | Error => {
+  if (error instanceof GenerationError) return error;
+  const e = error as { name?: string; message?: string; status?: number } | null;
+  if (e?.name === 'AbortError') return error as Error;
+  const message = e?.message || String(error) || "Unknown error occurred";
+  // fetch() rejects with a TypeError when the proxy is unreachable.
+  if (e?.name === 'TypeError' && /fetch|network|load failed/i.test(message)) {
+    return new NetworkError("Could not reach the local API server. Is `npm run server` running?");
+  }
+  const status = typeof e?.status === 'number' ? e.status : undefined;
+  const kind = kindFromStatus(status, message);
+  return createGenerationError(kind, message, status, kind === 'quota' ? parseRetryDelay(message) : undefined);
+};
+
+export const errorKindOf = (error: unknown): ErrorKind => {
+  const classified = classifyError(error);
+  return classified instanceof GenerationError ? classified.kind : 'unknown';
+};
+
+export interface RetryPolicy {
+  // Automatic attempts after the first failure.
+  retries: number;
+  baseDelayMs: number;
+  // Multiplier applied to the delay after every retry.
+  backoffFactor: number;
+}
+
+const NO_RETRY: RetryPolicy = { retries: 0, baseDelayMs: 0, backoffFactor: 1 };
+
+// Auth, safety and input errors won't fix themselves; timeouts already spent
+// their whole budget.
+export const RETRY_POLICIES: Record<ErrorKind, RetryPolicy> = {
+  auth: NO_RETRY,
+  quota: { retries: 2, baseDelayMs: 30_000, backoffFactor: 2 },
+  safety: NO_RETRY,
+  invalid_input: NO_RETRY,
+  timeout: NO_RETRY,
+  upstream: { retries: 3, baseDelayMs: 2_000, backoffFactor: 2 },
+  network: { retries: 2, baseDelayMs: 1_000, backoffFactor: 2 },
+  unknown: NO_RETRY,
+};
+
+export type RecoveryAction = 'check_key' | 'retry_later' | 'edit_prompt' | 'edit_input' | 'keep_waiting' | 'retry';
+
+export const RECOVERY_ACTIONS: Record<ErrorKind, RecoveryAction> = {
+  auth: 'check_key',
+  quota: 'retry_later',
+  safety: 'edit_prompt',
+  invalid_input: 'edit_input',
+  timeout: 'keep_waiting',
+  upstream: 'retry',
+  network: 'retry',
+  unknown: 'retry',
+};
+
+export const ERROR_TITLES: Record<ErrorKind, string> = {
+  auth: 'API key rejected',
+  quota: 'Rate limit or quota reached',
+  safety: 'Blocked by safety filters',
+  invalid_input: 'Invalid input',
+  timeout: 'Generation timed out',
+  upstream: 'Model service error',
+  network: 'Server unreachable',
+  unknown: 'Processing failed',
+};
+
+// Delay before the given automatic retry (1-based), honouring a server hint.
+export const retryDelayMs = (error: GenerationError, attempt: number): number => {
+  const policy = RETRY_POLICIES[error.kind];
+  return error.retryAfterMs ?? policy.baseDelayMs * policy.backoffFactor ** (attempt - 1);
+};
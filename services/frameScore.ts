@@ -0,0 +1,53 @@
+import { Keyframe } from "../types";
+
+// Frame quality scores for seed frame selection, from raw RGBA pixels, so any
+// decoder can feed them (canvas in the browser, ffmpeg in the CLI).
+
+// Scoring runs on a small grayscale copy; enough to tell blur and exposure apart.
+export const SCORE_WIDTH = 160;
+
+// Mean luminance outside this band reads as a (near) black or blown-out frame.
+const DARK_LUMA = 40;
+const BRIGHT_LUMA = 215;
+// Laplacian variance below this reads as blurry at SCORE_WIDTH.
+const BLURRY_SHARPNESS = 60;
+
+// Sharpness is the variance of a 4-neighbour Laplacian; exposure is mean luminance.
+export const scoreFrame = (pixels: Uint8ClampedArray, width: number, height: number) => {
+  const luma = new Float32Array(width * height);
+  let sum = 0;
+  for (let i = 0; i < luma.length; i++) {
+    const y = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+    luma[i] = y;
+    sum += y;
+  }
+  const brightness = sum / luma.length;
+
+  let lapSum = 0;
+  let lapSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+      lapSum += lap;
+      lapSq += lap * lap;
+      n++;
+    }
+  }
+  const sharpness = n ? lapSq / n - (lapSum / n) ** 2 : 0;
+
+  // Exposure is 1 at mid-grey and falls to 0 at black/white; sharpness saturates.
+  const exposure = Math.max(0, 1 - Math.abs(brightness - 128) / 128);
+  const score = exposure * Math.min(1, sharpness / (BLURRY_SHARPNESS * 4));
+
+  const flags: Keyframe['flags'] = [];
+  if (brightness < DARK_LUMA) flags.push('dark');
+  if (brightness > BRIGHT_LUMA) flags.push('bright');
+  if (sharpness < BLURRY_SHARPNESS) flags.push('blurry');
+
+  return { sharpness, brightness, score, flags };
+};
+
+export const pickBestKeyframe = (keyframes: Keyframe[]): Keyframe | undefined =>
+  keyframes.reduce<Keyframe | undefined>((best, k) => (!best || k.score > best.score ? k : best), undefined);
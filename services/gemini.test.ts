@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeVideoContent, cleanFrame, generateCleanVideo } from './gemini';
+import { setProvider } from './providers';
+import { AuthError, SafetyError, QuotaError } from './errors';
+import { loadPendingOperation } from './operationStore';
+import { clearResultCache } from './resultCache';
+import { TraceSpan } from '../types';
+import { Fixture, replay } from '../test/replay';
+import analyze from '../test/fixtures/proxy/analyze.json';
+import analyzeAuthError from '../test/fixtures/proxy/analyze-auth-error.json';
+import analyzeUpstreamError from '../test/fixtures/proxy/analyze-upstream-error.json';
+import frame from '../test/fixtures/proxy/frame.json';
+import frameEmptyImages from '../test/fixtures/proxy/frame-empty-images.json';
+import videosPendingDone from '../test/fixtures/proxy/videos-pending-pending-done.json';
+import videosOperationError from '../test/fixtures/proxy/videos-operation-error.json';
+
+// Client entry points against recorded proxy responses. Fake timers skip the
+// retry and polling delays.
+
+const OPERATION = 'models/veo-3.1-fast-generate-preview/operations/op-fixture-1';
+
+const use = (...fixtures: Fixture[]) => {
+  const proxy = replay(...fixtures);
+  vi.stubGlobal('fetch', proxy.fetch);
+  return proxy;
+};
+
+const realSetTimeout = globalThis.setTimeout;
+
+// Settles a promise while running the timers it waits on. Some of its work (hashing
+// for the result cache) completes outside the fake clock, so timers are run until
+// the promise has settled.
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  let settled = false;
+  const outcome = promise.then((value) => ({ value }), (error) => ({ error })).finally(() => { settled = true; });
+  while (!settled) {
+    await vi.runAllTimersAsync();
+    if (!settled) await new Promise((resolve) => realSetTimeout(resolve, 1));
+  }
+  const result = await outcome as { value?: T; error?: unknown };
+  if ('error' in result) throw result.error;
+  return result.value as T;
+};
+
+beforeEach(async () => {
+  await clearResultCache();
+  vi.useFakeTimers();
+  setProvider(null);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('analyzeVideoContent', () => {
+  it('returns the description from the proxy', async () => {
+    const proxy = use(analyze);
+    await expect(settle(analyzeVideoContent('AAAA', 'video/mp4'))).resolves.toMatch(/golden retriever/);
+    expect(proxy.requests[0].body).toEqual({ videoBase64: 'AAAA', mimeType: 'video/mp4' });
+  });
+
+  it('fails with an AuthError without retrying', async () => {
+    const proxy = use(analyzeAuthError);
+    await expect(settle(analyzeVideoContent('AAAA', 'video/mp4'))).rejects.toBeInstanceOf(AuthError);
+    expect(proxy.requests).toHaveLength(1);
+  });
+
+  it('retries upstream failures and reports each retry', async () => {
+    const proxy = use(analyzeUpstreamError, analyzeUpstreamError, analyze);
+    const onRetry = vi.fn();
+    await expect(settle(analyzeVideoContent('AAAA', 'video/mp4', { onRetry }))).resolves.toMatch(/golden retriever/);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(proxy.pending()).toHaveLength(0);
+  });
+});
+
+describe('result cache', () => {
+  it('answers a repeated analysis locally and records the hit', async () => {
+    const proxy = use(analyze);
+    const spans: TraceSpan[] = [];
+    const trace = { onSpan: (span: TraceSpan) => spans.push(span) };
+    const first = await settle(analyzeVideoContent('AAAA', 'video/mp4', { trace }));
+    const second = await settle(analyzeVideoContent('AAAA', 'video/mp4', { trace }));
+
+    expect(second).toBe(first);
+    expect(proxy.requests).toHaveLength(1);
+    expect(spans.map((span) => span.cache)).toEqual(['miss', 'hit']);
+  });
+
+  it('keys frames on their bytes and aspect ratio', async () => {
+    const proxy = use(frame, frame, frame);
+    await settle(cleanFrame('AAAA', 'image/png', { aspectRatio: '16:9' }));
+    await settle(cleanFrame('AAAA', 'image/png', { aspectRatio: '16:9' }));
+    await settle(cleanFrame('AAAA', 'image/png', { aspectRatio: '9:16' }));
+    await settle(cleanFrame('AAAB', 'image/png', { aspectRatio: '16:9' }));
+    expect(proxy.requests).toHaveLength(3);
+  });
+
+  it('does not cache failures', async () => {
+    const proxy = use(analyzeAuthError, analyze);
+    await settle(analyzeVideoContent('AAAA', 'video/mp4')).catch(() => {});
+    await expect(settle(analyzeVideoContent('AAAA', 'video/mp4'))).resolves.toMatch(/golden retriever/);
+    expect(proxy.pending()).toHaveLength(0);
+  });
+});
+
+describe('cleanFrame', () => {
+  it('sends the aspect ratio and returns the regenerated frame', async () => {
+    const proxy = use(frame);
+    await expect(settle(cleanFrame('AAAA', 'image/png', { aspectRatio: '9:16' })))
+      .resolves.toBe(frame.exchanges[0].response.body.imageBase64);
+    expect(proxy.requests[0].body).toEqual({ imageBase64: 'AAAA', mimeType: 'image/png', aspectRatio: '9:16' });
+  });
+
+  it('surfaces empty generatedImages as a SafetyError', async () => {
+    const proxy = use(frameEmptyImages);
+    const error = await settle(cleanFrame('AAAA')).catch((e) => e);
+    expect(error).toBeInstanceOf(SafetyError);
+    expect(error.message).toBe("Keyframe was blocked by safety filters");
+    expect(proxy.requests).toHaveLength(1);
+  });
+});
+
+describe('generateCleanVideo', () => {
+  it('polls a pending operation until done', async () => {
+    const proxy = use(videosPendingDone);
+    const onOperationStarted = vi.fn();
+    const onPoll = vi.fn();
+    const candidates = await settle(generateCleanVideo('AAAA', 'A dog on a beach', { onOperationStarted, onPoll }));
+
+    expect(candidates).toEqual([{
+      id: `${OPERATION}#0`,
+      url: videosPendingDone.exchanges.at(-1)!.response.body.videos![0].url,
+      expirationTime: undefined,
+    }]);
+    expect(onOperationStarted).toHaveBeenCalledWith(OPERATION);
+    expect(onPoll).toHaveBeenCalledTimes(3);
+    expect(proxy.pending()).toHaveLength(0);
+    expect(loadPendingOperation()).toBeNull();
+  });
+
+  it('fails with the operation error kind and does not start another generation', async () => {
+    const proxy = use(videosOperationError);
+    const error = await settle(generateCleanVideo('AAAA', 'A dog on a beach')).catch((e) => e);
+    expect(error).toBeInstanceOf(QuotaError);
+    expect(error.message).toBe("Quota exceeded for video generation.");
+    expect(proxy.requests.filter((r) => r.method === 'POST')).toHaveLength(1);
+    expect(loadPendingOperation()).toBeNull();
+  });
+});
@@ -1,164 +1,171 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { VeoResponse } from "../types";
-
-// Helper to ensure API key is selected
-const getAiClient = async (): Promise<GoogleGenAI> => {
-  if ((window as any).aistudio) {
-    const hasKey = await (window as any).aistudio.hasSelectedApiKey();
-    if (!hasKey) {
-      await (window as any).aistudio.openSelectKey();
+import { FrameOptions, GenerateVideoOptions, RequestOptions, SegmentRange, VideoCandidate } from "../types";
+import { getProvider } from "./providers";
+import { clearPendingOperation, savePendingOperation } from "./operationStore";
+import { isAbortError } from "./polling";
+import { withRetry } from "./retry";
+import { GenerationError, classifyError } from "./errors";
+import { SpanDetails, base64Bytes, traced } from "./tracing";
+import { ANALYSIS_MODEL, FRAME_IMAGE_MODEL } from "./models";
+import { ANALYZE_FRAMES_PROMPT, ANALYZE_VIDEO_PROMPT, DESCRIBE_FRAME_PROMPT, FRAME_IMAGE_PROMPT_SUFFIX } from "./modelPrompts";
+import { getResultCacheStore, resultCacheKey } from "./resultCache";
+import { DEFAULT_VEO_CONFIG } from "./veoConfig";
+
+// Entry points used by the UI. Each call is routed to the active provider
+// (Gemini/Imagen/Veo by default, or the offline mock) — see ./providers.
+// Failures are thrown as typed GenerationErrors after the kind's retry policy;
+// with `options.trace`, each attempt is recorded as a span. Analysis and keyframe
+// results are reused from the local result cache (see ./resultCache).
+
+// Answers from the result cache when the same request succeeded before, and caches
+// fresh results. A cache that can't be read or written never fails the call.
+const cached = async (
+  details: SpanDetails,
+  parts: string[],
+  inputsBase64: string[],
+  call: () => Promise<string>
+): Promise<string> => {
+  const store = getResultCacheStore();
+  if (!store) return call();
+  let key: string | undefined;
+  try {
+    key = await resultCacheKey([getProvider().id, ...parts], inputsBase64);
+    const hit = await store.read(key);
+    if (hit !== undefined) {
+      details.cache = 'hit';
+      return hit;
+    }
+  } catch (e) {
+    console.warn("Result cache unavailable", e);
+  }
+  details.cache = 'miss';
+  const result = await call();
+  if (key) {
+    try {
+      await store.write(key, result);
+    } catch (e) {
+      console.warn("Could not cache result", e);
     }
   }
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return result;
 };
 
-export const analyzeVideoContent = async (
+export const analyzeVideoContent = (
   videoBase64: string,
-  mimeType: string
-): Promise<string> => {
-  const ai = await getAiClient();
-  
-  // Use Gemini 2.5 Flash for fast multimodal analysis
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-latest', // Using latest flash for analysis
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            data: videoBase64,
-            mimeType: mimeType,
-          },
-        },
-        {
-          text: "Describe the visual content, subject, movement, and camera angle of this video in high detail. Focus on the main action and scene description. Do not mention any watermarks or text overlays in the description.",
-        },
-      ],
-    },
-  });
-
-  return response.text || "A cinematic video scene.";
-};
-
-export const cleanFrame = async (
+  mimeType: string,
+  options: RequestOptions = {}
+): Promise<string> => withRetry(traced(
+  'analyzeVideo',
+  { model: ANALYSIS_MODEL, requestBytes: base64Bytes(videoBase64) },
+  options,
+  (details) => cached(details, ['analyzeVideo', ANALYSIS_MODEL, ANALYZE_VIDEO_PROMPT, mimeType], [videoBase64],
+    () => getProvider().analyzeVideo(videoBase64, mimeType, options))
+), options);
+
+export const analyzeFrameSequence = (
+  framesBase64: string[],
+  mimeType: string,
+  options: RequestOptions = {}
+): Promise<string> => withRetry(traced(
+  'analyzeFrames',
+  { model: ANALYSIS_MODEL, requestBytes: framesBase64.reduce((sum, frame) => sum + base64Bytes(frame), 0) },
+  options,
+  (details) => cached(details, ['analyzeFrames', ANALYSIS_MODEL, ANALYZE_FRAMES_PROMPT, mimeType], framesBase64,
+    () => getProvider().analyzeFrames(framesBase64, mimeType, options))
+), options);
+
+export const describeVideoSegments = (
+  analysis: string,
+  ranges: SegmentRange[],
+  options: RequestOptions = {}
+): Promise<string[]> => withRetry(traced(
+  'describeSegments',
+  { model: ANALYSIS_MODEL, requestBytes: new TextEncoder().encode(analysis).length },
+  options,
+  () => getProvider().describeSegments(analysis, ranges, options)
+), options);
+
+export const cleanFrame = (
   imageBase64: string,
-  mimeType: string = 'image/png'
-): Promise<string> => {
-  const ai = await getAiClient();
-
-  // Use Gemini 2.5 Flash Image for editing/inpainting logic (simulated by regenerating the frame clean)
-  // We ask it to output a clean version of the image.
-  // Note: True inpainting is complex, here we ask the model to generate a description or we try to use the image editing capability if available.
-  // Ideally we would use an inpainting model. Since we are using Veo, we can actually pass the noisy image to Veo with a prompt to "Ignore watermark".
-  // However, cleaning the first frame dramatically improves stability.
-  
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            data: imageBase64,
-            mimeType: mimeType,
-          },
-        },
-        {
-          text: "Remove the 'Sora' or 'Sora 2' watermark and any text overlays from this image. Output only the visual data of the cleaned image.",
-        },
-      ],
-    },
-    // We try to get the image back. In many cases, generateContent with image model might return text.
-    // If it returns text, we will fallback to using the dirty image with a strong prompt.
-    // BUT, let's try to see if we can get an image back if we ask nicely or use generateImages if appropriate (Imagen).
-    // Let's stick to a safer path: Analyze the image, get a prompt, then use Imagen to re-generate the first frame CLEAN.
-  });
-  
-  // Check if we got an image back (not guaranteed with standard generateContent unless specific edit mode)
-  // For the sake of this application's reliability with available APIs:
-  // We will use Imagen 3 (via gemini-3-pro-image-preview or similar) to RE-GENERATE the first frame based on the description of the dirty frame.
-  
-  // 1. Describe dirty frame
-  const descriptionResponse = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-latest',
-    contents: {
-      parts: [
-        { inlineData: { data: imageBase64, mimeType } },
-        { text: "Describe this image in extreme detail for reconstruction. Ignore any text or watermarks like 'Sora'." }
-      ]
-    }
-  });
-  const prompt = descriptionResponse.text || "A clean video frame";
-
-  // 2. Generate clean frame using Imagen
-  const imagenResponse = await ai.models.generateImages({
-    model: 'imagen-4.0-generate-001',
-    prompt: prompt + " high quality, photorealistic, no text, no watermarks, clear 8k.",
-    config: {
-        numberOfImages: 1,
-        aspectRatio: '16:9', // Assuming 16:9 for most video
-        outputMimeType: 'image/png'
-    }
-  });
-
-  return imagenResponse.generatedImages[0].image.imageBytes;
+  mimeType: string = 'image/png',
+  options: FrameOptions = {}
+): Promise<string> => withRetry(traced(
+  'synthesizeFrame',
+  // The proxy describes the frame, then renders the description with Imagen.
+  { model: [ANALYSIS_MODEL, FRAME_IMAGE_MODEL].join(' + '), requestBytes: base64Bytes(imageBase64) },
+  options,
+  (details) => cached(details, [
+    'synthesizeFrame',
+    ANALYSIS_MODEL,
+    DESCRIBE_FRAME_PROMPT,
+    FRAME_IMAGE_MODEL,
+    options.style?.modifier || FRAME_IMAGE_PROMPT_SUFFIX,
+    options.style?.negativePrompt || '',
+    mimeType,
+    options.aspectRatio ?? DEFAULT_VEO_CONFIG.aspectRatio,
+  ], [imageBase64], () => getProvider().synthesizeFrame(imageBase64, mimeType, options))
+), options);
+
+// Forgets the persisted operation once it has finished or failed. Aborted polls keep
+// it, so an unmount or reload can still resume; so do timeouts, since the operation
+// may still finish upstream. Explicit cancels clear it themselves.
+const settleOperation = async (run: Promise<VideoCandidate[]>): Promise<VideoCandidate[]> => {
+  try {
+    const candidates = await run;
+    clearPendingOperation();
+    return candidates;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    const classified = classifyError(error);
+    if (!(classified instanceof GenerationError && classified.kind === 'timeout')) clearPendingOperation();
+    throw classified;
+  }
 };
 
-export const generateCleanVideo = async (
-  startFrameBase64: string,
+// Without a start frame (Create mode from a prompt alone) the video is text-to-video.
+export const generateCleanVideo = (
+  startFrameBase64: string | undefined,
   prompt: string,
-  onProgress?: (msg: string) => void
-): Promise<string | null> => {
-  const ai = await getAiClient();
-
-  if (onProgress) onProgress("Initializing generation model...");
-
-  try {
-    // We use the cleaned start frame and the video description to generate a new video
-    // This effectively "removes" the watermark by hallucinating the rest of the video from the clean start.
-    let operation = await ai.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview', // Fast for better UX
-      prompt: prompt + " cinematic, high quality, consistent motion.",
-      image: {
-        imageBytes: startFrameBase64,
-        mimeType: 'image/png',
+  options: GenerateVideoOptions = {}
+): Promise<VideoCandidate[]> => {
+  const provider = getProvider();
+  // Only the request that starts the operation is retried; once Veo has accepted
+  // it, a retry would start (and bill) a second generation.
+  let started = false;
+  return settleOperation(withRetry(traced(
+    'generateVideo',
+    { model: (options.config || DEFAULT_VEO_CONFIG).model, requestBytes: startFrameBase64 ? base64Bytes(startFrameBase64) : 0 },
+    options,
+    (details) => provider.generateVideo(startFrameBase64, prompt, {
+      ...options,
+      onOperationStarted: (name) => {
+        started = true;
+        details.operationName = name;
+        savePendingOperation({ name, provider: provider.id, startedAt: Date.now(), jobId: options.jobId, segment: options.segment });
+        options.onOperationStarted?.(name);
       },
-      config: {
-        numberOfVideos: 1,
-        resolution: '720p',
-        aspectRatio: '16:9',
+      onPoll: (attempt) => {
+        details.pollCount = attempt;
+        options.onPoll?.(attempt);
       },
-    });
-
-    if (onProgress) onProgress("Video generation started. This may take a moment...");
-
-    // Polling loop
-    while (!operation.done) {
-      if (onProgress) onProgress("Rendering video frames...");
-      await new Promise((resolve) => setTimeout(resolve, 5000)); // Poll every 5s
-      operation = await ai.operations.getVideosOperation({ operation });
-    }
-
-    if (operation.error) {
-        throw new Error(operation.error.message || "Video generation failed");
-    }
-
-    const videoUri = (operation.response as VeoResponse)?.generatedVideos?.[0]?.video?.uri;
-    
-    if (!videoUri) {
-      throw new Error("No video URI returned");
-    }
-
-    // Append API Key for download
-    return `${videoUri}&key=${process.env.API_KEY}`;
+    })
+  ), { ...options, canRetry: () => !started }));
+};
 
-  } catch (error: any) {
-    console.error("Veo Error:", error);
-    if (error.message?.includes("Requested entity was not found")) {
-         if ((window as any).aistudio) {
-             await (window as any).aistudio.openSelectKey();
-             // Retry once? Ideally prompt user. For now, throw.
-             throw new Error("API Key session expired. Please try again.");
-         }
-    }
-    throw error;
+export const resumeCleanVideo = (
+  operationName: string,
+  options: GenerateVideoOptions = {}
+): Promise<VideoCandidate[]> => settleOperation(traced(
+  'resumeVideo',
+  { model: (options.config || DEFAULT_VEO_CONFIG).model, requestBytes: 0 },
+  options,
+  (details) => {
+    details.operationName = operationName;
+    return getProvider().resumeVideo(operationName, {
+      ...options,
+      onPoll: (attempt) => {
+        details.pollCount = attempt;
+        options.onPoll?.(attempt);
+      },
+    });
   }
-};
+)());
@@ -0,0 +1,141 @@
+// Animated GIF encoding for exports. Frames are mapped onto a fixed 6x7x6 colour
+// cube with ordered dithering (no per-clip palette search, so each frame is encoded
+// as it is added) and LZW-compressed.
+
+const LEVELS = [6, 7, 6];
+
+// 4x4 Bayer matrix, thresholds 0-15.
+const BAYER = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+// Global colour table: the 252 cube colours, padded to 256 entries.
+export const GIF_PALETTE: Uint8Array = (() => {
+  const palette = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < LEVELS[0]; r++) {
+    for (let g = 0; g < LEVELS[1]; g++) {
+      for (let b = 0; b < LEVELS[2]; b++) {
+        palette[i++] = Math.round((r * 255) / (LEVELS[0] - 1));
+        palette[i++] = Math.round((g * 255) / (LEVELS[1] - 1));
+        palette[i++] = Math.round((b * 255) / (LEVELS[2] - 1));
+      }
+    }
+  }
+  return palette;
+})();
+
+const quantize = (rgba: Uint8ClampedArray, width: number, height: number, dither: boolean): Uint8Array => {
+  const indices = new Uint8Array(width * height);
+  const level = (value: number, levels: number, offset: number) =>
+    Math.max(0, Math.min(levels - 1, Math.round((value / 255) * (levels - 1) + offset)));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      // Offset of up to half a step either way, so flat gradients don't band.
+      const offset = dither ? (BAYER[(y & 3) * 4 + (x & 3)] + 0.5) / 16 - 0.5 : 0;
+      indices[p] =
+        level(rgba[p * 4], LEVELS[0], offset) * LEVELS[1] * LEVELS[2] +
+        level(rgba[p * 4 + 1], LEVELS[1], offset) * LEVELS[2] +
+        level(rgba[p * 4 + 2], LEVELS[2], offset);
+    }
+  }
+  return indices;
+};
+
+// Variable-length LZW as GIF uses it, 8-bit symbols, codes up to 12 bits.
+const lzwEncode = (indices: Uint8Array): Uint8Array => {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const out: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      // The decoder widens its codes one entry behind the encoder.
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) out.push(bits & 0xff);
+  return Uint8Array.from(out);
+};
+
+// Image data goes out in sub-blocks of at most 255 bytes, ended by an empty one.
+const toSubBlocks = (data: Uint8Array): Uint8Array => {
+  const blocks = new Uint8Array(data.length + Math.ceil(data.length / 255) + 1);
+  let offset = 0;
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    blocks[offset++] = block.length;
+    blocks.set(block, offset);
+    offset += block.length;
+  }
+  blocks[offset] = 0;
+  return blocks;
+};
+
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+export interface GifEncoder {
+  // RGBA pixels of a width x height frame, e.g. from getImageData.
+  addFrame: (rgba: Uint8ClampedArray, delayMs: number) => void;
+  finish: () => Blob;
+}
+
+// Looping animated GIF of frames that all share the given size.
+export const createGifEncoder = (width: number, height: number, { dither = true }: { dither?: boolean } = {}): GifEncoder => {
+  const parts: Uint8Array[] = [
+    new TextEncoder().encode('GIF89a'),
+    // Logical screen: global colour table of 256 entries, 8 bits per channel.
+    Uint8Array.from([...uint16(width), ...uint16(height), 0xf7, 0, 0]),
+    GIF_PALETTE,
+    // NETSCAPE2.0 extension: loop forever.
+    Uint8Array.from([0x21, 0xff, 0x0b, ...new TextEncoder().encode('NETSCAPE2.0'), 0x03, 0x01, 0, 0, 0]),
+  ];
+
+  return {
+    addFrame: (rgba, delayMs) => {
+      // Browsers treat delays under 2 centiseconds as 10.
+      const delay = Math.max(2, Math.round(delayMs / 10));
+      parts.push(
+        // Graphic control: leave the frame in place, no transparency.
+        Uint8Array.from([0x21, 0xf9, 0x04, 0x04, ...uint16(delay), 0, 0]),
+        Uint8Array.from([0x2c, 0, 0, 0, 0, ...uint16(width), ...uint16(height), 0]),
+        Uint8Array.from([8]),
+        toSubBlocks(lzwEncode(quantize(rgba, width, height, dither)))
+      );
+    },
+    finish: () => new Blob([...parts, Uint8Array.from([0x3b])], { type: 'image/gif' }),
+  };
+};
@@ -0,0 +1,260 @@
+import { CreationInput, IngestedVideo, ValidationIssue, VideoData, VideoValidationReport } from "../types";
+import { postJson } from "./apiClient";
+import { throwIfAborted } from "./polling";
+import { VideoCodec, findMp4VideoCodec, findWebmVideoCodec, listMp4Boxes, sniffVideoContainer } from "./videoContainer";
+import { VideoMetadata, probeVideo, transcodeVideo } from "./videoProcessing";
+import { inspectSourceProvenance } from "./sourceProvenance";
+
+// Input handling for uploads and imported links: checks container, codec, duration
+// and resolution, and normalizes oversize inputs in the browser before analysis.
+
+export const UPLOAD_LIMITS = {
+  // Larger files are refused outright; reading them would exhaust tab memory.
+  maxFileBytes: 500 * 1024 * 1024,
+  // Analysis sends the video inline, which the API caps at about 20MB per request.
+  maxAnalysisBytes: 20 * 1024 * 1024,
+  minDurationSeconds: 1,
+  maxDurationSeconds: 120,
+  // Longer edges are downscaled to normalizedLongEdge for analysis.
+  maxLongEdge: 1920,
+  normalizedLongEdge: 1280,
+  minShortEdge: 240,
+};
+
+// Codecs the analysis model can read directly; anything else is re-encoded.
+const ANALYSIS_CODECS: VideoCodec[] = ['h264', 'hevc', 'vp8', 'vp9', 'av1', 'mpeg4'];
+
+const CODEC_LABELS: Record<VideoCodec, string> = {
+  h264: 'H.264',
+  hevc: 'HEVC',
+  vp8: 'VP8',
+  vp9: 'VP9',
+  av1: 'AV1',
+  mpeg4: 'MPEG-4',
+  prores: 'ProRes',
+  mjpeg: 'Motion JPEG',
+};
+
+// Upper bound for a 'moov' box we are willing to read while looking for the codec.
+const MAX_MOOV_BYTES = 32 * 1024 * 1024;
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<Uint8Array> =>
+  new Uint8Array(await blob.slice(start, end).arrayBuffer());
+
+// 'moov' may sit at either end of the file.
+const readMp4Moov = async (file: Blob): Promise<Uint8Array | null> => {
+  const moov = (await listMp4Boxes(file)).find((box) => box.type === 'moov');
+  return moov && moov.size <= MAX_MOOV_BYTES ? readBytes(file, moov.offset, moov.offset + moov.size) : null;
+};
+
+const detectCodec = async (file: Blob, container: string): Promise<VideoCodec | null> => {
+  if (container === 'video/webm') return findWebmVideoCodec(await readBytes(file, 0, 1024 * 1024));
+  const moov = await readMp4Moov(file);
+  return moov ? findMp4VideoCodec(moov) : null;
+};
+
+const issue = (
+  severity: ValidationIssue['severity'],
+  code: ValidationIssue['code'],
+  message: string
+): ValidationIssue => ({ severity, code, message });
+
+const verdictFor = (issues: ValidationIssue[], needsNormalizing: boolean): VideoValidationReport['verdict'] =>
+  issues.some((i) => i.severity === 'error') ? 'reject' : needsNormalizing ? 'normalize' : 'ok';
+
+// Checks a file without modifying it. Errors reject it; warnings describe what
+// normalization will change.
+export const validateVideoFile = async (file: File, signal?: AbortSignal): Promise<VideoValidationReport> => {
+  const report: VideoValidationReport = {
+    fileName: file.name,
+    size: file.size,
+    container: null,
+    codec: null,
+    issues: [],
+    verdict: 'ok',
+  };
+  const { issues } = report;
+
+  if (file.size > UPLOAD_LIMITS.maxFileBytes) {
+    issues.push(issue('error', 'file_too_large',
+      `File is ${formatMb(file.size)}; the limit is ${formatMb(UPLOAD_LIMITS.maxFileBytes)}.`));
+    report.verdict = 'reject';
+    return report;
+  }
+
+  report.container = sniffVideoContainer(await readBytes(file, 0, 64));
+  if (!report.container) {
+    issues.push(issue('error', 'unsupported_container',
+      "This doesn't look like an MP4, MOV or WebM video."));
+    report.verdict = 'reject';
+    return report;
+  }
+  throwIfAborted(signal);
+
+  const codec = await detectCodec(file, report.container);
+  report.codec = codec;
+  const codecLabel = codec ? CODEC_LABELS[codec] : 'unknown';
+  let needsNormalizing = false;
+  if (!codec) {
+    issues.push(issue('warning', 'unknown_codec', "Could not identify the video codec; analysis may fail."));
+  } else if (!ANALYSIS_CODECS.includes(codec)) {
+    issues.push(issue('warning', 'unsupported_codec', `${codecLabel} is not accepted for analysis and will be re-encoded.`));
+    needsNormalizing = true;
+  }
+
+  let metadata: VideoMetadata;
+  try {
+    metadata = await probeVideo(file, signal);
+  } catch (error) {
+    throwIfAborted(signal);
+    issues.push(issue('error', 'undecodable',
+      `Your browser can't decode this ${codecLabel === 'unknown' ? '' : `${codecLabel} `}video. Convert it to H.264 MP4 and try again.`));
+    report.verdict = 'reject';
+    return report;
+  }
+  report.durationSeconds = metadata.durationSeconds;
+  report.width = metadata.width;
+  report.height = metadata.height;
+
+  if (Number.isFinite(metadata.durationSeconds)) {
+    if (metadata.durationSeconds < UPLOAD_LIMITS.minDurationSeconds) {
+      issues.push(issue('error', 'too_short',
+        `Video is ${metadata.durationSeconds.toFixed(1)}s; at least ${UPLOAD_LIMITS.minDurationSeconds}s is needed.`));
+    } else if (metadata.durationSeconds > UPLOAD_LIMITS.maxDurationSeconds) {
+      issues.push(issue('warning', 'too_long',
+        `Video is ${Math.round(metadata.durationSeconds)}s; only the first ${UPLOAD_LIMITS.maxDurationSeconds}s will be analyzed.`));
+      needsNormalizing = true;
+    }
+  }
+
+  const longEdge = Math.max(metadata.width, metadata.height);
+  const shortEdge = Math.min(metadata.width, metadata.height);
+  if (longEdge > UPLOAD_LIMITS.maxLongEdge) {
+    issues.push(issue('warning', 'resolution_too_high',
+      `${metadata.width}×${metadata.height} will be downscaled to ${UPLOAD_LIMITS.normalizedLongEdge}px for analysis.`));
+    needsNormalizing = true;
+  } else if (shortEdge > 0 && shortEdge < UPLOAD_LIMITS.minShortEdge) {
+    issues.push(issue('warning', 'resolution_too_low',
+      `${metadata.width}×${metadata.height} is very low resolution; the reconstructed frame may be soft.`));
+  }
+
+  if (file.size > UPLOAD_LIMITS.maxAnalysisBytes) {
+    issues.push(issue('warning', 'file_too_large',
+      `${formatMb(file.size)} is over the ${formatMb(UPLOAD_LIMITS.maxAnalysisBytes)} analysis limit and will be re-encoded.`));
+    needsNormalizing = true;
+  }
+
+  if (needsNormalizing) {
+    issues.push(issue('info', 'audio_dropped', "The analysis copy has no audio track; the original is kept for preview."));
+  }
+
+  report.verdict = verdictFor(issues, needsNormalizing);
+  return report;
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export interface PrepareOptions {
+  signal?: AbortSignal;
+  // Original link, for imported videos.
+  sourceUrl?: string;
+  onProgress?: (message: string, fraction?: number) => void;
+}
+
+export interface PreparedVideo {
+  report: VideoValidationReport;
+  // Absent when the report rejected the file.
+  data?: VideoData;
+}
+
+// Validates a file and, when needed, trims/downscales/re-encodes an analysis copy.
+// The original stays the preview, so the keyframe is captured at full quality.
+export const prepareVideoFile = async (
+  file: File,
+  { signal, sourceUrl, onProgress }: PrepareOptions = {}
+): Promise<PreparedVideo> => {
+  onProgress?.("Checking video...");
+  const report = await validateVideoFile(file, signal);
+  if (report.verdict === 'reject') return { report };
+  // Read from the original file; normalizing would drop its metadata.
+  const provenance = await inspectSourceProvenance(file);
+
+  let analysisBlob: Blob = file;
+  let mimeType = report.container || file.type;
+  if (report.verdict === 'normalize') {
+    const duration = Math.min(report.durationSeconds || UPLOAD_LIMITS.maxDurationSeconds, UPLOAD_LIMITS.maxDurationSeconds);
+    // Leave headroom under the inline limit for container overhead.
+    const videoBitsPerSecond = Math.min(4_000_000, Math.floor((UPLOAD_LIMITS.maxAnalysisBytes * 8 * 0.85) / duration));
+    const result = await transcodeVideo(file, {
+      maxDurationSeconds: UPLOAD_LIMITS.maxDurationSeconds,
+      maxLongEdge: UPLOAD_LIMITS.normalizedLongEdge,
+      videoBitsPerSecond,
+      signal,
+      onProgress: (fraction) => onProgress?.("Optimizing video for analysis...", fraction),
+    });
+    if (result.blob.size > UPLOAD_LIMITS.maxAnalysisBytes) {
+      report.issues.push(issue('error', 'file_too_large',
+        `Still ${formatMb(result.blob.size)} after re-encoding; trim the video and try again.`));
+      report.verdict = 'reject';
+      return { report };
+    }
+    analysisBlob = result.blob;
+    mimeType = result.mimeType;
+    report.normalized = {
+      size: result.blob.size,
+      mimeType: result.mimeType,
+      durationSeconds: result.durationSeconds,
+      width: result.width,
+      height: result.height,
+    };
+  }
+
+  throwIfAborted(signal);
+  return {
+    report,
+    data: {
+      file,
+      url: sourceUrl || null,
+      previewUrl: URL.createObjectURL(file),
+      base64Data: await blobToBase64(analysisBlob),
+      mimeType,
+      validation: report,
+      provenance,
+    },
+  };
+};
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Downloads a pasted link through the proxy, which enforces its own size, type and
+// redirect limits. The result goes through prepareVideoFile like an upload.
+export const downloadVideoFromUrl = async (url: string, signal?: AbortSignal): Promise<File> => {
+  const video = await postJson<IngestedVideo>('/ingest', { url }, signal);
+  return new File([base64ToBlob(video.base64Data, video.mimeType)], video.name, { type: video.mimeType });
+};
+
+// Stills Veo accepts as the start frame of a Create mode clip.
+export const START_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Reads Create mode's optional start image. It is sent inline with the generation
+// request, so the analysis size limit applies.
+export const readStartImage = async (file: File): Promise<Omit<CreationInput, 'prompt'>> => {
+  if (!START_IMAGE_TYPES.includes(file.type)) throw new Error("Use a PNG, JPEG or WebP image");
+  if (file.size > UPLOAD_LIMITS.maxAnalysisBytes) {
+    throw new Error(`This image is ${formatMb(file.size)}; start images can be up to ${formatMb(UPLOAD_LIMITS.maxAnalysisBytes)}.`);
+  }
+  return { imageBase64: await blobToBase64(file), imageMimeType: file.type, imageName: file.name };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { runQueue } from './jobQueue';
+import { isAbortError } from './polling';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('runQueue', () => {
+  it('keeps at most `concurrency` workers in flight, in item order', async () => {
+    let running = 0;
+    let peak = 0;
+    const started: number[] = [];
+    const results = await runQueue([1, 2, 3, 4, 5], async (item) => {
+      started.push(item);
+      peak = Math.max(peak, ++running);
+      await tick();
+      running--;
+      return item * 10;
+    }, { concurrency: 2 });
+
+    expect(peak).toBe(2);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    expect(results.map((result) => result.status === 'fulfilled' && result.value)).toEqual([10, 20, 30, 40, 50]);
+  });
+
+  it('settles a failed item without stopping the rest', async () => {
+    const results = await runQueue(['a', 'b', 'c'], async (item) => {
+      if (item === 'b') throw new Error('b failed');
+      return item;
+    }, { concurrency: 1 });
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('b failed');
+  });
+
+  it('skips items not yet started once aborted', async () => {
+    const controller = new AbortController();
+    const started: string[] = [];
+    const results = await runQueue(['a', 'b', 'c'], async (item) => {
+      started.push(item);
+      controller.abort();
+      return item;
+    }, { concurrency: 1, signal: controller.signal });
+
+    expect(started).toEqual(['a']);
+    expect(results[0].status).toBe('fulfilled');
+    expect(results.slice(1).every((result) => result.status === 'rejected' && isAbortError(result.reason))).toBe(true);
+  });
+});
@@ -0,0 +1,38 @@
+import { createAbortError } from "./polling";
+
+// Bounded-concurrency queue for batch runs: at most `concurrency` workers are in
+// flight, started in item order. One item failing doesn't stop the others.
+
+export interface QueueOptions {
+  concurrency: number;
+  // Items not yet started when this aborts are settled as aborted.
+  signal?: AbortSignal;
+}
+
+export const runQueue = async <T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  { concurrency, signal }: QueueOptions
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const drain = async () => {
+    while (next < items.length) {
+      const index = next++;
+      if (signal?.aborted) {
+        results[index] = { status: 'rejected', reason: createAbortError() };
+        continue;
+      }
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  await Promise.all(Array.from({ length: lanes }, drain));
+  return results;
+};
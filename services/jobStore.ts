@@ -0,0 +1,105 @@
+import { JobRecord, StoredCandidate } from "../types";
+
+// Local job history backed by IndexedDB. Records carry their output blobs, so a
+// job stays playable after its remote Veo URI has expired.
+
+const DB_NAME = 'soracleaner';
+const DB_VERSION = 1;
+const JOBS_STORE = 'jobs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(JOBS_STORE)) {
+          const store = db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return requestToPromise(run(db.transaction(JOBS_STORE, mode).objectStore(JOBS_STORE)));
+};
+
+export const createJobId = (): string =>
+  `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const putJob = async (job: JobRecord): Promise<void> => {
+  await withStore('readwrite', (store) => store.put({ ...job, updatedAt: Date.now() }));
+};
+
+export const getJob = (id: string): Promise<JobRecord | undefined> =>
+  withStore('readonly', (store) => store.get(id) as IDBRequest<JobRecord | undefined>);
+
+// Newest first.
+export const listJobs = async (): Promise<JobRecord[]> => {
+  const jobs = await withStore('readonly', (store) => store.getAll() as IDBRequest<JobRecord[]>);
+  return jobs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteJob = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
+
+// Read-modify-write of a single job; no-op if it was deleted meanwhile.
+export const updateJob = async (
+  id: string,
+  patch: Partial<JobRecord> | ((job: JobRecord) => Partial<JobRecord>)
+): Promise<JobRecord | undefined> => {
+  const job = await getJob(id);
+  if (!job) return undefined;
+  const next = { ...job, ...(typeof patch === 'function' ? patch(job) : patch) };
+  await putJob(next);
+  return next;
+};
+
+// Downloads every candidate that has no local copy yet. Failures are left for a
+// later attempt (e.g. the "Save locally" action) rather than failing the job.
+export const downloadCandidateBlobs = async (candidates: StoredCandidate[]): Promise<StoredCandidate[]> =>
+  Promise.all(
+    candidates.map(async (candidate) => {
+      if (candidate.blob) return candidate;
+      try {
+        const response = await fetch(candidate.url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return { ...candidate, blob: await response.blob() };
+      } catch (e) {
+        console.warn(`Could not store output ${candidate.id} locally`, e);
+        return candidate;
+      }
+    })
+  );
+
+// Warn this long before a remote-only output expires.
+export const EXPIRY_WARNING_MS = 60 * 60 * 1000;
+
+// Candidates that only exist remotely and whose URI expires soon (or already has).
+export const expiringCandidates = (job: JobRecord, now: number = Date.now()): StoredCandidate[] =>
+  job.candidates.filter((candidate) => {
+    if (candidate.blob || !candidate.expirationTime) return false;
+    const expiresAt = Date.parse(candidate.expirationTime);
+    return Number.isFinite(expiresAt) && expiresAt - now < EXPIRY_WARNING_MS;
+  });
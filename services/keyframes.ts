@@ -0,0 +1,87 @@
+import { Keyframe } from "../types";
+import { createAbortError, throwIfAborted } from "./polling";
+import { loadVideo } from "./videoProcessing";
+import { SCORE_WIDTH, scoreFrame } from "./frameScore";
+
+// Seed frame selection: samples frames across the timeline and scores them so a
+// black fade-in or a motion-blurred frame 0 isn't used as the Veo start image.
+
+export interface SampleOptions {
+  count?: number;
+  // Longer edge of each sample's image; also what multi-frame analysis sends.
+  maxLongEdge?: number;
+  signal?: AbortSignal;
+  onSample?: (keyframe: Keyframe, index: number) => void;
+}
+
+export const seekTo = (video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    if (Math.abs(video.currentTime - time) < 0.001 && video.readyState >= 2) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      video.removeEventListener('seeked', onSeeked);
+      reject(createAbortError());
+    };
+    const onSeeked = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    video.addEventListener('seeked', onSeeked, { once: true });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    video.currentTime = time;
+  });
+
+const drawScaled = (video: HTMLVideoElement, maxLongEdge?: number): HTMLCanvasElement => {
+  const scale = maxLongEdge ? Math.min(1, maxLongEdge / Math.max(video.videoWidth, video.videoHeight)) : 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const measure = (video: HTMLVideoElement) => {
+  const canvas = drawScaled(video, SCORE_WIDTH);
+  const ctx = canvas.getContext('2d')!;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return scoreFrame(data, canvas.width, canvas.height);
+};
+
+// Samples `count` frames spread evenly across the clip (not the very first or last
+// frame, which are often fades). Samples are reported as they are taken.
+export const sampleKeyframes = async (
+  sourceUrl: string,
+  { count = 8, maxLongEdge = 768, signal, onSample }: SampleOptions = {}
+): Promise<Keyframe[]> => {
+  const video = await loadVideo(sourceUrl, signal);
+  try {
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    const times = duration > 0
+      ? Array.from({ length: count }, (_, i) => (duration * (i + 0.5)) / count)
+      : [0];
+
+    const keyframes: Keyframe[] = [];
+    for (const time of times) {
+      await seekTo(video, time, signal);
+      const image = drawScaled(video, maxLongEdge).toDataURL('image/jpeg', 0.85);
+      const keyframe: Keyframe = { time, imageBase64: image.split(',')[1], ...measure(video) };
+      keyframes.push(keyframe);
+      onSample?.(keyframe, keyframes.length - 1);
+    }
+    return keyframes;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+// Full-resolution PNG of the frame at `time`, for use as the seed frame.
+export const captureFrameAt = async (video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<string> => {
+  await seekTo(video, time, signal);
+  return drawScaled(video).toDataURL('image/png').split(',')[1];
+};
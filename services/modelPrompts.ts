@@ -0,0 +1,15 @@
+// Instructions sent with the analysis and keyframe calls. Shared by the proxy (which
+// sends them) and the result cache (which keys on them, so editing one stops
+// earlier results from being reused).
+
+export const ANALYZE_VIDEO_PROMPT =
+  "Describe the visual content, subject, movement, and camera angle of this video in high detail. Focus on the main action and scene description. Do not mention any watermarks or text overlays in the description.";
+
+export const ANALYZE_FRAMES_PROMPT =
+  "These images are frames sampled in order from one video. Describe the visual content, subject, movement, and camera angle of the video in high detail, inferring the motion between frames. Focus on the main action and scene description. Do not mention any watermarks or text overlays in the description.";
+
+export const DESCRIBE_FRAME_PROMPT =
+  "Describe this image in extreme detail for reconstruction. Ignore any text or watermarks like 'Sora'.";
+
+// Appended to the frame description for Imagen.
+export const FRAME_IMAGE_PROMPT_SUFFIX = " high quality, photorealistic, no text, no watermarks, clear 8k.";
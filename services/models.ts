@@ -0,0 +1,5 @@
+// Model ids for the non-Veo calls. Shared by the proxy (which makes the calls)
+// and the cost estimator (which prices them).
+
+export const ANALYSIS_MODEL = 'gemini-2.5-flash-latest';
+export const FRAME_IMAGE_MODEL = 'imagen-4.0-generate-001';
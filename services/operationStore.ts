@@ -0,0 +1,43 @@
+import { ProviderId } from "../types";
+
+// Remembers the in-flight video generation so a reloaded tab can resume polling
+// the same operation instead of paying for a new generation.
+
+const STORAGE_KEY = 'soracleaner.pendingOperation';
+
+export interface PendingOperation {
+  name: string;
+  provider: ProviderId;
+  startedAt: number;
+  jobId?: string;
+  segment?: { index: number; count: number };
+}
+
+export const savePendingOperation = (operation: PendingOperation) => {
+  // Headless runs (cli/) have no storage and nothing to resume into.
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(operation));
+  } catch (e) {
+    console.warn("Could not persist pending operation", e);
+  }
+};
+
+export const loadPendingOperation = (): PendingOperation | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    return typeof parsed?.name === 'string' ? (parsed as PendingOperation) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearPendingOperation = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable; nothing to clear.
+  }
+};
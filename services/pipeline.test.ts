@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { PipelineError, PipelineStage, runPipeline } from './pipeline';
+
+interface Ctx {
+  plan?: string[];
+  result?: string;
+}
+
+const stage = (overrides: Partial<PipelineStage<Ctx>>): PipelineStage<Ctx> => ({
+  id: 'plan',
+  label: 'Plan',
+  message: 'Planning...',
+  inputs: [],
+  outputs: [],
+  weight: 1,
+  retryable: true,
+  run: async () => ({}),
+  ...overrides,
+});
+
+describe('runPipeline', () => {
+  it('accepts optional outputs whether or not a stage writes them', async () => {
+    const planned = stage({ optionalOutputs: ['plan'], run: async () => ({ plan: ['a', 'b'] }) });
+    expect(await runPipeline([planned], {})).toEqual({ plan: ['a', 'b'] });
+    expect(await runPipeline([stage({ optionalOutputs: ['plan'] })], {})).toEqual({});
+  });
+
+  it('fails a stage that writes outputs it does not declare', async () => {
+    const sneaky = stage({ outputs: ['result'], run: async () => ({ result: 'done', plan: ['a'] }) });
+    const error = await runPipeline([sneaky], {}).catch((e) => e);
+    expect(error).toBeInstanceOf(PipelineError);
+    expect(error.message).toBe("Stage 'plan' wrote undeclared outputs: plan");
+  });
+});
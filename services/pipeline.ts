@@ -0,0 +1,161 @@
+import { ProcessingState } from "../types";
+import { isAbortError, throwIfAborted } from "./polling";
+import { GenerationError, classifyError } from "./errors";
+
+// Minimal declarative pipeline runtime. Stages declare what they read and write
+// on a shared context object, and how much they contribute to overall progress;
+// the engine runs them in order and reports typed events that drive the UI.
+
+export interface StageHelpers {
+  // Reports an in-stage status message and, optionally, completion within the stage (0..1).
+  report: (message: string, fraction?: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface PipelineStage<Ctx> {
+  id: string;
+  // Short label used for the progress checklist.
+  label: string;
+  // Status message shown when the stage starts.
+  message: string;
+  inputs: (keyof Ctx)[];
+  outputs: (keyof Ctx)[];
+  // Written only in some runs (e.g. by a stage that does nothing for short sources);
+  // declared like outputs, but not required.
+  optionalOutputs?: (keyof Ctx)[];
+  // Relative share of overall progress.
+  weight: number;
+  // Whether the stage can be re-run from the context it failed with.
+  retryable: boolean;
+  run: (ctx: Ctx, helpers: StageHelpers) => Promise<Partial<Ctx>>;
+}
+
+export type PipelineEvent =
+  | { type: 'stage-start'; stageId: string; message: string; progress: number }
+  | { type: 'stage-progress'; stageId: string; message: string; progress: number }
+  | { type: 'stage-complete'; stageId: string; progress: number }
+  | { type: 'stage-error'; stageId: string; error: Error; retryable: boolean }
+  | { type: 'pipeline-complete' }
+  | { type: 'pipeline-cancelled'; stageId: string };
+
+export interface RunPipelineOptions {
+  onEvent?: (event: PipelineEvent) => void;
+  // Resume from this stage (e.g. after a retryable failure), skipping earlier ones.
+  startAt?: string;
+  // Aborts the running stage; the pipeline then rejects with an AbortError.
+  signal?: AbortSignal;
+}
+
+export class PipelineError extends Error {
+  constructor(
+    public readonly stageId: string,
+    public readonly retryable: boolean,
+    // Context as it was before the failing stage ran, so it can be retried.
+    public readonly context: unknown,
+    public readonly cause: Error
+  ) {
+    super(cause.message);
+    this.name = 'PipelineError';
+  }
+}
+
+const hasValue = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+export const runPipeline = async <Ctx extends object>(
+  stages: PipelineStage<Ctx>[],
+  initialContext: Ctx,
+  { onEvent, startAt, signal }: RunPipelineOptions = {}
+): Promise<Ctx> => {
+  const totalWeight = stages.reduce((sum, stage) => sum + stage.weight, 0) || 1;
+  const toPercent = (weight: number) => Math.round((weight / totalWeight) * 100);
+  const emit = (event: PipelineEvent) => onEvent?.(event);
+
+  const startIndex = startAt ? stages.findIndex((stage) => stage.id === startAt) : 0;
+  if (startIndex < 0) throw new Error(`Unknown pipeline stage '${startAt}'`);
+
+  let ctx = { ...initialContext };
+  let completedWeight = stages.slice(0, startIndex).reduce((sum, stage) => sum + stage.weight, 0);
+
+  for (const stage of stages.slice(startIndex)) {
+    const stageBase = completedWeight;
+    emit({ type: 'stage-start', stageId: stage.id, message: stage.message, progress: toPercent(stageBase) });
+
+    try {
+      throwIfAborted(signal);
+      const missing = stage.inputs.filter((key) => !hasValue(ctx[key]));
+      if (missing.length) {
+        throw new Error(`Stage '${stage.id}' is missing inputs: ${missing.join(', ')}`);
+      }
+
+      const output = await stage.run(ctx, {
+        signal,
+        report: (message, fraction) => {
+          const within = fraction === undefined ? 0 : Math.min(Math.max(fraction, 0), 1);
+          emit({
+            type: 'stage-progress',
+            stageId: stage.id,
+            message,
+            progress: toPercent(stageBase + stage.weight * within),
+          });
+        },
+      });
+
+      const absent = stage.outputs.filter((key) => !hasValue(output[key]));
+      if (absent.length) {
+        throw new Error(`Stage '${stage.id}' did not produce: ${absent.join(', ')}`);
+      }
+      const declared = [...stage.outputs, ...(stage.optionalOutputs || [])];
+      const undeclared = (Object.keys(output) as (keyof Ctx)[]).filter((key) => !declared.includes(key));
+      if (undeclared.length) {
+        throw new Error(`Stage '${stage.id}' wrote undeclared outputs: ${undeclared.join(', ')}`);
+      }
+      ctx = { ...ctx, ...output };
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        emit({ type: 'pipeline-cancelled', stageId: stage.id });
+        throw error;
+      }
+      const cause = error instanceof Error ? error : new Error(String(error));
+      emit({ type: 'stage-error', stageId: stage.id, error: cause, retryable: stage.retryable });
+      throw new PipelineError(stage.id, stage.retryable, ctx, cause);
+    }
+
+    completedWeight += stage.weight;
+    emit({ type: 'stage-complete', stageId: stage.id, progress: toPercent(completedWeight) });
+  }
+
+  emit({ type: 'pipeline-complete' });
+  return ctx;
+};
+
+// Folds a pipeline event into the UI-facing processing state.
+export const reduceProcessingState = (
+  state: ProcessingState,
+  event: PipelineEvent
+): ProcessingState => {
+  switch (event.type) {
+    case 'stage-start':
+      return { status: 'running', stageId: event.stageId, message: event.message, progress: event.progress };
+    case 'stage-progress':
+      return { ...state, message: event.message, progress: Math.max(state.progress, event.progress) };
+    case 'stage-complete':
+      return { ...state, progress: event.progress };
+    case 'stage-error': {
+      const error = classifyError(event.error);
+      return {
+        status: 'error',
+        stageId: event.stageId,
+        message: 'Processing failed',
+        progress: state.progress,
+        error: error.message || "Unknown error occurred",
+        retryable: event.retryable,
+        errorKind: error instanceof GenerationError ? error.kind : 'unknown',
+        retryAfterMs: error instanceof GenerationError ? error.retryAfterMs : undefined,
+      };
+    }
+    case 'pipeline-complete':
+      return { status: 'completed', message: 'Restoration complete!', progress: 100 };
+    case 'pipeline-cancelled':
+      return { status: 'idle', message: 'Processing cancelled.', progress: 0 };
+  }
+};
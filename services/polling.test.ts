@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { pollWithBackoff } from './polling';
+import { TimeoutError } from './errors';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('pollWithBackoff', () => {
+  it('backs off between polls when options are passed as undefined', async () => {
+    const polledAt: number[] = [];
+    const start = Date.now();
+    const done = pollWithBackoff(0, async (count) => {
+      polledAt.push(Date.now() - start);
+      return count + 1;
+    }, (count) => count >= 4, { timeoutMs: undefined, initialDelayMs: undefined });
+
+    await vi.advanceTimersByTimeAsync(2000 + 3000 + 4500 + 6750);
+    expect(await done).toBe(4);
+    expect(polledAt).toEqual([2000, 5000, 9500, 16250]);
+  });
+
+  it('fails with a TimeoutError once the deadline has passed', async () => {
+    const poll = vi.fn(async () => false);
+    const done = pollWithBackoff(false, poll, Boolean, { timeoutMs: 10_000 });
+    const outcome = expect(done).rejects.toBeInstanceOf(TimeoutError);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    await outcome;
+    // 2 s, 3 s and 4.5 s, then the last 0.5 s up to the deadline.
+    expect(poll).toHaveBeenCalledTimes(4);
+  });
+});
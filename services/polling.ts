@@ -0,0 +1,83 @@
+import { TimeoutError } from "./errors";
+
+// Abort-aware timing helpers for long-running operations.
+
+export interface PollingOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  // Multiplier applied to the delay after every poll.
+  backoffFactor: number;
+  // Overall budget for the operation; polling stops with a TimeoutError after it.
+  timeoutMs: number;
+}
+
+const envTimeout = Number(process.env.VEO_TIMEOUT_MS);
+
+export const DEFAULT_POLLING: PollingOptions = {
+  initialDelayMs: 2000,
+  maxDelayMs: 20000,
+  backoffFactor: 1.5,
+  timeoutMs: Number.isFinite(envTimeout) && envTimeout > 0 ? envTimeout : 10 * 60 * 1000,
+};
+
+export { TimeoutError };
+
+export const createAbortError = (): DOMException =>
+  new DOMException("The operation was cancelled.", 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Calls `poll` with exponentially growing delays until `isDone` holds,
+// the signal aborts, or the overall timeout elapses.
+export const pollWithBackoff = async <T>(
+  initial: T,
+  poll: (current: T) => Promise<T>,
+  isDone: (current: T) => boolean,
+  { signal, onPoll, ...overrides }: Partial<PollingOptions> & {
+    signal?: AbortSignal;
+    onPoll?: (attempt: number) => void;
+  } = {}
+): Promise<T> => {
+  // Callers pass options through as they got them; an undefined one keeps the default.
+  const given = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  const options: PollingOptions = { ...DEFAULT_POLLING, ...given };
+  const deadline = Date.now() + options.timeoutMs;
+  let delay = options.initialDelayMs;
+  let current = initial;
+  let attempt = 0;
+
+  while (!isDone(current)) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new TimeoutError(`Operation did not finish within ${Math.round(options.timeoutMs / 1000)}s`);
+    }
+    await sleep(Math.min(delay, remaining), signal);
+    attempt += 1;
+    onPoll?.(attempt);
+    current = await poll(current);
+    delay = Math.min(delay * options.backoffFactor, options.maxDelayMs);
+  }
+  return current;
+};
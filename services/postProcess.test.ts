@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { cropRect, exportFileName } from './postProcess';
+import { GIF_PALETTE, createGifEncoder } from './gifEncoder';
+import { muxAnimatedWebp } from './webpAnimation';
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+// Reads back the colour indices of every frame in a GIF with a global colour table.
+const decodeGifFrames = (gif: Uint8Array): number[][] => {
+  const lzwDecode = (data: number[], minCodeSize: number): number[] => {
+    const clearCode = 1 << minCodeSize;
+    let table: number[][] = [];
+    let codeSize = minCodeSize + 1;
+    let previous: number[] | null = null;
+    const out: number[] = [];
+    let bitPos = 0;
+    while (bitPos + codeSize <= data.length * 8) {
+      let code = 0;
+      for (let i = 0; i < codeSize; i++, bitPos++) code |= ((data[bitPos >> 3] >> (bitPos & 7)) & 1) << i;
+      if (code === clearCode) {
+        table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+        codeSize = minCodeSize + 1;
+        previous = null;
+        continue;
+      }
+      if (code === clearCode + 1) break;
+      const entry = code < table.length ? table[code] : [...previous!, previous![0]];
+      out.push(...entry);
+      if (previous) table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+      previous = entry;
+    }
+    return out;
+  };
+
+  const frames: number[][] = [];
+  let offset = 13 + 768;
+  while (gif[offset] !== 0x3b) {
+    if (gif[offset] === 0x21) {
+      offset += 2;
+      while (gif[offset]) offset += gif[offset] + 1;
+      offset++;
+    } else if (gif[offset] === 0x2c) {
+      const minCodeSize = gif[offset + 10];
+      offset += 11;
+      const data: number[] = [];
+      while (gif[offset]) {
+        data.push(...gif.subarray(offset + 1, offset + 1 + gif[offset]));
+        offset += gif[offset] + 1;
+      }
+      offset++;
+      frames.push(lzwDecode(data, minCodeSize));
+    } else {
+      throw new Error(`Unexpected block 0x${gif[offset].toString(16)}`);
+    }
+  }
+  return frames;
+};
+
+const rgba = (pixels: number[][]) => Uint8ClampedArray.from(pixels.flatMap(([r, g, b]) => [r, g, b, 255]));
+
+const paletteColor = (index: number) => Array.from(GIF_PALETTE.subarray(index * 3, index * 3 + 3));
+
+// Minimal still WebP: RIFF header plus one image chunk (odd-sized, so it is padded).
+const stillWebp = (id: 'VP8 ' | 'VP8L', payload: number[]) => {
+  const padded = payload.length + (payload.length & 1);
+  const bytes = new Uint8Array(12 + 8 + padded);
+  const view = new DataView(bytes.buffer);
+  bytes.set(new TextEncoder().encode('RIFF'), 0);
+  view.setUint32(4, bytes.length - 8, true);
+  bytes.set(new TextEncoder().encode('WEBP'), 8);
+  bytes.set(new TextEncoder().encode(id), 12);
+  view.setUint32(16, payload.length, true);
+  bytes.set(payload, 20);
+  return bytes;
+};
+
+describe('exportFileName', () => {
+  it('derives the name from the source file and job id', () => {
+    expect(exportFileName('Beach walk (final).mov', 'job-abc', 'gif')).toBe('Beach-walk-final-job-abc.gif');
+  });
+
+  it('uses the last part of a URL and falls back when nothing is left', () => {
+    expect(exportFileName('https://example.com/clips/sunset.mp4?token=x', 'job-1', 'mp4')).toBe('sunset-job-1.mp4');
+    expect(exportFileName('???', 'job-1', 'webm')).toBe('video-job-1.webm');
+  });
+});
+
+describe('cropRect', () => {
+  it('keeps the whole frame without an aspect ratio', () => {
+    expect(cropRect(1280, 720, null)).toEqual({ x: 0, y: 0, width: 1280, height: 720 });
+  });
+
+  it('cuts the sides of a wider frame, placed by position', () => {
+    expect(cropRect(1280, 720, '9:16')).toEqual({ x: 438, y: 0, width: 405, height: 720 });
+    expect(cropRect(1280, 720, '1:1', 0)).toEqual({ x: 0, y: 0, width: 720, height: 720 });
+    expect(cropRect(1280, 720, '1:1', 1)).toEqual({ x: 560, y: 0, width: 720, height: 720 });
+  });
+
+  it('cuts the top and bottom of a taller frame', () => {
+    expect(cropRect(720, 1280, '16:9')).toEqual({ x: 0, y: 438, width: 720, height: 405 });
+  });
+});
+
+describe('createGifEncoder', () => {
+  it('writes a looping GIF whose frames decode to the nearest palette colours', async () => {
+    const encoder = createGifEncoder(2, 2, { dither: false });
+    encoder.addFrame(rgba([[255, 0, 0], [0, 255, 0], [0, 0, 255], [255, 255, 255]]), 100);
+    encoder.addFrame(rgba([[0, 0, 0], [0, 0, 0], [0, 0, 0], [0, 0, 0]]), 100);
+    const gif = await bytesOf(encoder.finish());
+
+    expect(ascii(gif, 0, 6)).toBe('GIF89a');
+    expect(new DataView(gif.buffer).getUint16(6, true)).toBe(2);
+    expect(ascii(gif, 13 + 768 + 3, 13 + 768 + 14)).toBe('NETSCAPE2.0');
+    expect(gif[gif.length - 1]).toBe(0x3b);
+
+    const frames = decodeGifFrames(gif);
+    expect(frames.map((frame) => frame.map(paletteColor))).toEqual([
+      [[255, 0, 0], [0, 255, 0], [0, 0, 255], [255, 255, 255]],
+      [[0, 0, 0], [0, 0, 0], [0, 0, 0], [0, 0, 0]],
+    ]);
+  });
+
+  it('round-trips frames long enough to reset the LZW table', async () => {
+    const width = 128;
+    const height = 128;
+    const pixels = Array.from({ length: width * height }, (_, i) => [(i * 37) % 256, (i * 91) % 256, (i * 13) % 256]);
+    const encoder = createGifEncoder(width, height, { dither: false });
+    encoder.addFrame(rgba(pixels), 66);
+    const [frame] = decodeGifFrames(await bytesOf(encoder.finish()));
+
+    expect(frame).toHaveLength(width * height);
+    // Every pixel decodes to a colour within half a palette step of its source.
+    frame.forEach((index, i) => {
+      paletteColor(index).forEach((value, channel) => expect(Math.abs(value - pixels[i][channel])).toBeLessThanOrEqual(26));
+    });
+  });
+});
+
+describe('muxAnimatedWebp', () => {
+  it('wraps each still in an ANMF chunk behind VP8X and ANIM headers', async () => {
+    const webp = await bytesOf(muxAnimatedWebp([stillWebp('VP8 ', [1, 2, 3]), stillWebp('VP8L', [4, 5])], 320, 180, 100));
+    const view = new DataView(webp.buffer);
+
+    expect(ascii(webp, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(webp.length - 8);
+    expect(ascii(webp, 8, 12)).toBe('WEBP');
+
+    const chunks: { id: string; offset: number; size: number }[] = [];
+    for (let offset = 12; offset < webp.length;) {
+      const size = view.getUint32(offset + 4, true);
+      chunks.push({ id: ascii(webp, offset, offset + 4), offset, size });
+      offset += 8 + size + (size & 1);
+    }
+    expect(chunks.map((chunk) => chunk.id)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF']);
+
+    // Animation flag, plus alpha because one frame is lossless; canvas size minus one.
+    const vp8x = chunks[0].offset + 8;
+    expect(webp[vp8x] & 0x12).toBe(0x12);
+    expect(view.getUint16(vp8x + 4, true)).toBe(319);
+    expect(view.getUint16(vp8x + 7, true)).toBe(179);
+
+    const [first, second] = chunks.slice(2);
+    expect(view.getUint16(first.offset + 8 + 12, true)).toBe(100);
+    expect(ascii(webp, first.offset + 24, first.offset + 28)).toBe('VP8 ');
+    expect(Array.from(webp.subarray(first.offset + 32, first.offset + 35))).toEqual([1, 2, 3]);
+    expect(ascii(webp, second.offset + 24, second.offset + 28)).toBe('VP8L');
+  });
+
+  it('rejects frames that are not WebP', () => {
+    expect(() => muxAnimatedWebp([new Uint8Array(16)], 2, 2, 100)).toThrow("Frame is not a WebP image");
+  });
+});
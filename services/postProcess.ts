@@ -0,0 +1,217 @@
+import { AspectRatio, ExportFormat, ExportQuality, PostProcessEdits } from "../types";
+import { seekTo } from "./keyframes";
+import { createGifEncoder } from "./gifEncoder";
+import { muxAnimatedWebp } from "./webpAnimation";
+import { CropRect, TranscodeOptions, decodeAudioTrack, fadeShade, loadVideo, transcodeVideo } from "./videoProcessing";
+
+// Local post-processing of the picked output before download: trim, crop to another
+// aspect ratio, speed and fade. Videos are re-encoded through the canvas and
+// MediaRecorder in real time; animated images are drawn frame by frame from seeks.
+
+export const DEFAULT_EDITS: PostProcessEdits = {
+  trimStartSeconds: 0,
+  trimEndSeconds: null,
+  aspectRatio: null,
+  cropPosition: 0.5,
+  speed: 1,
+  fadeSeconds: 0,
+};
+
+export const SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+interface ExportFormatInfo {
+  label: string;
+  mimeType: string;
+  extension: string;
+  // MediaRecorder types for video formats, with and without an audio track.
+  recorderTypes?: { audio: string; silent: string };
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  mp4: {
+    label: 'MP4 (H.264)',
+    mimeType: 'video/mp4',
+    extension: 'mp4',
+    recorderTypes: { audio: 'video/mp4;codecs=avc1,mp4a.40.2', silent: 'video/mp4;codecs=avc1' },
+  },
+  webm: {
+    label: 'WebM (VP9)',
+    mimeType: 'video/webm',
+    extension: 'webm',
+    recorderTypes: { audio: 'video/webm;codecs=vp9,opus', silent: 'video/webm;codecs=vp9' },
+  },
+  gif: { label: 'Animated GIF', mimeType: 'image/gif', extension: 'gif' },
+  webp: { label: 'Animated WebP', mimeType: 'image/webp', extension: 'webp' },
+};
+
+interface QualityPreset {
+  label: string;
+  // Video formats: longer edge cap (none keeps the output's size) and bitrate.
+  maxLongEdge?: number;
+  videoBitsPerSecond: number;
+  // Animated images: longer edge, frame rate and WebP quality (0-1).
+  animatedLongEdge: number;
+  animatedFps: number;
+  webpQuality: number;
+}
+
+export const QUALITY_PRESETS: Record<ExportQuality, QualityPreset> = {
+  high: { label: 'High', videoBitsPerSecond: 8_000_000, animatedLongEdge: 640, animatedFps: 15, webpQuality: 0.9 },
+  balanced: { label: 'Balanced', maxLongEdge: 1280, videoBitsPerSecond: 4_000_000, animatedLongEdge: 480, animatedFps: 12, webpQuality: 0.8 },
+  small: { label: 'Small', maxLongEdge: 854, videoBitsPerSecond: 1_500_000, animatedLongEdge: 320, animatedFps: 10, webpQuality: 0.6 },
+};
+
+export const hasEdits = (edits: PostProcessEdits): boolean =>
+  edits.trimStartSeconds > 0 ||
+  edits.trimEndSeconds !== null ||
+  edits.aspectRatio !== null ||
+  edits.speed !== 1 ||
+  edits.fadeSeconds > 0;
+
+// Largest region of a width x height frame with the given aspect ratio, slid along
+// the edge it shortens by `position` (0 = left/top, 1 = right/bottom).
+export const cropRect = (width: number, height: number, aspectRatio: AspectRatio | null, position = 0.5): CropRect => {
+  if (!aspectRatio) return { x: 0, y: 0, width, height };
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const along = Math.max(0, Math.min(1, position));
+  if (width / height > w / h) {
+    const cropWidth = Math.round((height * w) / h);
+    return { x: Math.round((width - cropWidth) * along), y: 0, width: cropWidth, height };
+  }
+  const cropHeight = Math.round((width * h) / w);
+  return { x: 0, y: Math.round((height - cropHeight) * along), width, height: cropHeight };
+};
+
+// Download name: the source's file name (or the last part of its URL) without its
+// extension, made filesystem-safe, followed by the job id.
+export const exportFileName = (sourceName: string, jobId: string, extension: string): string => {
+  const base = (sourceName.split(/[?#]/)[0].split(/[\\/]/).pop() || '')
+    .replace(/\.[^.]+$/, '')
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+    .slice(0, 60);
+  return `${base || 'video'}-${jobId}.${extension}`;
+};
+
+export const extensionFor = (mimeType: string): string =>
+  Object.values(EXPORT_FORMATS).find((info) => info.mimeType === mimeType)?.extension ?? 'mp4';
+
+const canRecord = (type: string) => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type);
+
+const canEncodeWebp = () => {
+  try {
+    return document.createElement('canvas').toDataURL('image/webp').startsWith('data:image/webp');
+  } catch {
+    return false;
+  }
+};
+
+// Formats this browser can export to. GIF is encoded in script, so always works.
+export const supportedExportFormats = (): ExportFormat[] =>
+  (Object.keys(EXPORT_FORMATS) as ExportFormat[]).filter((format) => {
+    const { recorderTypes } = EXPORT_FORMATS[format];
+    if (recorderTypes) return canRecord(recorderTypes.silent);
+    return format === 'gif' || canEncodeWebp();
+  });
+
+const canvasToWebp = (canvas: HTMLCanvasElement, quality: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) reject(new Error("The browser could not encode a WebP frame"));
+      else blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/webp', quality);
+  });
+
+export interface PostProcessOptions {
+  edits: PostProcessEdits;
+  // Output format; by default the output's own kind of video, in the best type the
+  // browser records.
+  format?: ExportFormat;
+  quality: ExportQuality;
+  // Drawn over every frame after the edits, e.g. the disclosure badge.
+  overlay?: TranscodeOptions['overlay'];
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+const renderAnimation = async (
+  source: Blob,
+  format: 'gif' | 'webp',
+  { edits, quality, overlay, signal, onProgress }: PostProcessOptions
+): Promise<Blob> => {
+  const preset = QUALITY_PRESETS[quality];
+  const url = URL.createObjectURL(source);
+  let video: HTMLVideoElement | null = null;
+  try {
+    video = await loadVideo(url, signal);
+    const region = cropRect(video.videoWidth, video.videoHeight, edits.aspectRatio, edits.cropPosition);
+    const scale = Math.min(1, preset.animatedLongEdge / Math.max(region.width, region.height));
+    const width = Math.max(1, Math.round(region.width * scale));
+    const height = Math.max(1, Math.round(region.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+    const start = Math.min(edits.trimStartSeconds, video.duration);
+    const end = Math.min(video.duration, edits.trimEndSeconds ?? Infinity);
+    const outputSeconds = Math.max(0, end - start) / edits.speed;
+    const frameCount = Math.max(1, Math.round(outputSeconds * preset.animatedFps));
+    const fade = Math.min(edits.fadeSeconds, outputSeconds / 2);
+    const gif = format === 'gif' ? createGifEncoder(width, height) : null;
+    const stills: Uint8Array[] = [];
+
+    for (let i = 0; i < frameCount; i++) {
+      const elapsed = i / preset.animatedFps;
+      // Stay just short of the end, where some browsers have no frame to show.
+      await seekTo(video, Math.min(start + elapsed * edits.speed, Math.max(start, end - 0.001)), signal);
+      ctx.drawImage(video, region.x, region.y, region.width, region.height, 0, 0, width, height);
+      const shade = fadeShade(elapsed, outputSeconds, fade);
+      if (shade > 0) {
+        ctx.fillStyle = `rgba(0, 0, 0, ${shade})`;
+        ctx.fillRect(0, 0, width, height);
+      }
+      overlay?.(ctx, width, height);
+      if (gif) gif.addFrame(ctx.getImageData(0, 0, width, height).data, 1000 / preset.animatedFps);
+      else stills.push(await canvasToWebp(canvas, preset.webpQuality));
+      onProgress?.((i + 1) / frameCount);
+    }
+    return gif ? gif.finish() : muxAnimatedWebp(stills, width, height, 1000 / preset.animatedFps);
+  } finally {
+    video?.removeAttribute('src');
+    video?.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Applies the edits and encodes the result. Video formats keep the audio where the
+// browser can record it alongside; animated images are silent.
+export const postProcessVideo = async (source: Blob, options: PostProcessOptions): Promise<Blob> => {
+  const { edits, format, quality, overlay, signal, onProgress } = options;
+  if (format === 'gif' || format === 'webp') return renderAnimation(source, format, options);
+
+  const audio = await decodeAudioTrack(source);
+  let mimeType: string | undefined;
+  if (format) {
+    const { label, recorderTypes } = EXPORT_FORMATS[format];
+    mimeType = audio && canRecord(recorderTypes!.audio) ? recorderTypes!.audio : recorderTypes!.silent;
+    if (!canRecord(mimeType)) throw new Error(`This browser cannot record ${label}`);
+  }
+  const { blob } = await transcodeVideo(source, {
+    startSeconds: edits.trimStartSeconds,
+    maxDurationSeconds: edits.trimEndSeconds === null ? undefined : Math.max(0, edits.trimEndSeconds - edits.trimStartSeconds),
+    crop: (width, height) => cropRect(width, height, edits.aspectRatio, edits.cropPosition),
+    maxLongEdge: QUALITY_PRESETS[quality].maxLongEdge,
+    playbackRate: edits.speed,
+    fadeSeconds: edits.fadeSeconds,
+    mimeType,
+    videoBitsPerSecond: QUALITY_PRESETS[quality].videoBitsPerSecond,
+    overlay,
+    audio,
+    audioOffsetSeconds: edits.trimStartSeconds,
+    signal,
+    onProgress,
+  });
+  return blob;
+};
@@ -0,0 +1,122 @@
+import { CostEstimate, CostLine, Resolution, VeoConfig } from "../types";
+import { ANALYSIS_MODEL, FRAME_IMAGE_MODEL } from "./models";
+import pricingTable from "../config/pricing.json";
+
+// Cost estimates for a restoration run. Prices live in config/pricing.json so they
+// can be updated without touching code; token counts for Gemini calls are rough.
+
+export interface PricingTable {
+  currency: string;
+  updated?: string;
+  text: Record<string, { inputPerMillionTokens: number; outputPerMillionTokens: number }>;
+  image: Record<string, { perImage: number }>;
+  video: Record<string, { perSecond: Partial<Record<Resolution, number>> }>;
+  tokenEstimates: {
+    perVideoSecond: number;
+    perImage: number;
+    prompt: number;
+    output: number;
+  };
+}
+
+export const PRICING = pricingTable as PricingTable;
+
+// What the analysis stage will send: the whole clip, sampled frames, or one frame.
+export type AnalysisInput =
+  | { kind: 'video'; seconds: number }
+  | { kind: 'frames'; count: number }
+  | { kind: 'image' };
+
+export interface RunCostInput {
+  config: VeoConfig;
+  analysisInput: AnalysisInput;
+  // Stages before this one are skipped (e.g. a re-run that reuses the analysis).
+  startAt?: string;
+  // Consecutive segments generated for a long source, one video each (see services/segments.ts).
+  segmentCount?: number;
+}
+
+const STAGE_ORDER = ['analyze', 'review_prompt', 'plan_segments', 'clean_frame', 'generate', 'apply_audio'];
+
+const textLine = (
+  stageId: string,
+  label: string,
+  inputTokens: number,
+  table: PricingTable
+): CostLine => {
+  const price = table.text[ANALYSIS_MODEL];
+  const amount = price
+    ? (inputTokens * price.inputPerMillionTokens + table.tokenEstimates.output * price.outputPerMillionTokens) / 1_000_000
+    : 0;
+  return { stageId, label, model: ANALYSIS_MODEL, amount, priced: Boolean(price) };
+};
+
+const imageLine = (stageId: string, label: string, model: string, table: PricingTable): CostLine => {
+  const price = table.image[model];
+  return { stageId, label, model, amount: price?.perImage ?? 0, priced: Boolean(price) };
+};
+
+// Billable calls a single stage makes.
+export const estimateStageCosts = (
+  stageId: string,
+  { config, analysisInput, segmentCount = 1 }: RunCostInput,
+  table: PricingTable = PRICING
+): CostLine[] => {
+  const tokens = table.tokenEstimates;
+  switch (stageId) {
+    case 'analyze': {
+      const inputTokens = analysisInput.kind === 'video'
+        ? analysisInput.seconds * tokens.perVideoSecond
+        : (analysisInput.kind === 'frames' ? analysisInput.count : 1) * tokens.perImage;
+      return [textLine(stageId, 'Scene analysis', inputTokens + tokens.prompt, table)];
+    }
+    case 'plan_segments':
+      return segmentCount > 1 ? [textLine(stageId, 'Segment planning', tokens.prompt * 2, table)] : [];
+    case 'clean_frame':
+      return [
+        textLine(stageId, 'Frame description', tokens.perImage + tokens.prompt, table),
+        imageLine(stageId, 'Keyframe reconstruction', FRAME_IMAGE_MODEL, table),
+      ];
+    case 'generate': {
+      const perSecond = table.video[config.model]?.perSecond[config.resolution];
+      const videos = segmentCount > 1 ? segmentCount : config.numberOfVideos;
+      return [{
+        stageId,
+        label: segmentCount > 1
+          ? `Video generation (${segmentCount} segments × ${config.durationSeconds}s, ${config.resolution})`
+          : `Video generation (${config.numberOfVideos} × ${config.durationSeconds}s, ${config.resolution})`,
+        model: config.model,
+        amount: (perSecond ?? 0) * config.durationSeconds * videos,
+        priced: perSecond !== undefined,
+      }];
+    }
+    default:
+      return [];
+  }
+};
+
+export const toEstimate = (lines: CostLine[], currency: string = PRICING.currency): CostEstimate => ({
+  currency,
+  total: lines.reduce((sum, line) => sum + line.amount, 0),
+  lines,
+});
+
+export const estimateRunCost = (input: RunCostInput, table: PricingTable = PRICING): CostEstimate => {
+  const from = Math.max(0, STAGE_ORDER.indexOf(input.startAt || 'analyze'));
+  return toEstimate(
+    STAGE_ORDER.slice(from).flatMap((stageId) => estimateStageCosts(stageId, input, table)),
+    table.currency
+  );
+};
+
+// Adds newly incurred lines to a job's running usage.
+export const addUsage = (usage: CostEstimate | undefined, lines: CostLine[]): CostEstimate =>
+  toEstimate([...(usage?.lines || []), ...lines], usage?.currency);
+
+export const formatCost = (amount: number, currency: string = PRICING.currency): string =>
+  new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: amount > 0 && amount < 0.1 ? 3 : 2,
+  }).format(amount);
@@ -0,0 +1,134 @@
+import { PromptRecord, PromptTemplate } from "../types";
+
+const STORAGE_KEY = 'soracleaner.promptTemplates';
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+export const DEFAULT_TEMPLATE_ID = 'builtin-cinematic';
+
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Cinematic (default)',
+    body: '{analysis} {style}',
+    defaults: { style: 'cinematic, high quality, consistent motion.' },
+    builtIn: true,
+  },
+  {
+    id: 'builtin-camera',
+    name: 'Scene + camera direction',
+    body: '{analysis} Camera: {camera}. Style: {style}',
+    defaults: {
+      camera: 'steady tracking shot matching the original framing',
+      style: 'cinematic, high quality, consistent motion.',
+    },
+    builtIn: true,
+  },
+];
+
+// Create mode runs record the user's prompt as written; not offered in the editor.
+export const CREATION_TEMPLATE: PromptTemplate = {
+  id: 'create',
+  name: 'Written prompt',
+  body: '{prompt}',
+  defaults: {},
+};
+
+// Variables referenced by a template body, in order of first appearance.
+export const extractVariables = (body: string): string[] => {
+  const names: string[] = [];
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+// Unknown variables render as empty strings; whitespace left behind is collapsed.
+export const renderTemplate = (body: string, values: Record<string, string>): string =>
+  body
+    .replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const buildPromptRecord = (
+  template: PromptTemplate,
+  values: Record<string, string>
+): PromptRecord => {
+  const used: Record<string, string> = {};
+  for (const name of extractVariables(template.body)) used[name] = values[name] ?? '';
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    templateBody: template.body,
+    modified: false,
+    values: used,
+    prompt: renderTemplate(template.body, used),
+  };
+};
+
+const isTemplate = (value: any): value is PromptTemplate =>
+  value &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.body === 'string' &&
+  typeof value.defaults === 'object' &&
+  value.defaults !== null &&
+  Object.values(value.defaults).every((v) => typeof v === 'string');
+
+// User templates only; built-ins are always prepended by `loadTemplates`.
+export const loadTemplates = (): PromptTemplate[] => {
+  let saved: PromptTemplate[] = [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (Array.isArray(parsed)) saved = parsed.filter(isTemplate);
+  } catch (e) {
+    console.warn("Ignoring unreadable prompt templates", e);
+  }
+  return [...BUILTIN_TEMPLATES, ...saved.filter((t) => !t.builtIn)];
+};
+
+export const saveTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates.filter((t) => !t.builtIn)));
+};
+
+export const createTemplateId = (): string =>
+  `tpl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const exportTemplates = (templates: PromptTemplate[]): string =>
+  JSON.stringify(
+    {
+      version: 1,
+      templates: templates
+        .filter((t) => !t.builtIn)
+        .map(({ id, name, body, defaults }) => ({ id, name, body, defaults })),
+    },
+    null,
+    2
+  );
+
+// Accepts either the exported `{ version, templates }` document or a bare array.
+export const parseTemplateImport = (json: string): PromptTemplate[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Template file is not valid JSON");
+  }
+  const list = Array.isArray(parsed) ? parsed : parsed?.templates;
+  if (!Array.isArray(list)) throw new Error("Template file has no 'templates' list");
+
+  const templates = list.filter(isTemplate).map((t) => ({ ...t, builtIn: false }));
+  if (templates.length !== list.length) {
+    throw new Error(`${list.length - templates.length} template(s) are missing id, name, body or defaults`);
+  }
+  return templates;
+};
+
+// Imported templates replace saved ones with the same id.
+export const mergeTemplates = (existing: PromptTemplate[], incoming: PromptTemplate[]): PromptTemplate[] => {
+  const ids = new Set(incoming.map((t) => t.id));
+  return [
+    ...existing.filter((t) => t.builtIn || !ids.has(t.id)),
+    ...incoming.filter((t) => !BUILTIN_TEMPLATES.some((b) => b.id === t.id)),
+  ];
+};
@@ -0,0 +1,91 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildManifest, exportWithProvenance } from './provenance';
+import { ANALYSIS_MODEL } from './models';
+import { JobRecord, TraceSpan } from '../types';
+
+const JOB: JobRecord = {
+  id: 'job-1',
+  createdAt: 0,
+  updatedAt: 0,
+  status: 'completed',
+  source: { name: 'clip.mp4', mimeType: 'video/mp4', sha256: 'ab'.repeat(32) },
+  settings: { model: 'veo-3.1-fast-generate-preview', resolution: '720p', aspectRatio: '16:9', durationSeconds: 8, numberOfVideos: 1 },
+  promptRecord: { templateId: 't', templateName: 'T', templateBody: '{{scene}}', modified: false, values: {}, prompt: 'A dog on a beach' },
+  candidates: [],
+  timings: {},
+};
+
+const manifestOf = (job: JobRecord) =>
+  buildManifest(job, { title: 'out.mp4', format: 'video/mp4', mediaSha256: 'cd'.repeat(32), badge: false });
+
+const assertion = (job: JobRecord, label: string) => manifestOf(job).assertions.find((item) => item.label === label);
+
+describe('buildManifest', () => {
+  it('lists only Veo for a creation, with the still as its ingredient', () => {
+    const job: JobRecord = {
+      ...JOB,
+      source: { name: 'still.png', mimeType: 'image/png', sha256: 'ef'.repeat(32) },
+      creation: { prompt: 'A dog on a beach', imageBase64: 'AAAA', imageMimeType: 'image/png', imageName: 'still.png' },
+    };
+    expect(assertion(job, 'ai.generative_info')?.data.models).toEqual([{ role: 'video_generation', model: JOB.settings.model }]);
+    expect(assertion(job, 'c2pa.ingredient')?.data).toMatchObject({ title: 'still.png', hash: { alg: 'sha256', value: 'ef'.repeat(32) } });
+
+    const promptOnly: JobRecord = { ...job, creation: { prompt: 'A dog on a beach' } };
+    expect(assertion(promptOnly, 'c2pa.ingredient')).toBeUndefined();
+  });
+
+  it('records the prompt each segment was generated from', () => {
+    const job: JobRecord = {
+      ...JOB,
+      segments: [
+        { startSeconds: 0, endSeconds: 8, description: 'The dog runs in' },
+        { startSeconds: 8, endSeconds: 16, description: 'The dog sits down' },
+      ],
+    };
+    const info = assertion(job, 'ai.generative_info')!.data;
+    expect(info.models).toContainEqual({ role: 'segment_planning', model: ANALYSIS_MODEL });
+    expect(info.segmentPrompts).toHaveLength(2);
+    expect((info.segmentPrompts as string[])[1]).toMatch(/^A dog on a beach\n\nThis is part 2 of 2.*During this part: The dog sits down/s);
+  });
+});
+
+describe('exportWithProvenance', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const span = (operationName: string): TraceSpan => ({
+    id: operationName,
+    stageId: 'generate',
+    name: 'generateVideo',
+    provider: 'gemini',
+    model: JOB.settings.model,
+    startedAt: 0,
+    finishedAt: 0,
+    durationMs: 0,
+    requestBytes: 0,
+    attempt: 1,
+    outcome: 'ok',
+    operationName,
+  });
+
+  it('asks the proxy to sign a joined segmented output for each segment operation', async () => {
+    const operations = ['models/veo/operations/part-1', 'models/veo/operations/part-2'];
+    const job: JobRecord = { ...JOB, winnerId: 'job-1#joined', trace: operations.map(span) };
+    const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input) === '/api/provenance/sign') {
+        const { payload } = JSON.parse(String(init!.body));
+        return new Response(JSON.stringify({ manifest: JSON.parse(payload), jws: 'h.p.s', keyId: 'key-1' }));
+      }
+      return new Response(new Uint8Array(32), { headers: { 'content-type': 'video/mp4' } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { provenance } = await exportWithProvenance('blob:joined', job);
+
+    const signCall = fetchMock.mock.calls.find(([input]) => String(input) === '/api/provenance/sign')!;
+    expect(JSON.parse(String(signCall[1]!.body)).operationNames).toEqual(operations);
+    expect(provenance).toMatchObject({ jws: 'h.p.s', keyId: 'key-1' });
+  });
+});
@@ -0,0 +1,308 @@
+import { ExportFormat, ExportQuality, JobRecord, PostProcessEdits, ProvenanceManifest, SignedProvenance } from "../types";
+import { getJson, postJson } from "./apiClient";
+import { throwIfAborted } from "./polling";
+import { ANALYSIS_MODEL, FRAME_IMAGE_MODEL } from "./models";
+import { listMp4Boxes, sniffVideoContainer } from "./videoContainer";
+import { segmentPrompt } from "./segments";
+import { DEFAULT_EDITS, EXPORT_FORMATS, exportFileName, extensionFor, hasEdits, postProcessVideo } from "./postProcess";
+
+// Provenance for exported videos: a C2PA-style manifest (generating models, prompt,
+// source hash, timestamp) signed by the local proxy, written as a JSON sidecar and,
+// for MP4 outputs, appended to the file as a top-level 'uuid' box. This is not a
+// certified C2PA claim; it uses the C2PA vocabulary so tooling can map it.
+
+export const DISCLOSURE_TEXT = 'AI-generated';
+
+// Identifies our box among other 'uuid' boxes. Players skip unknown top-level boxes.
+const PROVENANCE_BOX_UUID = '5c0a3f9e7b1d4c629a8e2f4d6b1e7c35';
+
+// IPTC term for media created by a generative model.
+const TRAINED_ALGORITHMIC_MEDIA = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+
+const uuidBytes = () => Uint8Array.from(PROVENANCE_BOX_UUID.match(/../g)!, (hex) => parseInt(hex, 16));
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export const sha256Hex = async (data: Blob | ArrayBuffer): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', data instanceof Blob ? await data.arrayBuffer() : data));
+
+// Models the job actually called: Create mode goes straight to Veo, restoration
+// analyses the source (and plans segments, for long ones) and rebuilds a keyframe.
+const generativeModels = (job: JobRecord) => job.creation
+  ? [{ role: 'video_generation', model: job.settings.model }]
+  : [
+      { role: 'scene_analysis', model: ANALYSIS_MODEL },
+      ...(job.segments?.length ? [{ role: 'segment_planning', model: ANALYSIS_MODEL }] : []),
+      { role: 'keyframe_description', model: ANALYSIS_MODEL },
+      { role: 'keyframe_generation', model: FRAME_IMAGE_MODEL },
+      { role: 'video_generation', model: job.settings.model },
+    ];
+
+// What went into the generation: the source video, or the still a creation started
+// from. A prompt-only creation has none.
+const ingredients = (job: JobRecord) => job.creation && !job.creation.imageBase64
+  ? []
+  : [{
+      label: 'c2pa.ingredient',
+      data: {
+        title: job.source.name,
+        format: job.source.mimeType ?? null,
+        relationship: 'inputTo',
+        hash: job.source.sha256 ? { alg: 'sha256', value: job.source.sha256 } : null,
+      },
+    }];
+
+export const buildManifest = (
+  job: JobRecord,
+  { title, format, mediaSha256, badge, edits }: {
+    title: string;
+    format: string;
+    mediaSha256: string;
+    badge: boolean;
+    // Post-processing applied on export, if any.
+    edits?: PostProcessEdits;
+  }
+): ProvenanceManifest => ({
+  claim_generator: 'SoraCleaner',
+  title,
+  format,
+  created: new Date().toISOString(),
+  assertions: [
+    {
+      label: 'c2pa.actions',
+      data: {
+        actions: [{
+          action: 'c2pa.created',
+          digitalSourceType: TRAINED_ALGORITHMIC_MEDIA,
+          softwareAgent: 'SoraCleaner',
+          when: new Date(job.createdAt).toISOString(),
+        }, ...(edits && hasEdits(edits) ? [{
+          action: 'c2pa.edited',
+          softwareAgent: 'SoraCleaner',
+          when: new Date().toISOString(),
+          parameters: edits,
+        }] : [])],
+      },
+    },
+    {
+      label: 'ai.generative_info',
+      data: {
+        models: generativeModels(job),
+        prompt: job.promptRecord?.prompt ?? null,
+        // Segmented runs send each part its own prompt, built on the one above.
+        ...(job.segments?.length && job.promptRecord ? {
+          segmentPrompts: job.segments.map((item, index, plan) => segmentPrompt(job.promptRecord!.prompt, item, index, plan.length)),
+        } : {}),
+        settings: job.settings,
+        jobId: job.id,
+        disclosureBadge: badge,
+      },
+    },
+    ...ingredients(job),
+    {
+      label: 'c2pa.hash.data',
+      // Covers the media bytes as exported, before the provenance box is appended.
+      data: { alg: 'sha256', hash: mediaSha256, exclusions: 'trailing provenance uuid box' },
+    },
+  ],
+});
+
+// Generations the job ran, as the proxy knows them: every traced Veo operation and
+// the one the picked output came from. A joined segmented output ('<jobId>#joined')
+// names no operation; its segments' operations are in the trace.
+const operationNamesOf = (job: JobRecord): string[] => {
+  const names = (job.trace || []).flatMap((span) => span.operationName && span.outcome === 'ok' ? [span.operationName] : []);
+  const [winnerOperation, index] = job.winnerId?.split('#') ?? [];
+  if (winnerOperation && /^\d+$/.test(index ?? '')) names.push(winnerOperation);
+  return [...new Set(names)];
+};
+
+// The proxy signs only for generations it started, adding its own attestation of
+// them to the manifest. Without the proxy (or for runs it doesn't know, e.g. after
+// a restart or with the mock provider) the manifest is still exported, unsigned.
+const signManifest = async (manifest: ProvenanceManifest, job: JobRecord, signal?: AbortSignal): Promise<SignedProvenance> => {
+  const operationNames = operationNamesOf(job);
+  if (!operationNames.length) return { manifest, jws: null };
+  try {
+    const signed = await postJson<{ manifest: ProvenanceManifest; jws: string; keyId: string }>(
+      '/provenance/sign',
+      { payload: JSON.stringify(manifest), operationNames },
+      signal
+    );
+    return { manifest: signed.manifest, jws: signed.jws, keyId: signed.keyId };
+  } catch (e) {
+    throwIfAborted(signal);
+    console.warn("Could not sign provenance manifest", e);
+    return { manifest, jws: null };
+  }
+};
+
+const createProvenanceBox = (provenance: SignedProvenance): Uint8Array => {
+  const payload = new TextEncoder().encode(JSON.stringify(provenance));
+  const box = new Uint8Array(24 + payload.length);
+  new DataView(box.buffer).setUint32(0, box.length);
+  box.set(new TextEncoder().encode('uuid'), 4);
+  box.set(uuidBytes(), 8);
+  box.set(payload, 24);
+  return box;
+};
+
+// Finds our box among the top-level MP4 boxes; returns it with its offset.
+const findProvenanceBox = async (file: Blob): Promise<{ offset: number; provenance: SignedProvenance } | null> => {
+  const box = (await listMp4Boxes(file)).find((candidate) => candidate.uuid === PROVENANCE_BOX_UUID);
+  if (!box) return null;
+  try {
+    return { offset: box.offset, provenance: JSON.parse(await file.slice(box.offset + box.headerSize, box.offset + box.size).text()) };
+  } catch {
+    return null;
+  }
+};
+
+const fromBase64url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+export interface ProvenanceCheck {
+  provenance: SignedProvenance;
+  // Signature checks out against the key named in the JWS header.
+  signatureValid: boolean;
+  // That key is the proxy's own (GET /api/provenance/key). Anyone can sign with a
+  // key of their own and name it in the header, so only then does the signature count.
+  trustedKey: boolean;
+  // The media bytes still match the manifest's hash.
+  hashMatches: boolean;
+  keyId?: string;
+}
+
+// The header's key matches the proxy's signing key; false if the proxy can't be reached.
+const isProxyKey = async (kid: unknown, jwk: JsonWebKey): Promise<boolean> => {
+  try {
+    const { keyId, publicKeyJwk } = await getJson<{ keyId: string; publicKeyJwk: JsonWebKey }>('/provenance/key');
+    return kid === keyId && jwk.crv === publicKeyJwk.crv && jwk.x === publicKeyJwk.x && jwk.y === publicKeyJwk.y;
+  } catch (e) {
+    console.warn("Could not fetch the provenance signing key", e);
+    return false;
+  }
+};
+
+// Verifies an embedded manifest: the JWS signature, whether it was made with the
+// proxy's key, and the hash of the media bytes that precede the box.
+export const verifyProvenance = async (file: Blob): Promise<ProvenanceCheck | null> => {
+  const found = await findProvenanceBox(file);
+  if (!found) return null;
+  const { provenance } = found;
+
+  let signatureValid = false;
+  let trustedKey = false;
+  let keyId: string | undefined;
+  let signedManifest: ProvenanceManifest = provenance.manifest;
+  if (provenance.jws) {
+    try {
+      const [header, payload, signature] = provenance.jws.split('.');
+      const { jwk, kid } = JSON.parse(new TextDecoder().decode(fromBase64url(header)));
+      keyId = kid;
+      const key = await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+      signatureValid = await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        key,
+        fromBase64url(signature),
+        new TextEncoder().encode(`${header}.${payload}`)
+      );
+      signedManifest = JSON.parse(new TextDecoder().decode(fromBase64url(payload)));
+      trustedKey = signatureValid && await isProxyKey(kid, jwk);
+    } catch {
+      signatureValid = false;
+    }
+  }
+
+  const hashAssertion = signedManifest.assertions.find((assertion) => assertion.label === 'c2pa.hash.data');
+  const hashMatches = hashAssertion?.data.hash === await sha256Hex(file.slice(0, found.offset));
+  return { provenance, signatureValid, trustedKey, hashMatches, keyId };
+};
+
+// Visible disclosure in the bottom-left corner, scaled to the frame.
+export const drawDisclosureBadge = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) * 0.045));
+  const padding = Math.round(fontSize * 0.5);
+  ctx.save();
+  ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+  const boxWidth = ctx.measureText(DISCLOSURE_TEXT).width + padding * 2;
+  const boxHeight = fontSize + padding * 2;
+  const x = padding * 2;
+  const y = height - boxHeight - padding * 2;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(x, y, boxWidth, boxHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(DISCLOSURE_TEXT, x + padding, y + boxHeight / 2);
+  ctx.restore();
+};
+
+export interface ProvenanceExportOptions {
+  // Re-encodes the video with the disclosure badge on every frame.
+  burnInBadge?: boolean;
+  // Post-processing (see services/postProcess.ts); without any, and at high quality
+  // in the output's own format, the output is saved as generated.
+  edits?: PostProcessEdits;
+  format?: ExportFormat;
+  quality?: ExportQuality;
+  signal?: AbortSignal;
+  onProgress?: (message: string, fraction?: number) => void;
+}
+
+export interface ProvenanceExport {
+  video: Blob;
+  videoName: string;
+  sidecar: Blob;
+  sidecarName: string;
+  provenance: SignedProvenance;
+}
+
+const sniffFormat = async (media: Blob): Promise<string> =>
+  sniffVideoContainer(new Uint8Array(await media.slice(0, 64).arrayBuffer())) || media.type.split(';')[0] || 'video/mp4';
+
+// Builds the downloadable output of a job: the media (edited, converted and badged
+// as asked, with the manifest embedded when it is an MP4) and the manifest as a sidecar.
+export const exportWithProvenance = async (
+  videoUrl: string,
+  job: JobRecord,
+  { burnInBadge = false, edits = DEFAULT_EDITS, format: targetFormat, quality = 'high', signal, onProgress }: ProvenanceExportOptions = {}
+): Promise<ProvenanceExport> => {
+  onProgress?.("Fetching video...");
+  const response = await fetch(videoUrl, { signal });
+  if (!response.ok) throw new Error(`Could not fetch the output (${response.status})`);
+  let media: Blob = await response.blob();
+
+  const converts = targetFormat !== undefined && EXPORT_FORMATS[targetFormat].mimeType !== await sniffFormat(media);
+  const processes = converts || hasEdits(edits) || quality !== 'high';
+  if (processes || burnInBadge) {
+    const message = processes ? "Processing video..." : "Adding disclosure badge...";
+    media = await postProcessVideo(media, {
+      edits,
+      format: targetFormat,
+      quality,
+      overlay: burnInBadge ? drawDisclosureBadge : undefined,
+      signal,
+      onProgress: (fraction) => onProgress?.(message, fraction),
+    });
+  }
+
+  const format = await sniffFormat(media);
+  const videoName = exportFileName(job.source.name, job.id, extensionFor(format));
+
+  onProgress?.("Signing provenance manifest...");
+  const manifest = buildManifest(job, { title: videoName, format, mediaSha256: await sha256Hex(media), badge: burnInBadge, edits });
+  const provenance = await signManifest(manifest, job, signal);
+  throwIfAborted(signal);
+
+  const video = format === 'video/mp4'
+    ? new Blob([media, createProvenanceBox(provenance)], { type: format })
+    : media;
+  return {
+    video,
+    videoName,
+    sidecar: new Blob([JSON.stringify(provenance, null, 2)], { type: 'application/json' }),
+    sidecarName: `${videoName}.provenance.json`,
+    provenance,
+  };
+};
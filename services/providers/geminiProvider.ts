@@ -0,0 +1,142 @@
+import { FrameOptions, GenerateVideoOptions, GenerationProvider, ProxyOperationStatus, RequestOptions, SegmentRange, VideoCandidate } from "../../types";
+import { getJson, postJson, resolveProxyUrl } from "../apiClient";
+import { InvalidInputError, UpstreamError, classifyError, createGenerationError, kindFromStatus } from "../errors";
+import { withRetry } from "../retry";
+import { isAbortError, pollWithBackoff, throwIfAborted } from "../polling";
+import { DEFAULT_VEO_CONFIG, validateVeoConfig } from "../veoConfig";
+
+// Gemini/Imagen/Veo via the local proxy (server/). The browser never sees the API
+// key: model calls and video downloads all go through same-origin /api endpoints.
+
+const getOperation = (name: string, signal?: AbortSignal): Promise<ProxyOperationStatus> =>
+  getJson<ProxyOperationStatus>(`/operation?name=${encodeURIComponent(name)}`, signal);
+
+const analyzeVideo = async (
+  videoBase64: string,
+  mimeType: string,
+  { signal }: RequestOptions = {}
+): Promise<string> => {
+  throwIfAborted(signal);
+  const { text } = await postJson<{ text: string }>('/analyze', { videoBase64, mimeType }, signal);
+  return text;
+};
+
+const analyzeFrames = async (
+  framesBase64: string[],
+  mimeType: string,
+  { signal }: RequestOptions = {}
+): Promise<string> => {
+  throwIfAborted(signal);
+  const { text } = await postJson<{ text: string }>('/analyze-frames', { framesBase64, mimeType }, signal);
+  return text;
+};
+
+const describeSegments = async (
+  analysis: string,
+  ranges: SegmentRange[],
+  { signal }: RequestOptions = {}
+): Promise<string[]> => {
+  throwIfAborted(signal);
+  const { descriptions } = await postJson<{ descriptions: string[] }>('/segments', { analysis, ranges }, signal);
+  return descriptions;
+};
+
+const synthesizeFrame = async (
+  imageBase64: string,
+  mimeType: string,
+  { signal, aspectRatio = DEFAULT_VEO_CONFIG.aspectRatio, style }: FrameOptions = {}
+): Promise<string> => {
+  throwIfAborted(signal);
+  const result = await postJson<{ imageBase64: string }>('/frame', {
+    imageBase64,
+    mimeType,
+    aspectRatio,
+    styleModifier: style?.modifier,
+    negativePrompt: style?.negativePrompt,
+  }, signal);
+  return result.imageBase64;
+};
+
+// Polls a Veo operation to completion and returns a playable candidate per generated video.
+const awaitVideoOperation = async (
+  initial: ProxyOperationStatus,
+  { signal, onProgress, onPoll, timeoutMs }: GenerateVideoOptions
+): Promise<VideoCandidate[]> => {
+  try {
+    const operation = await pollWithBackoff(
+      initial,
+      // A failed status poll doesn't fail the generation; transient errors are retried.
+      (current) => withRetry(() => getOperation(current.name, signal), { signal }),
+      (current) => current.done,
+      {
+        signal,
+        timeoutMs,
+        onPoll: (attempt) => {
+          onPoll?.(attempt);
+          onProgress?.("Rendering video frames...");
+        },
+      }
+    );
+
+    if (operation.error) {
+      throw createGenerationError(operation.errorKind || kindFromStatus(undefined, operation.error), operation.error);
+    }
+
+    const videos = operation.videos || [];
+    if (!videos.length) {
+      throw new UpstreamError("No video URI returned");
+    }
+
+    return videos.map((video, index) => ({
+      id: `${operation.name || 'video'}#${index}`,
+      url: resolveProxyUrl(video.url),
+      expirationTime: video.expirationTime,
+    }));
+
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    console.error("Veo Error:", error);
+    throw classifyError(error);
+  }
+};
+
+const generateVideo = async (
+  startFrameBase64: string | undefined,
+  prompt: string,
+  options: GenerateVideoOptions = {}
+): Promise<VideoCandidate[]> => {
+  const { signal, onProgress, onOperationStarted, config = DEFAULT_VEO_CONFIG, startFrameMimeType, negativePrompt } = options;
+  const configErrors = validateVeoConfig(config);
+  if (configErrors.length) throw new InvalidInputError(`Invalid generation settings: ${configErrors.join('; ')}`);
+  throwIfAborted(signal);
+
+  if (onProgress) onProgress("Initializing generation model...");
+
+  // Note: aborting only stops the client; a started operation keeps running (and billing) upstream.
+  const operation = await postJson<ProxyOperationStatus>('/videos', { startFrameBase64, startFrameMimeType, prompt, negativePrompt, config }, signal);
+
+  if (operation.name && onOperationStarted) onOperationStarted(operation.name);
+  if (onProgress) onProgress("Video generation started. This may take a moment...");
+
+  return awaitVideoOperation(operation, options);
+};
+
+const resumeVideo = async (
+  operationName: string,
+  options: GenerateVideoOptions = {}
+): Promise<VideoCandidate[]> => {
+  if (options.onProgress) options.onProgress("Resuming video generation...");
+  return awaitVideoOperation({ name: operationName, done: false }, options);
+};
+
+export const createGeminiProvider = (): GenerationProvider => ({
+  id: 'gemini',
+  // The key lives on the proxy; a missing key surfaces as a request error instead.
+  isAvailable: () => true,
+  analyzeVideo,
+  analyzeFrames,
+  describeSegments,
+  synthesizeFrame,
+  generateVideo,
+  resumeVideo,
+});
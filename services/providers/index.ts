@@ -0,0 +1,48 @@
+import { ErrorKind, GenerationProvider, ProviderId } from "../../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider, MockProviderOptions, MockStage } from "./mockProvider";
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'mock'];
+const ERROR_KINDS: ErrorKind[] = ['auth', 'quota', 'safety', 'invalid_input', 'timeout', 'upstream', 'network', 'unknown'];
+
+const getUrlParams = (): URLSearchParams =>
+  typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : new URLSearchParams();
+
+// `?provider=mock` wins over the GENERATION_PROVIDER env var; Gemini is the default.
+export const resolveProviderId = (): ProviderId => {
+  const requested = getUrlParams().get('provider') || process.env.GENERATION_PROVIDER;
+  return PROVIDER_IDS.find((id) => id === requested) || 'gemini';
+};
+
+// Mock tuning via URL, e.g. `?provider=mock&mockDelay=100&mockFail=generate&mockError=quota`.
+const resolveMockOptions = (): Partial<MockProviderOptions> => {
+  const params = getUrlParams();
+  const options: Partial<MockProviderOptions> = {};
+  const delay = Number(params.get('mockDelay'));
+  if (params.has('mockDelay') && Number.isFinite(delay)) options.delayMs = delay;
+  const polls = Number(params.get('mockPolls'));
+  if (params.has('mockPolls') && Number.isFinite(polls)) options.pollCount = polls;
+  const failAt = params.get('mockFail');
+  if (failAt === 'analyze' || failAt === 'frame' || failAt === 'generate') {
+    options.failAt = failAt as MockStage;
+  }
+  const failKind = params.get('mockError');
+  if (failKind && (ERROR_KINDS as string[]).includes(failKind)) options.failKind = failKind as ErrorKind;
+  return options;
+};
+
+let activeProvider: GenerationProvider | null = null;
+
+export const getProvider = (): GenerationProvider => {
+  if (!activeProvider) {
+    activeProvider = resolveProviderId() === 'mock'
+      ? createMockProvider(resolveMockOptions())
+      : createGeminiProvider();
+  }
+  return activeProvider;
+};
+
+// Overrides the resolved provider, e.g. to inject a stub.
+export const setProvider = (provider: GenerationProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,168 @@
+import { pickRecorderMimeType } from "../videoProcessing";
+
+// Deterministic media fixtures for the mock provider. The PNG encoder is plain
+// TypeScript (stored deflate blocks, no compression) so it works without a DOM.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const writeUint32 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  writeUint32(chunk, 0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// Wraps raw bytes in a zlib stream made of uncompressed deflate blocks.
+const zlibStore = (raw: Uint8Array): Uint8Array => {
+  const MAX_BLOCK = 0xffff;
+  const blocks = Math.max(1, Math.ceil(raw.length / MAX_BLOCK));
+  const out = new Uint8Array(2 + blocks * 5 + raw.length + 4);
+  out[0] = 0x78;
+  out[1] = 0x01;
+  let pos = 2;
+  for (let i = 0; i < blocks; i++) {
+    const start = i * MAX_BLOCK;
+    const len = Math.min(MAX_BLOCK, raw.length - start);
+    out[pos++] = i === blocks - 1 ? 1 : 0;
+    out[pos++] = len & 0xff;
+    out[pos++] = (len >>> 8) & 0xff;
+    out[pos++] = ~len & 0xff;
+    out[pos++] = (~len >>> 8) & 0xff;
+    out.set(raw.subarray(start, start + len), pos);
+    pos += len;
+  }
+  writeUint32(out, pos, adler32(raw));
+  return out;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Encodes a diagonal gradient seeded by `seed` as a 24-bit RGB PNG.
+export const createGradientPng = (width: number, height: number, seed = 0): Uint8Array => {
+  const stride = width * 3 + 1;
+  const raw = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * stride] = 0; // filter: none
+    for (let x = 0; x < width; x++) {
+      const i = y * stride + 1 + x * 3;
+      raw[i] = (x * 255 / width + seed * 37) & 0xff;
+      raw[i + 1] = (y * 255 / height + seed * 71) & 0xff;
+      raw[i + 2] = ((x + y) * 128 / (width + height) + 96) & 0xff;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: truecolour
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStore(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+};
+
+// Records a short clip of the start frame slowly panning across a canvas.
+// `variant` changes the pan direction and zoom so candidates are distinguishable.
+// MP4 is preferred; browsers without an MP4 recorder fall back to WebM.
+export const recordMockVideo = async (
+  frameBase64: string,
+  durationMs: number = 2000,
+  variant: number = 0
+): Promise<Blob> => {
+  const image = new Image();
+  image.src = `data:image/png;base64,${frameBase64}`;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth || 320;
+  canvas.height = image.naturalHeight || 180;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const mimeType = pickRecorderMimeType();
+  const stream = canvas.captureStream(30);
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  const start = performance.now();
+  const draw = () => {
+    const t = Math.min(1, (performance.now() - start) / durationMs);
+    const zoom = 1 + (0.1 + 0.05 * variant) * t;
+    const w = canvas.width * zoom;
+    const h = canvas.height * zoom;
+    const pan = variant % 2 === 0 ? t : 1 - t;
+    ctx.drawImage(image, (canvas.width - w) * pan, (canvas.height - h) / 2, w, h);
+    if (t < 1) {
+      requestAnimationFrame(draw);
+    } else {
+      recorder.stop();
+    }
+  };
+
+  recorder.start();
+  draw();
+  await stopped;
+  stream.getTracks().forEach((track) => track.stop());
+
+  return new Blob(chunks, { type: recorder.mimeType || 'video/mp4' });
+};
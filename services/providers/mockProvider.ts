@@ -0,0 +1,125 @@
+import { AspectRatio, ErrorKind, GenerateVideoOptions, GenerationProvider, VideoCandidate } from "../../types";
+import { sleep, throwIfAborted, TimeoutError } from "../polling";
+import { createGenerationError } from "../errors";
+import { bytesToBase64, createGradientPng, recordMockVideo } from "./mockMedia";
+
+export type MockStage = 'analyze' | 'frame' | 'generate';
+
+export interface MockProviderOptions {
+  // Base latency applied to every simulated call.
+  delayMs: number;
+  // Stage that should fail, to exercise the error path.
+  failAt?: MockStage;
+  // Kind of error the failing stage throws, to exercise recovery actions.
+  failKind?: ErrorKind;
+  // Number of simulated "still rendering" polls before the video is ready.
+  pollCount: number;
+}
+
+export const MOCK_ANALYSIS_TEXT =
+  "A slow dolly shot across a sunlit coastal boardwalk at golden hour. " +
+  "A cyclist in a red jacket rides from left to right while gulls circle overhead. " +
+  "Soft lens flare, shallow depth of field, gentle handheld sway.";
+
+// Fixture frame size per aspect ratio (long edge 640px).
+const FRAME_SIZES: Record<AspectRatio, [number, number]> = {
+  '16:9': [640, 360],
+  '9:16': [360, 640],
+  '1:1': [640, 640],
+  '4:3': [640, 480],
+  '3:4': [480, 640],
+};
+
+const DEFAULT_OPTIONS: MockProviderOptions = {
+  delayMs: 400,
+  pollCount: 3,
+};
+
+export const createMockProvider = (
+  overrides: Partial<MockProviderOptions> = {}
+): GenerationProvider => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+
+  const maybeFail = (stage: MockStage) => {
+    if (options.failAt === stage) {
+      throw createGenerationError(options.failKind || 'unknown', `Mock provider: simulated failure in '${stage}' stage`);
+    }
+  };
+
+  let operationCounter = 0;
+
+  // Simulated polling of a long-running operation, honouring abort and timeout.
+  const awaitOperation = async (
+    operationName: string,
+    startFrameBase64: string,
+    { signal, onProgress, onPoll, timeoutMs, config }: GenerateVideoOptions
+  ): Promise<VideoCandidate[]> => {
+    const deadline = timeoutMs ? Date.now() + timeoutMs : Infinity;
+    for (let i = 0; i < options.pollCount; i++) {
+      if (Date.now() > deadline) throw new TimeoutError("Mock operation timed out");
+      if (onProgress) onProgress("Rendering video frames...");
+      await sleep(options.delayMs, signal);
+      onPoll?.(i + 1);
+    }
+    maybeFail('generate');
+
+    const candidates: VideoCandidate[] = [];
+    for (let i = 0; i < (config?.numberOfVideos || 1); i++) {
+      const blob = await recordMockVideo(startFrameBase64, 2000, i);
+      throwIfAborted(signal);
+      candidates.push({ id: `${operationName}#${i}`, url: URL.createObjectURL(blob) });
+    }
+    return candidates;
+  };
+
+  return {
+    id: 'mock',
+    isAvailable: () => true,
+
+    analyzeVideo: async (_videoBase64, _mimeType, { signal } = {}) => {
+      await sleep(options.delayMs, signal);
+      maybeFail('analyze');
+      return MOCK_ANALYSIS_TEXT;
+    },
+
+    analyzeFrames: async (_framesBase64, _mimeType, { signal } = {}) => {
+      await sleep(options.delayMs, signal);
+      maybeFail('analyze');
+      return MOCK_ANALYSIS_TEXT;
+    },
+
+    describeSegments: async (_analysis, ranges, { signal } = {}) => {
+      await sleep(options.delayMs, signal);
+      maybeFail('analyze');
+      return ranges.map((range, index) =>
+        `Segment ${index + 1} (${range.startSeconds}s to ${range.endSeconds}s): ${MOCK_ANALYSIS_TEXT}`);
+    },
+
+    synthesizeFrame: async (_imageBase64, _mimeType, { signal, aspectRatio = '16:9' } = {}) => {
+      await sleep(options.delayMs, signal);
+      maybeFail('frame');
+      const [width, height] = FRAME_SIZES[aspectRatio];
+      return bytesToBase64(createGradientPng(width, height));
+    },
+
+    generateVideo: async (startFrameBase64, _prompt, generateOptions = {}) => {
+      const { signal, onProgress, onOperationStarted } = generateOptions;
+      if (onProgress) onProgress("Initializing generation model...");
+      await sleep(options.delayMs, signal);
+      operationCounter += 1;
+      const operationName = `mock-operations/${operationCounter}`;
+      if (onOperationStarted) onOperationStarted(operationName);
+      if (onProgress) onProgress("Video generation started. This may take a moment...");
+      // Text-to-video animates a fixture frame instead.
+      const [width, height] = FRAME_SIZES[generateOptions.config?.aspectRatio || '16:9'];
+      return awaitOperation(operationName, startFrameBase64 ?? bytesToBase64(createGradientPng(width, height)), generateOptions);
+    },
+
+    resumeVideo: async (operationName, generateOptions = {}) => {
+      if (generateOptions.onProgress) generateOptions.onProgress("Resuming video generation...");
+      // The mock keeps no server-side state, so resume with a fresh fixture frame.
+      const [width, height] = FRAME_SIZES[generateOptions.config?.aspectRatio || '16:9'];
+      return awaitOperation(operationName, bytesToBase64(createGradientPng(width, height)), generateOptions);
+    },
+  };
+};
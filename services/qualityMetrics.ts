@@ -0,0 +1,191 @@
+import { QualityFrameMetrics, QualityReport } from "../types";
+import { seekTo } from "./keyframes";
+import { loadVideo } from "./videoProcessing";
+
+// How faithful an output is to its source, measured locally: frames are sampled at
+// the same moments from both clips, resampled to one small size and compared
+// (SSIM and PSNR on luminance, colour-histogram drift). Flicker is measured within
+// the output alone, as the brightness jump between frames a moment apart.
+
+// Frames compared per output.
+const SAMPLE_COUNT = 16;
+// Longer edge frames are resampled to before comparing.
+const COMPARE_LONG_EDGE = 128;
+// Gap between the two output frames a flicker reading compares, seconds (~2 frames at 24fps).
+const FLICKER_GAP_SECONDS = 1 / 12;
+// Bins per colour channel of the drift histograms.
+const HISTOGRAM_BINS = 16;
+// Block size of the windowed SSIM.
+const SSIM_BLOCK = 8;
+// PSNR of identical frames would be infinite; reports cap it here.
+export const MAX_PSNR = 100;
+
+export const toLuma = (pixels: Uint8ClampedArray): Float32Array => {
+  const luma = new Float32Array(pixels.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+  }
+  return luma;
+};
+
+// Mean SSIM over non-overlapping blocks of two equally sized luminance planes.
+export const ssim = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  let total = 0;
+  let blocks = 0;
+  for (let by = 0; by + SSIM_BLOCK <= height; by += SSIM_BLOCK) {
+    for (let bx = 0; bx + SSIM_BLOCK <= width; bx += SSIM_BLOCK) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = by; y < by + SSIM_BLOCK; y++) {
+        for (let x = bx; x < bx + SSIM_BLOCK; x++) {
+          const va = a[y * width + x];
+          const vb = b[y * width + x];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const n = SSIM_BLOCK * SSIM_BLOCK;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      total += ((2 * meanA * meanB + c1) * (2 * cov + c2)) /
+        ((meanA * meanA + meanB * meanB + c1) * (varA + varB + c2));
+      blocks++;
+    }
+  }
+  return blocks ? total / blocks : 0;
+};
+
+export const psnr = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  const mse = sum / a.length;
+  return mse === 0 ? MAX_PSNR : Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / mse));
+};
+
+const histograms = (pixels: Uint8ClampedArray): Float64Array[] => {
+  const channels = [0, 1, 2].map(() => new Float64Array(HISTOGRAM_BINS));
+  const count = pixels.length / 4;
+  for (let i = 0; i < pixels.length; i += 4) {
+    for (let c = 0; c < 3; c++) channels[c][(pixels[i + c] * HISTOGRAM_BINS) >> 8] += 1 / count;
+  }
+  return channels;
+};
+
+// Hellinger distance between the RGB histograms, averaged over channels:
+// 0 for the same colour distribution, 1 for disjoint ones.
+export const histogramDrift = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  const ha = histograms(a);
+  const hb = histograms(b);
+  let total = 0;
+  for (let c = 0; c < 3; c++) {
+    let overlap = 0;
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) overlap += Math.sqrt(ha[c][bin] * hb[c][bin]);
+    total += Math.sqrt(Math.max(0, 1 - overlap));
+  }
+  return total / 3;
+};
+
+// Change in mean luminance between two frames, 0-1.
+export const flicker = (a: Float32Array, b: Float32Array): number => {
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < a.length; i++) {
+    sumA += a[i];
+    sumB += b[i];
+  }
+  return Math.abs(sumA - sumB) / a.length / 255;
+};
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+export const summarizeFrames = (frames: QualityFrameMetrics[]): QualityReport['summary'] => ({
+  ssim: mean(frames.map((f) => f.ssim)),
+  psnr: mean(frames.map((f) => f.psnr)),
+  histogramDrift: mean(frames.map((f) => f.histogramDrift)),
+  flicker: mean(frames.map((f) => f.flicker)),
+  maxFlicker: frames.reduce((max, f) => Math.max(max, f.flicker), 0),
+});
+
+// Draws the frame scaled to cover width × height, centre-cropped, so sources of
+// another aspect ratio line up with the output.
+const grabFrame = (video: HTMLVideoElement, width: number, height: number): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  const scale = Math.max(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+export interface QualityOptions {
+  // Position in the source the output starts at, seconds.
+  sourceOffsetSeconds?: number;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+// Compares an output with its source at evenly spaced moments of the output that
+// the source also covers.
+export const measureQuality = async (
+  sourceUrl: string,
+  outputUrl: string,
+  candidateId: string,
+  { sourceOffsetSeconds = 0, signal, onProgress }: QualityOptions = {}
+): Promise<QualityReport> => {
+  const [source, output] = await Promise.all([loadVideo(sourceUrl, signal), loadVideo(outputUrl, signal)]);
+  try {
+    const scale = COMPARE_LONG_EDGE / Math.max(output.videoWidth, output.videoHeight);
+    const width = Math.max(SSIM_BLOCK, Math.round(output.videoWidth * scale));
+    const height = Math.max(SSIM_BLOCK, Math.round(output.videoHeight * scale));
+    const overlap = Math.min(output.duration, source.duration - sourceOffsetSeconds) - FLICKER_GAP_SECONDS;
+    if (!(overlap > 0)) throw new Error("The output and source don't overlap in time");
+
+    const frames: QualityFrameMetrics[] = [];
+    for (let i = 0; i < SAMPLE_COUNT; i++) {
+      const time = (overlap * (i + 0.5)) / SAMPLE_COUNT;
+      await seekTo(output, time, signal);
+      const outputPixels = grabFrame(output, width, height);
+      await seekTo(output, time + FLICKER_GAP_SECONDS, signal);
+      const nextPixels = grabFrame(output, width, height);
+      await seekTo(source, sourceOffsetSeconds + time, signal);
+      const sourcePixels = grabFrame(source, width, height);
+
+      const outputLuma = toLuma(outputPixels);
+      const sourceLuma = toLuma(sourcePixels);
+      frames.push({
+        time,
+        ssim: ssim(sourceLuma, outputLuma, width, height),
+        psnr: psnr(sourceLuma, outputLuma),
+        histogramDrift: histogramDrift(sourcePixels, outputPixels),
+        flicker: flicker(outputLuma, toLuma(nextPixels)),
+      });
+      onProgress?.((i + 1) / SAMPLE_COUNT);
+    }
+
+    return {
+      candidateId,
+      computedAt: Date.now(),
+      sourceOffsetSeconds,
+      width,
+      height,
+      frames,
+      summary: summarizeFrames(frames),
+    };
+  } finally {
+    for (const video of [source, output]) {
+      video.removeAttribute('src');
+      video.load();
+    }
+  }
+};
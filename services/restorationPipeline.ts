@@ -0,0 +1,248 @@
+import { MediaBackend, PromptRecord, SegmentPlanItem, SegmentRange, StylePreset, TraceOptions, TraceSpan, VeoConfig, VideoCandidate } from "../types";
+import { PipelineStage, StageHelpers } from "./pipeline";
+import { analyzeFrameSequence, analyzeVideoContent, cleanFrame, describeVideoSegments, generateCleanVideo } from "./gemini";
+import { BUILTIN_TEMPLATES, buildPromptRecord } from "./promptTemplates";
+import { segmentPrompt } from "./segments";
+import { frameStyle, withStyleValues } from "./stylePresets";
+
+// The stages touch no DOM API: video decoding and encoding go through `media`, so
+// the same flow runs in the browser and headless (cli/).
+export interface RestorationContext {
+  settings: VeoConfig;
+  media: MediaBackend;
+  // History job this run is recorded under.
+  jobId?: string;
+  // Full source video (uploads and imported links; absent for reopened jobs).
+  sourceBase64?: string;
+  sourceMimeType?: string;
+  // Seed frame captured from the source player, base64 PNG.
+  frameBase64?: string;
+  // Sampled frames (base64 JPEG) to analyze instead of the full video.
+  analysisFrames?: string[];
+  analysis?: string;
+  // Look of the keyframe and video; without it, the default photorealistic one.
+  style?: StylePreset;
+  // Lets the user review the analysis and pick a prompt template before generation.
+  // Without it, the default template is applied to the analysis as-is.
+  reviewPrompt?: (analysis: string, signal?: AbortSignal) => Promise<PromptRecord>;
+  promptRecord?: PromptRecord;
+  // Source ranges to generate as consecutive segments (see services/segments.ts).
+  // Absent or a single range: one generation covers the whole output.
+  segmentRanges?: SegmentRange[];
+  segmentPlan?: SegmentPlanItem[];
+  // Clips of the segments generated so far, in order; a retried run resumes after them.
+  segmentVideos?: Blob[];
+  // Original source file and where the output starts in it, for the 'keep' audio policy.
+  audioSource?: Blob;
+  audioOffsetSeconds?: number;
+  // Called once Veo has accepted a generation request (the point it is billed),
+  // with the settings that request used.
+  onOperationStarted?: (name: string, config: VeoConfig) => void;
+  // Receives a span for every service call attempt the stages make.
+  onSpan?: (span: TraceSpan) => void;
+  // Start frame handed to Veo: the reconstructed keyframe, or the still picked in
+  // Create mode (absent there for text-to-video).
+  cleanedFrameBase64?: string;
+  // MIME type of a Create mode still; reconstructed keyframes are PNG.
+  startFrameMimeType?: string;
+  candidates?: VideoCandidate[];
+}
+
+// Surfaces automatic retries of transient failures as the stage's status message.
+const retryReporter = (report: StageHelpers['report']) =>
+  (error: Error, attempt: number, delayMs: number) =>
+    report(`${error.message} — retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt + 1})...`);
+
+const traceFor = (ctx: RestorationContext, stageId: string): TraceOptions | undefined =>
+  ctx.onSpan && { runId: ctx.jobId, stageId, onSpan: ctx.onSpan };
+
+const isSegmented = (ctx: RestorationContext) => (ctx.segmentRanges?.length || 0) > 1;
+
+// Generates the planned segments one after another, each seeded from the last frame
+// of the one before, and joins them into a single candidate.
+const generateSegments = async (
+  ctx: RestorationContext,
+  { report, signal }: StageHelpers
+): Promise<VideoCandidate[]> => {
+  const plan = ctx.segmentPlan!;
+  const clips = ctx.segmentVideos!;
+  const config = { ...ctx.settings, numberOfVideos: 1 };
+  // Clip generation takes most of the stage; joining plays every clip back once.
+  const share = 0.85;
+
+  for (let index = clips.length; index < plan.length; index++) {
+    const label = `Segment ${index + 1}/${plan.length}`;
+    report(`${label}: starting...`, (index / plan.length) * share);
+    const seed = index === 0 ? ctx.cleanedFrameBase64! : await ctx.media.captureLastFrame(clips[index - 1], signal);
+    const [candidate] = await generateCleanVideo(seed, segmentPrompt(ctx.promptRecord!.prompt, plan[index], index, plan.length), {
+      signal,
+      config,
+      negativePrompt: ctx.style?.negativePrompt || undefined,
+      jobId: ctx.jobId,
+      segment: { index, count: plan.length },
+      onOperationStarted: (name) => ctx.onOperationStarted?.(name, config),
+      onProgress: (msg) => report(`${label}: ${msg}`, (index / plan.length) * share),
+      onRetry: retryReporter(report),
+      trace: traceFor(ctx, 'generate'),
+    });
+    if (!candidate) throw new Error(`${label} produced no video`);
+    const response = await fetch(candidate.url, { signal });
+    if (!response.ok) throw new Error(`Could not download ${label.toLowerCase()} (${response.status})`);
+    // Kept in the shared array so a retry after a later failure skips this segment.
+    clips.push(await response.blob());
+  }
+
+  const joined = await ctx.media.concatVideos(clips, {
+    signal,
+    onProgress: (index, fraction) =>
+      report(`Joining segments (${index + 1}/${clips.length})...`, share + (1 - share) * ((index + fraction) / clips.length)),
+  });
+  return [{ id: `${ctx.jobId || 'segments'}#joined`, url: URL.createObjectURL(joined) }];
+};
+
+const GENERATE_STAGE: PipelineStage<RestorationContext> = {
+  id: 'generate',
+  label: 'Synthesizing clean video',
+  message: 'Generating logo-free video with Veo...',
+  inputs: ['cleanedFrameBase64', 'promptRecord', 'settings'],
+  outputs: ['candidates'],
+  weight: 50,
+  retryable: true,
+  run: async (ctx, helpers) => {
+    if (ctx.segmentPlan && ctx.segmentVideos) return { candidates: await generateSegments(ctx, helpers) };
+    const { report, signal } = helpers;
+    const candidates = await generateCleanVideo(ctx.cleanedFrameBase64, ctx.promptRecord!.prompt, {
+      signal,
+      config: ctx.settings,
+      startFrameMimeType: ctx.startFrameMimeType,
+      negativePrompt: ctx.style?.negativePrompt || undefined,
+      jobId: ctx.jobId,
+      onOperationStarted: (name) => ctx.onOperationStarted?.(name, ctx.settings),
+      onProgress: (msg) => report(msg),
+      onRetry: retryReporter(report),
+      trace: traceFor(ctx, 'generate'),
+    });
+    return { candidates: candidates.length ? candidates : undefined };
+  },
+};
+
+// Also run on its own for generations resumed after the tab was closed.
+export const APPLY_AUDIO_STAGE: PipelineStage<RestorationContext> = {
+  id: 'apply_audio',
+  label: 'Applying audio policy',
+  message: 'Preparing audio track...',
+  inputs: ['candidates', 'settings'],
+  outputs: ['candidates'],
+  weight: 5,
+  retryable: true,
+  run: async (ctx, { report, signal }) => {
+    const policy = ctx.settings.audio ?? 'generate';
+    const count = ctx.candidates!.length;
+    return {
+      candidates: await ctx.media.applyAudioPolicy(ctx.candidates!, {
+        policy,
+        source: ctx.audioSource,
+        offsetSeconds: ctx.audioOffsetSeconds,
+        signal,
+        onProgress: (index, fraction) => report(
+          `${policy === 'keep' ? 'Adding original audio' : 'Removing audio'}${count > 1 ? ` (${index + 1}/${count})` : ''}...`,
+          (index + fraction) / count
+        ),
+      }),
+    };
+  },
+};
+
+// Default restoration flow: analyze → review prompt → plan segments (long sources only)
+// → reconstruct keyframe → generate with Veo → apply the audio policy.
+export const RESTORATION_STAGES: PipelineStage<RestorationContext>[] = [
+  {
+    id: 'analyze',
+    label: 'Analyzing scene dynamics',
+    message: 'Analyzing video structure...',
+    inputs: ['frameBase64'],
+    outputs: ['analysis'],
+    weight: 30,
+    retryable: true,
+    run: async (ctx, { report, signal }) => {
+      const options = { signal, onRetry: retryReporter(report), trace: traceFor(ctx, 'analyze') };
+      if (ctx.analysisFrames?.length) {
+        return { analysis: await analyzeFrameSequence(ctx.analysisFrames, 'image/jpeg', options) };
+      }
+      // Reopened jobs have no full-video bytes, so fall back to analyzing the stored frame.
+      const data = ctx.sourceBase64 || ctx.frameBase64!;
+      const mimeType = ctx.sourceBase64 ? ctx.sourceMimeType || 'video/mp4' : 'image/png';
+      return { analysis: await analyzeVideoContent(data, mimeType, options) };
+    },
+  },
+  {
+    id: 'review_prompt',
+    label: 'Reviewing generation prompt',
+    message: 'Waiting for prompt review...',
+    inputs: ['analysis'],
+    outputs: ['promptRecord'],
+    weight: 0,
+    retryable: true,
+    run: async (ctx, { signal }) => {
+      if (ctx.reviewPrompt) return { promptRecord: await ctx.reviewPrompt(ctx.analysis!, signal) };
+      const template = BUILTIN_TEMPLATES[0];
+      return { promptRecord: buildPromptRecord(template, withStyleValues({ ...template.defaults, analysis: ctx.analysis! }, ctx.style)) };
+    },
+  },
+  {
+    id: 'plan_segments',
+    label: 'Planning segments',
+    message: 'Planning segments...',
+    inputs: ['analysis'],
+    outputs: [],
+    // Long sources only; a single clip needs no plan.
+    optionalOutputs: ['segmentPlan', 'segmentVideos'],
+    weight: 5,
+    retryable: true,
+    run: async (ctx, { report, signal }) => {
+      if (!isSegmented(ctx)) return {};
+      const ranges = ctx.segmentRanges!;
+      const descriptions = await describeVideoSegments(ctx.analysis!, ranges, {
+        signal,
+        onRetry: retryReporter(report),
+        trace: traceFor(ctx, 'plan_segments'),
+      });
+      return {
+        segmentPlan: ranges.map((range, index) => ({ ...range, description: descriptions[index] })),
+        segmentVideos: [],
+      };
+    },
+  },
+  {
+    id: 'clean_frame',
+    label: 'Removing watermark artifacts',
+    message: 'Reconstructing clean keyframes...',
+    inputs: ['frameBase64', 'settings'],
+    outputs: ['cleanedFrameBase64'],
+    weight: 20,
+    retryable: true,
+    run: async (ctx, { report, signal }) => ({
+      cleanedFrameBase64: await cleanFrame(ctx.frameBase64!, 'image/png', {
+        signal,
+        onRetry: retryReporter(report),
+        trace: traceFor(ctx, 'clean_frame'),
+        aspectRatio: ctx.settings.aspectRatio,
+        style: ctx.style && frameStyle(ctx.style),
+      }),
+    }),
+  },
+  GENERATE_STAGE,
+  APPLY_AUDIO_STAGE,
+];
+
+// Create mode: the user's prompt (and still, if any) goes straight to Veo, then
+// through the same audio policy. The prompt record is built before the run.
+export const CREATION_STAGES: PipelineStage<RestorationContext>[] = [
+  {
+    ...GENERATE_STAGE,
+    label: 'Generating video',
+    message: 'Generating video with Veo...',
+    inputs: ['promptRecord', 'settings'],
+  },
+  APPLY_AUDIO_STAGE,
+];
@@ -0,0 +1,126 @@
+// Local, content-addressed cache of analysis text and reconstructed keyframes,
+// backed by IndexedDB in the browser. Entries are keyed by a SHA-256 of the request:
+// provider, call, models and prompts, then the input bytes. The same clip analyzed
+// again (e.g. re-run with other settings) is answered from here without a model call.
+
+export interface ResultCacheStore {
+  read: (key: string) => Promise<string | undefined>;
+  write: (key: string, value: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const DB_NAME = 'soracleaner-cache';
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+
+// Least recently used entries beyond this are dropped; keyframes are ~1-2MB each.
+const MAX_ENTRIES = 200;
+
+interface CachedResult {
+  key: string;
+  value: string;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+          const store = db.createObjectStore(RESULTS_STORE, { keyPath: 'key' });
+          store.createIndex('lastUsedAt', 'lastUsedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return requestToPromise(run(db.transaction(RESULTS_STORE, mode).objectStore(RESULTS_STORE)));
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// Hex SHA-256 of the request description followed by each input's decoded bytes.
+// Input lengths are part of the description, so inputs can't run into each other.
+export const resultCacheKey = async (parts: string[], inputsBase64: string[]): Promise<string> => {
+  const inputs = inputsBase64.map(base64ToBytes);
+  const header = new TextEncoder().encode(
+    JSON.stringify({ parts, lengths: inputs.map((input) => input.length) }) + '\n'
+  );
+  const data = new Uint8Array(header.length + inputs.reduce((sum, input) => sum + input.length, 0));
+  data.set(header);
+  let offset = header.length;
+  for (const input of inputs) {
+    data.set(input, offset);
+    offset += input.length;
+  }
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+const indexedDbStore: ResultCacheStore = {
+  read: async (key) => {
+    const entry = await withStore('readonly', (store) => store.get(key) as IDBRequest<CachedResult | undefined>);
+    if (!entry) return undefined;
+    await withStore('readwrite', (store) => store.put({ ...entry, lastUsedAt: Date.now() }));
+    return entry.value;
+  },
+  write: async (key, value) => {
+    const now = Date.now();
+    await withStore('readwrite', (store) => store.put({ key, value, createdAt: now, lastUsedAt: now } satisfies CachedResult));
+    const keys = await withStore('readonly', (store) => store.index('lastUsedAt').getAllKeys());
+    // Oldest first, so the excess is at the front.
+    for (const stale of keys.slice(0, Math.max(0, keys.length - MAX_ENTRIES))) {
+      await withStore('readwrite', (store) => store.delete(stale));
+    }
+  },
+  clear: async () => {
+    await withStore('readwrite', (store) => store.clear());
+  },
+};
+
+let activeStore: ResultCacheStore | null | undefined;
+
+// IndexedDB where there is one; elsewhere nothing is cached unless a store is set.
+export const getResultCacheStore = (): ResultCacheStore | null => {
+  if (activeStore === undefined) activeStore = typeof indexedDB !== 'undefined' ? indexedDbStore : null;
+  return activeStore;
+};
+
+// Replaces the store, e.g. with a directory on disk (see cli/); null turns caching off.
+export const setResultCacheStore = (store: ResultCacheStore | null) => {
+  activeStore = store;
+};
+
+export const clearResultCache = async (): Promise<void> => {
+  await getResultCacheStore()?.clear();
+};
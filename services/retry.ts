@@ -0,0 +1,29 @@
+import { GenerationError, RETRY_POLICIES, classifyError, retryDelayMs } from "./errors";
+import { sleep } from "./polling";
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+  // Checked before each retry, e.g. to refuse once a billable operation has started.
+  canRetry?: (error: GenerationError) => boolean;
+}
+
+// Runs `fn`, retrying per the retry policy of the classified error kind. The final
+// failure is rethrown as a GenerationError; aborts are rethrown as-is.
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  { signal, onRetry, canRetry }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (raw) {
+      const error = classifyError(raw);
+      if (!(error instanceof GenerationError)) throw error;
+      if (attempt > RETRY_POLICIES[error.kind].retries || (canRetry && !canRetry(error))) throw error;
+      const delayMs = retryDelayMs(error, attempt);
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,33 @@
+import { SegmentPlanItem, SegmentRange } from "../types";
+
+// Long sources are regenerated as consecutive Veo clips, each covering one time
+// range of the source and seeded from the last frame of the clip before it, then
+// joined. Veo's video-extension input isn't used: its outputs repeat the clip they
+// extend, and it is only offered for some models.
+
+// More segments than this are not planned; the rest of the source is dropped.
+export const MAX_SEGMENTS = 6;
+
+// Splits the source into ranges of one generated clip each. A single range means
+// the source fits in one clip and no segmentation is needed.
+export const planSegmentRanges = (sourceSeconds: number, segmentSeconds: number): SegmentRange[] => {
+  if (!Number.isFinite(sourceSeconds) || sourceSeconds <= segmentSeconds) {
+    return [{ startSeconds: 0, endSeconds: Math.min(sourceSeconds, segmentSeconds) || segmentSeconds }];
+  }
+  const count = Math.min(MAX_SEGMENTS, Math.ceil(sourceSeconds / segmentSeconds));
+  return Array.from({ length: count }, (_, i) => ({
+    startSeconds: i * segmentSeconds,
+    endSeconds: Math.min(sourceSeconds, (i + 1) * segmentSeconds),
+  }));
+};
+
+const formatSeconds = (seconds: number) => `${Math.round(seconds * 10) / 10}s`;
+
+// The run's prompt narrowed to one segment's part of the scene.
+export const segmentPrompt = (basePrompt: string, item: SegmentPlanItem, index: number, count: number): string =>
+  [
+    basePrompt,
+    `This is part ${index + 1} of ${count} of a continuous shot, covering ${formatSeconds(item.startSeconds)}–${formatSeconds(item.endSeconds)} of the original.`,
+    `During this part: ${item.description}`,
+    index > 0 ? 'The start frame is the last frame of the previous part; continue its motion, lighting and camera without a cut.' : '',
+  ].filter(Boolean).join('\n\n');
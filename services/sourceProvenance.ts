@@ -0,0 +1,232 @@
+import { ProvenanceTag, SourceProvenance } from "../types";
+import { listMp4Boxes, sniffVideoContainer } from "./videoContainer";
+import { verifyProvenance } from "./provenance";
+
+// Reads what an input file says about its own origin: C2PA manifest stores, this
+// app's export manifests, container metadata (MP4 'ilst'/'udta' items, WebM
+// muxing info and tags) and XMP packets. Nothing is validated against a trust
+// list; the findings are shown to the user before they attest their rights.
+
+const C2PA_UUID = 'd8fec3d61b0e483c92975828877ec481';
+const XMP_UUID = 'be7acfcb97a942e89c71999491e3afac';
+
+// Metadata boxes larger than this are skipped rather than read into memory.
+const MAX_METADATA_BYTES = 32 * 1024 * 1024;
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder();
+
+// iTunes-style item types, and the QuickTime user data atoms of the same name.
+const MP4_ITEMS: Record<string, string> = {
+  '©too': 'Encoder',
+  '©swr': 'Software',
+  '©nam': 'Title',
+  '©ART': 'Artist',
+  '©day': 'Date',
+  '©cmt': 'Comment',
+  '©des': 'Description',
+  '©mak': 'Make',
+  '©mod': 'Model',
+  cprt: 'Copyright',
+  desc: 'Description',
+};
+
+const XMP_PROPERTIES: Record<string, string> = {
+  'xmp:CreatorTool': 'Creator tool',
+  'dc:creator': 'Creator',
+  'dc:rights': 'Rights',
+  'xmpRights:UsageTerms': 'Usage terms',
+  'xmpRights:WebStatement': 'Rights statement',
+  'photoshop:Credit': 'Credit',
+  'Iptc4xmpExt:DigitalSourceType': 'Digital source type',
+};
+
+// WebM element ids (as hex) for muxing info and SimpleTag name/value.
+const WEBM_MUXING_APP = [0x4d, 0x80];
+const WEBM_WRITING_APP = [0x57, 0x41];
+const WEBM_TAG_NAME = [0x45, 0xa3];
+const WEBM_TAG_STRING = [0x44, 0x87];
+
+// Names that mark a file as the output of a generative video tool.
+const GENERATOR_NAMES = ['SoraCleaner', 'Sora', 'OpenAI', 'Veo', 'Runway', 'Pika', 'Kling', 'Luma', 'Dream Machine'];
+
+const readBytes = async (blob: Blob, start: number, end: number) =>
+  new Uint8Array(await blob.slice(start, end).arrayBuffer());
+
+const clean = (value: string) => value.replace(/\0/g, '').trim();
+
+// Finds item boxes anywhere in a 'moov' box: either [size][type][size]['data'][flags][locale][value]
+// (iTunes 'ilst') or [size][type][length][language][value] (QuickTime 'udta').
+const readMp4Items = (moov: Uint8Array): ProvenanceTag[] => {
+  const tags: ProvenanceTag[] = [];
+  const view = new DataView(moov.buffer, moov.byteOffset, moov.byteLength);
+  for (let i = 4; i + 12 <= moov.length; i++) {
+    const label = MP4_ITEMS[latin1.decode(moov.subarray(i, i + 4))];
+    if (!label) continue;
+    const size = view.getUint32(i - 4);
+    if (size < 12 || i - 4 + size > moov.length) continue;
+    const end = i - 4 + size;
+    let value: string;
+    if (latin1.decode(moov.subarray(i + 8, i + 12)) === 'data') {
+      value = utf8.decode(moov.subarray(i + 20, end));
+    } else {
+      const length = view.getUint16(i + 4);
+      if (i + 8 + length > end) continue;
+      value = utf8.decode(moov.subarray(i + 8, i + 8 + length));
+    }
+    value = clean(value);
+    if (value) tags.push({ source: 'container', name: label, value });
+    i = end - 5;
+  }
+  return tags;
+};
+
+const stripTags = (xml: string) => xml.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Pulls known properties out of an XMP packet, as attributes or elements.
+const readXmp = (text: string): ProvenanceTag[] => {
+  const start = text.indexOf('<x:xmpmeta');
+  const end = text.indexOf('</x:xmpmeta>', start);
+  if (start < 0 || end < 0) return [];
+  const packet = text.slice(start, end);
+  const tags: ProvenanceTag[] = [];
+  for (const [property, name] of Object.entries(XMP_PROPERTIES)) {
+    const attribute = packet.match(new RegExp(`${property}="([^"]*)"`));
+    const element = packet.match(new RegExp(`<${property}>([\\s\\S]*?)</${property}>`));
+    const value = clean(attribute?.[1] ?? (element ? stripTags(element[1]) : ''));
+    if (value) tags.push({ source: 'xmp', name, value });
+  }
+  return tags;
+};
+
+// Reads the text after a CBOR map key (as C2PA claims encode claim_generator).
+const readCborText = (bytes: Uint8Array, key: string): string | undefined => {
+  const text = latin1.decode(bytes);
+  const at = text.indexOf(key);
+  if (at < 0) return undefined;
+  let i = at + key.length;
+  const head = bytes[i];
+  let length: number;
+  if (head >= 0x60 && head <= 0x77) {
+    length = head - 0x60;
+    i += 1;
+  } else if (head === 0x78) {
+    length = bytes[i + 1];
+    i += 2;
+  } else {
+    return undefined;
+  }
+  return clean(utf8.decode(bytes.subarray(i, i + length))) || undefined;
+};
+
+// Size of an EBML variable-length integer and its value.
+const readVint = (bytes: Uint8Array, at: number): { length: number; value: number } | null => {
+  const first = bytes[at];
+  if (!first) return null;
+  const length = Math.clz32(first) - 23;
+  if (length < 1 || length > 8 || at + length > bytes.length) return null;
+  let value = first & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[at + i];
+  return { length, value };
+};
+
+const readWebmStrings = (bytes: Uint8Array, id: number[]): string[] => {
+  const values: string[] = [];
+  for (let i = 0; i + 3 <= bytes.length; i++) {
+    if (bytes[i] !== id[0] || bytes[i + 1] !== id[1]) continue;
+    const size = readVint(bytes, i + 2);
+    if (!size || size.value > 1024) continue;
+    const start = i + 2 + size.length;
+    const value = clean(utf8.decode(bytes.subarray(start, start + size.value)));
+    // Require printable text, since two-byte ids also occur inside binary data.
+    if (value && /^[\x20-\x7e\u00a0-\uffff]+$/.test(value)) values.push(value);
+  }
+  return values;
+};
+
+const readWebmTags = async (file: Blob): Promise<ProvenanceTag[]> => {
+  const head = await readBytes(file, 0, 1024 * 1024);
+  const tags: ProvenanceTag[] = [
+    ...readWebmStrings(head, WEBM_MUXING_APP).map((value) => ({ source: 'container' as const, name: 'Muxing app', value })),
+    ...readWebmStrings(head, WEBM_WRITING_APP).map((value) => ({ source: 'container' as const, name: 'Writing app', value })),
+  ];
+  // Tags usually follow the clusters, at the end of the file.
+  const tail = file.size > head.length ? await readBytes(file, Math.max(head.length, file.size - 1024 * 1024), file.size) : head;
+  const names = readWebmStrings(tail, WEBM_TAG_NAME);
+  const values = readWebmStrings(tail, WEBM_TAG_STRING);
+  names.forEach((name, index) => {
+    if (values[index]) tags.push({ source: 'container', name, value: values[index] });
+  });
+  return tags;
+};
+
+const inspectMp4 = async (file: Blob, result: SourceProvenance) => {
+  for (const box of await listMp4Boxes(file)) {
+    if (box.size > MAX_METADATA_BYTES) continue;
+    if (box.type === 'moov') {
+      const moov = await readBytes(file, box.offset, box.offset + box.size);
+      result.tags.push(...readMp4Items(moov), ...readXmp(utf8.decode(moov)));
+    } else if (box.uuid === XMP_UUID) {
+      result.tags.push(...readXmp(utf8.decode(await readBytes(file, box.offset + box.headerSize, box.offset + box.size))));
+    } else if (box.uuid === C2PA_UUID) {
+      const store = await readBytes(file, box.offset + box.headerSize, box.offset + box.size);
+      const claimGenerator = readCborText(store, 'claim_generator');
+      result.c2pa = { claimGenerator, aiGenerated: latin1.decode(store).includes('trainedAlgorithmicMedia') };
+      if (claimGenerator) result.tags.push({ source: 'c2pa', name: 'Claim generator', value: claimGenerator });
+    }
+  }
+
+  const own = await verifyProvenance(file);
+  if (own) {
+    const info = own.provenance.manifest.assertions.find((assertion) => assertion.label === 'ai.generative_info');
+    result.soraCleaner = {
+      created: own.provenance.manifest.created,
+      jobId: typeof info?.data.jobId === 'string' ? info.data.jobId : undefined,
+      signatureValid: own.signatureValid,
+      trustedKey: own.trustedKey,
+      hashMatches: own.hashMatches,
+      keyId: own.keyId,
+    };
+  }
+};
+
+const describeFindings = (result: SourceProvenance): string[] => {
+  const findings: string[] = [];
+  const own = result.soraCleaner;
+  if (own) {
+    const created = new Date(own.created).toLocaleString();
+    if (own.signatureValid && !own.trustedKey) {
+      findings.push(`This file claims to have been exported by SoraCleaner on ${created}, but its manifest is signed ` +
+        `with an untrusted key${own.keyId ? ` (${own.keyId})` : ''}, not this proxy's, so it may be forged.`);
+    } else {
+      findings.push(`This file was exported by SoraCleaner on ${created}` + (own.signatureValid && own.hashMatches
+        ? ' and its signed manifest verifies.'
+        : ', but its manifest does not verify; the file or manifest was changed.'));
+    }
+  }
+  if (result.c2pa) {
+    findings.push(`Contains a C2PA manifest${result.c2pa.claimGenerator ? ` from ${result.c2pa.claimGenerator}` : ''}` +
+      (result.c2pa.aiGenerated ? ' declaring it AI-generated.' : '.'));
+  }
+  for (const tag of result.tags) {
+    const generator = GENERATOR_NAMES.find((name) => tag.value.toLowerCase().includes(name.toLowerCase()));
+    if (generator) findings.push(`${tag.name} mentions ${generator}: "${tag.value}".`);
+    if (tag.name === 'Copyright' || tag.name === 'Rights' || tag.name === 'Usage terms') {
+      findings.push(`${tag.name}: "${tag.value}".`);
+    }
+  }
+  return Array.from(new Set(findings));
+};
+
+export const inspectSourceProvenance = async (file: Blob): Promise<SourceProvenance> => {
+  const result: SourceProvenance = { inspectedAt: Date.now(), tags: [], findings: [] };
+  const container = sniffVideoContainer(await readBytes(file, 0, 64));
+  try {
+    if (container === 'video/webm') result.tags.push(...await readWebmTags(file));
+    else if (container) await inspectMp4(file, result);
+  } catch (e) {
+    console.warn("Could not read source provenance", e);
+  }
+  result.findings = describeFindings(result);
+  return result;
+};
@@ -0,0 +1,104 @@
+import { StylePreset, StylePrompt, VeoConfig } from "../types";
+import { FRAME_IMAGE_PROMPT_SUFFIX } from "./modelPrompts";
+import { normalizeVeoConfig } from "./veoConfig";
+
+const STORAGE_KEY = 'soracleaner.stylePresets';
+
+export const DEFAULT_STYLE_ID = 'builtin-faithful';
+
+export const BUILTIN_STYLE_PRESETS: StylePreset[] = [
+  {
+    // The restoration look: photorealistic keyframe, cinematic video.
+    id: DEFAULT_STYLE_ID,
+    name: 'Faithful (default)',
+    frameModifier: FRAME_IMAGE_PROMPT_SUFFIX.trim(),
+    videoModifier: 'cinematic, high quality, consistent motion.',
+    negativePrompt: '',
+    config: {},
+    builtIn: true,
+  },
+  {
+    id: 'builtin-anime',
+    name: 'Anime',
+    frameModifier: 'anime key visual, cel shading, clean line art, vibrant flat colors, no text, no watermarks.',
+    videoModifier: 'anime style, cel-shaded animation, expressive motion, vibrant colors.',
+    negativePrompt: 'photorealistic, live action, 3D render, text, watermark',
+    config: {},
+    builtIn: true,
+  },
+  {
+    id: 'builtin-noir',
+    name: 'Film noir',
+    frameModifier: 'film noir still, black and white, high contrast, deep shadows, hard key light, 35mm film grain, no text, no watermarks.',
+    videoModifier: 'film noir, black and white, chiaroscuro lighting, slow moody camera moves, film grain.',
+    negativePrompt: 'color, saturated colors, flat lighting, text, watermark',
+    config: { durationSeconds: 8 },
+    builtIn: true,
+  },
+  {
+    id: 'builtin-claymation',
+    name: 'Claymation',
+    frameModifier: 'claymation, handmade plasticine figures, visible fingerprints, miniature set, soft studio lighting, no text, no watermarks.',
+    videoModifier: 'stop-motion claymation, plasticine characters, frame-by-frame motion, miniature set.',
+    negativePrompt: 'photorealistic, smooth CGI, motion blur, text, watermark',
+    config: { resolution: '720p' },
+    builtIn: true,
+  },
+  {
+    id: 'builtin-product',
+    name: 'Product shot',
+    frameModifier: 'studio product photography, seamless backdrop, softbox lighting, crisp focus, no text, no watermarks.',
+    videoModifier: 'clean studio product shot, slow orbiting camera, soft reflections, seamless background.',
+    negativePrompt: 'clutter, people, hands, busy background, text, watermark, logo',
+    config: { resolution: '1080p', aspectRatio: '16:9' },
+    builtIn: true,
+  },
+];
+
+const CONFIG_KEYS: (keyof VeoConfig)[] = ['model', 'resolution', 'aspectRatio', 'durationSeconds', 'numberOfVideos', 'audio'];
+
+const isPreset = (value: any): value is StylePreset =>
+  value &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.frameModifier === 'string' &&
+  typeof value.videoModifier === 'string' &&
+  typeof value.negativePrompt === 'string' &&
+  typeof value.config === 'object' &&
+  value.config !== null &&
+  Object.keys(value.config).every((key) => CONFIG_KEYS.includes(key as keyof VeoConfig));
+
+// User presets only; built-ins are always prepended by `loadStylePresets`.
+export const loadStylePresets = (): StylePreset[] => {
+  let saved: StylePreset[] = [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (Array.isArray(parsed)) saved = parsed.filter(isPreset);
+  } catch (e) {
+    console.warn("Ignoring unreadable style presets", e);
+  }
+  return [...BUILTIN_STYLE_PRESETS, ...saved.filter((p) => !p.builtIn)];
+};
+
+export const saveStylePresets = (presets: StylePreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter((p) => !p.builtIn)));
+};
+
+export const createStylePresetId = (): string =>
+  `style-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const findStylePreset = (presets: StylePreset[], id: string | undefined): StylePreset =>
+  presets.find((p) => p.id === id) || BUILTIN_STYLE_PRESETS[0];
+
+// The preset's settings over the current ones, snapped to what the model supports.
+export const applyStyleConfig = (config: VeoConfig, preset: StylePreset): VeoConfig =>
+  normalizeVeoConfig({ ...config, ...preset.config });
+
+export const frameStyle = (preset: StylePreset): StylePrompt => ({
+  modifier: preset.frameModifier,
+  negativePrompt: preset.negativePrompt || undefined,
+});
+
+// Template values with the preset's video modifier as `{style}`.
+export const withStyleValues = (values: Record<string, string>, preset: StylePreset | undefined): Record<string, string> =>
+  preset ? { ...values, style: preset.videoModifier } : values;
@@ -0,0 +1,96 @@
+import { JobRecord, RequestOptions, TraceSpan } from "../types";
+import { getProvider } from "./providers";
+import { errorKindOf } from "./errors";
+import { isAbortError } from "./polling";
+
+// Local run tracing: every service call attempt becomes a TraceSpan handed to the
+// caller's `trace.onSpan`. Nothing leaves the browser; spans are stored with the
+// job and can be exported as NDJSON.
+
+// Fields a call fills in while it runs (long-running generations and cached calls).
+export type SpanDetails = Pick<TraceSpan, 'operationName' | 'pollCount' | 'cache'>;
+
+// Decoded size of a base64 payload, without decoding it.
+export const base64Bytes = (base64: string): number =>
+  Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+let spanCounter = 0;
+const createSpanId = () => `${Date.now().toString(36)}-${(spanCounter++).toString(36)}`;
+
+// Wraps one attempt of a call. Returned as a thunk so it can sit inside withRetry
+// and record each retry as its own span.
+export const traced = <T>(
+  name: string,
+  { model, requestBytes }: { model: string; requestBytes: number },
+  { trace }: RequestOptions,
+  call: (details: SpanDetails) => Promise<T>
+): (() => Promise<T>) => {
+  let attempt = 0;
+  return async () => {
+    attempt += 1;
+    const details: SpanDetails = {};
+    if (!trace) return call(details);
+
+    const startedAt = Date.now();
+    const emit = (outcome: TraceSpan['outcome'], error?: unknown) => {
+      const finishedAt = Date.now();
+      trace.onSpan({
+        id: createSpanId(),
+        runId: trace.runId,
+        stageId: trace.stageId,
+        name,
+        provider: getProvider().id,
+        model,
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt - startedAt,
+        requestBytes,
+        attempt,
+        outcome,
+        ...(outcome === 'error' && {
+          errorKind: errorKindOf(error),
+          error: (error as Error)?.message || String(error),
+        }),
+        ...details,
+      });
+    };
+
+    try {
+      const result = await call(details);
+      emit('ok');
+      return result;
+    } catch (error) {
+      emit(isAbortError(error) ? 'cancelled' : 'error', error);
+      throw error;
+    }
+  };
+};
+
+// Calls answered from (hits) or missed by the local result cache.
+export const cacheStats = (spans: TraceSpan[]): { hits: number; misses: number } => ({
+  hits: spans.filter((span) => span.cache === 'hit').length,
+  misses: spans.filter((span) => span.cache === 'miss').length,
+});
+
+// One JSON object per line: a run header, then its spans in order.
+export const toNdjson = (job: JobRecord): string =>
+  [
+    {
+      type: 'run',
+      jobId: job.id,
+      parentJobId: job.parentJobId,
+      source: job.source.name,
+      status: job.status,
+      createdAt: new Date(job.createdAt).toISOString(),
+      settings: job.settings,
+      timings: job.timings,
+      usage: job.usage && { currency: job.usage.currency, total: job.usage.total },
+      error: job.error,
+      errorKind: job.errorKind,
+      attestation: job.attestation,
+      sourceProvenance: job.sourceProvenance && { findings: job.sourceProvenance.findings, tags: job.sourceProvenance.tags },
+      quality: job.quality?.map((report) => ({ candidateId: report.candidateId, ...report.summary })),
+      cache: cacheStats(job.trace || []),
+    },
+    ...(job.trace || []).map((span) => ({ type: 'span', ...span })),
+  ].map((record) => JSON.stringify(record)).join('\n') + '\n';
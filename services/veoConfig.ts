@@ -0,0 +1,143 @@
+import { AspectRatio, AudioPolicy, Resolution, VeoConfig, VeoModelId } from "../types";
+
+export interface VeoModelCapabilities {
+  label: string;
+  aspectRatios: AspectRatio[];
+  resolutions: Resolution[];
+  // Aspect ratios that may be rendered at 1080p (all supported ones if omitted).
+  fullHdAspectRatios?: AspectRatio[];
+  durations: number[];
+  maxVideos: number;
+  // Whether the model generates a soundtrack with the video.
+  audio: boolean;
+}
+
+// What each Veo model accepts. Anything outside this table is disabled in the UI
+// and rejected by `validateVeoConfig`.
+export const VEO_MODELS: Record<VeoModelId, VeoModelCapabilities> = {
+  'veo-3.1-fast-generate-preview': {
+    label: 'Veo 3.1 Fast',
+    aspectRatios: ['16:9', '9:16'],
+    resolutions: ['720p', '1080p'],
+    durations: [4, 6, 8],
+    maxVideos: 4,
+    audio: true,
+  },
+  'veo-3.1-generate-preview': {
+    label: 'Veo 3.1',
+    aspectRatios: ['16:9', '9:16'],
+    resolutions: ['720p', '1080p'],
+    durations: [4, 6, 8],
+    maxVideos: 4,
+    audio: true,
+  },
+  'veo-3.0-fast-generate-001': {
+    label: 'Veo 3 Fast',
+    aspectRatios: ['16:9', '9:16'],
+    resolutions: ['720p', '1080p'],
+    fullHdAspectRatios: ['16:9'],
+    durations: [8],
+    maxVideos: 2,
+    audio: true,
+  },
+  'veo-3.0-generate-001': {
+    label: 'Veo 3',
+    aspectRatios: ['16:9', '9:16'],
+    resolutions: ['720p', '1080p'],
+    fullHdAspectRatios: ['16:9'],
+    durations: [8],
+    maxVideos: 2,
+    audio: true,
+  },
+  'veo-2.0-generate-001': {
+    label: 'Veo 2',
+    aspectRatios: ['16:9', '9:16'],
+    resolutions: ['720p'],
+    durations: [5, 6, 7, 8],
+    maxVideos: 2,
+    audio: false,
+  },
+};
+
+export const ALL_ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16', '1:1', '3:4', '4:3'];
+
+export const DEFAULT_VEO_CONFIG: VeoConfig = {
+  model: 'veo-3.1-fast-generate-preview',
+  numberOfVideos: 1,
+  resolution: '720p',
+  aspectRatio: '16:9',
+  durationSeconds: 8,
+  audio: 'generate',
+};
+
+const ratioValue = (ratio: AspectRatio): number => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+// Picks the candidate ratio closest to the given dimensions (compared on a log scale,
+// so 2:1 and 1:2 are equally far from 1:1).
+export const closestAspectRatio = (
+  width: number,
+  height: number,
+  candidates: AspectRatio[] = ALL_ASPECT_RATIOS
+): AspectRatio => {
+  if (!width || !height) return candidates[0];
+  const target = Math.log(width / height);
+  return candidates.reduce((best, ratio) =>
+    Math.abs(Math.log(ratioValue(ratio)) - target) < Math.abs(Math.log(ratioValue(best)) - target)
+      ? ratio
+      : best
+  );
+};
+
+export const isResolutionAllowed = (
+  caps: VeoModelCapabilities,
+  resolution: Resolution,
+  aspectRatio: AspectRatio
+): boolean =>
+  caps.resolutions.includes(resolution) &&
+  (resolution !== '1080p' || !caps.fullHdAspectRatios || caps.fullHdAspectRatios.includes(aspectRatio));
+
+export const validateVeoConfig = (config: VeoConfig): string[] => {
+  const caps = VEO_MODELS[config.model];
+  if (!caps) return [`Unknown model '${config.model}'`];
+
+  const errors: string[] = [];
+  if (!caps.aspectRatios.includes(config.aspectRatio)) {
+    errors.push(`${caps.label} does not support the ${config.aspectRatio} aspect ratio`);
+  }
+  if (!isResolutionAllowed(caps, config.resolution, config.aspectRatio)) {
+    errors.push(`${caps.label} cannot render ${config.resolution} at ${config.aspectRatio}`);
+  }
+  if (!caps.durations.includes(config.durationSeconds)) {
+    errors.push(`${caps.label} supports durations of ${caps.durations.join(', ')}s`);
+  }
+  if (!Number.isInteger(config.numberOfVideos) || config.numberOfVideos < 1 || config.numberOfVideos > caps.maxVideos) {
+    errors.push(`${caps.label} can generate 1 to ${caps.maxVideos} videos per request`);
+  }
+  if ((config.audio ?? 'generate') === 'generate' && !caps.audio) {
+    errors.push(`${caps.label} does not generate audio`);
+  }
+  return errors;
+};
+
+// Snaps every field to the nearest value the model supports, so switching model
+// never leaves the settings in an invalid combination.
+export const normalizeVeoConfig = (config: VeoConfig): VeoConfig => {
+  const model = VEO_MODELS[config.model] ? config.model : DEFAULT_VEO_CONFIG.model;
+  const caps = VEO_MODELS[model];
+
+  const aspectRatio = caps.aspectRatios.includes(config.aspectRatio)
+    ? config.aspectRatio
+    : closestAspectRatio(ratioValue(config.aspectRatio), 1, caps.aspectRatios);
+  const resolution = isResolutionAllowed(caps, config.resolution, aspectRatio) ? config.resolution : '720p';
+  const durationSeconds = caps.durations.reduce((best, d) =>
+    Math.abs(d - config.durationSeconds) < Math.abs(best - config.durationSeconds) ? d : best
+  );
+  const numberOfVideos = Math.min(Math.max(Math.round(config.numberOfVideos) || 1, 1), caps.maxVideos);
+  const requested: AudioPolicy = config.audio ?? 'generate';
+  const audio = requested === 'generate' && !caps.audio ? 'mute' : requested;
+
+  return { ...config, model, aspectRatio, resolution, durationSeconds, numberOfVideos, audio };
+};
@@ -0,0 +1,103 @@
+// Container and codec detection from raw bytes. DOM-free, so the proxy's link
+// ingest (server/) and the browser's upload validation share it.
+
+const latin1 = new TextDecoder('latin1');
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  latin1.decode(bytes.subarray(start, Math.min(end, bytes.length)));
+
+// Identifies the container from its leading bytes rather than trusting the extension
+// or Content-Type. Returns null for anything the analysis model can't take.
+export const sniffVideoContainer = (bytes: Uint8Array): string | null => {
+  // ISO BMFF: [size]['ftyp'][major brand]. QuickTime uses the 'qt  ' brand.
+  if (bytes.length >= 12 && ascii(bytes, 4, 8) === 'ftyp') {
+    return ascii(bytes, 8, 12) === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+  }
+  // Older QuickTime files can start with other atoms.
+  if (bytes.length >= 8 && ['moov', 'mdat', 'wide', 'free', 'skip'].includes(ascii(bytes, 4, 8))) {
+    return 'video/quicktime';
+  }
+  // EBML header; only the WebM doctype is accepted, not generic Matroska.
+  if (bytes.length >= 4 && bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    return ascii(bytes, 0, 64).includes('webm') ? 'video/webm' : null;
+  }
+  return null;
+};
+
+export type VideoCodec = 'h264' | 'hevc' | 'vp8' | 'vp9' | 'av1' | 'mpeg4' | 'prores' | 'mjpeg';
+
+// Sample entry types (MP4/MOV 'stsd') and codec ids (WebM) per codec.
+const MP4_CODECS: Record<string, VideoCodec> = {
+  avc1: 'h264', avc3: 'h264',
+  hvc1: 'hevc', hev1: 'hevc',
+  vp08: 'vp8', vp09: 'vp9',
+  av01: 'av1',
+  mp4v: 'mpeg4',
+  apcn: 'prores', apch: 'prores', apcs: 'prores', apco: 'prores', ap4h: 'prores', ap4x: 'prores',
+  jpeg: 'mjpeg', mjpa: 'mjpeg',
+};
+
+const WEBM_CODECS: [string, VideoCodec][] = [
+  ['V_VP8', 'vp8'],
+  ['V_VP9', 'vp9'],
+  ['V_AV1', 'av1'],
+  ['V_MPEG4/ISO/AVC', 'h264'],
+];
+
+// Finds the video codec in an MP4/MOV 'moov' box (sample entry type follows 'stsd'
+// plus version/flags, entry count and entry size).
+export const findMp4VideoCodec = (moov: Uint8Array): VideoCodec | null => {
+  for (let i = 0; i + 20 <= moov.length; i++) {
+    if (moov[i] !== 0x73 || ascii(moov, i, i + 4) !== 'stsd') continue;
+    const codec = MP4_CODECS[ascii(moov, i + 16, i + 20)];
+    if (codec) return codec;
+  }
+  return null;
+};
+
+// Finds the video codec id in the head of a WebM file (Tracks precede the clusters).
+export const findWebmVideoCodec = (head: Uint8Array): VideoCodec | null => {
+  const text = ascii(head, 0, head.length);
+  return WEBM_CODECS.find(([id]) => text.includes(id))?.[1] || null;
+};
+
+export interface Mp4Box {
+  type: string;
+  offset: number;
+  size: number;
+  // 8, 16 with a 64-bit size; 'uuid' boxes add their 16-byte extended type on top.
+  headerSize: number;
+  // Extended type of 'uuid' boxes, hex.
+  uuid?: string;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// Lists the top-level boxes of an MP4/MOV file, reading only their headers, so
+// media data is never loaded. Stops at the first malformed header.
+export const listMp4Boxes = async (file: Blob): Promise<Mp4Box[]> => {
+  const boxes: Mp4Box[] = [];
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = new Uint8Array(await file.slice(offset, offset + 32).arrayBuffer());
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    const type = ascii(header, 4, 8);
+    let size = view.getUint32(0);
+    let headerSize = 8;
+    if (size === 1 && header.length >= 16) {
+      size = Number(view.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) break;
+    const box: Mp4Box = { type, offset, size, headerSize };
+    if (type === 'uuid' && header.length >= headerSize + 16) {
+      box.uuid = toHex(header.subarray(headerSize, headerSize + 16));
+      box.headerSize += 16;
+    }
+    boxes.push(box);
+    offset += size;
+  }
+  return boxes;
+};
@@ -0,0 +1,380 @@
+import { ConcatOptions } from "../types";
+import { createAbortError, throwIfAborted } from "./polling";
+
+// In-browser re-encoding: the source plays into a canvas that MediaRecorder captures,
+// so it works wherever the browser can decode the input. Runs in real time.
+
+export const pickRecorderMimeType = (withAudio = false): string => {
+  const candidates = withAudio
+    ? ['video/mp4;codecs=avc1,mp4a.40.2', 'video/webm;codecs=vp9,opus', 'video/mp4', 'video/webm']
+    : ['video/mp4;codecs=avc1', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm'];
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) || '';
+};
+
+// Decodes a file's audio track; null when it has none the browser can decode.
+export const decodeAudioTrack = async (source: Blob): Promise<AudioBuffer | null> => {
+  try {
+    // An offline context decodes without claiming an output device.
+    return await new OfflineAudioContext(2, 1, 48000).decodeAudioData(await source.arrayBuffer());
+  } catch {
+    return null;
+  }
+};
+
+// Fade applied where an audio track is cut, so it doesn't end on a click.
+const FADE_SECONDS = 0.25;
+
+// Audio track fed into a recording: plays decoded buffers into a MediaStream in real time.
+const createSoundtrack = () => {
+  const context = new AudioContext();
+  const destination = context.createMediaStreamDestination();
+  return {
+    tracks: destination.stream.getAudioTracks(),
+    // Plays `duration` seconds of the buffer, starting `offset` seconds into it, at
+    // `rate` times speed (pitch follows). Fades are in seconds of playback.
+    play: async (
+      buffer: AudioBuffer,
+      offset: number,
+      duration: number,
+      { rate = 1, fadeInSeconds = 0, fadeOutSeconds = FADE_SECONDS }: { rate?: number; fadeInSeconds?: number; fadeOutSeconds?: number } = {}
+    ) => {
+      await context.resume();
+      const length = Math.min(duration, buffer.duration - offset);
+      if (length <= 0) return;
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.playbackRate.value = rate;
+      const gain = context.createGain();
+      const start = context.currentTime;
+      const end = start + length / rate;
+      if (fadeInSeconds > 0) {
+        gain.gain.setValueAtTime(0, start);
+        gain.gain.linearRampToValueAtTime(1, Math.min(end, start + fadeInSeconds));
+      }
+      gain.gain.setValueAtTime(1, Math.max(start + Math.min(fadeInSeconds, length / rate), end - fadeOutSeconds));
+      gain.gain.linearRampToValueAtTime(0, end);
+      source.connect(gain).connect(destination);
+      source.start(start, offset, length);
+    },
+    close: () => context.close(),
+  };
+};
+
+// Opacity of the black drawn over a frame `elapsed` seconds into an output of
+// `total` seconds that fades in and out over `fade` seconds.
+export const fadeShade = (elapsed: number, total: number, fade: number): number =>
+  fade > 0 ? 1 - Math.max(0, Math.min(1, elapsed / fade, (total - elapsed) / fade)) : 0;
+
+export interface VideoMetadata {
+  durationSeconds: number;
+  width: number;
+  height: number;
+}
+
+// Loads a detached video element up to its first frame. Rejects if the browser
+// can't decode the file.
+export const loadVideo = (url: string, signal?: AbortSignal): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    const onAbort = () => {
+      video.removeAttribute('src');
+      reject(createAbortError());
+    };
+    video.onloadeddata = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(video);
+    };
+    video.onerror = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error(video.error?.message || "The browser cannot decode this video"));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    video.src = url;
+  });
+
+export const probeVideo = async (source: Blob, signal?: AbortSignal): Promise<VideoMetadata> => {
+  const url = URL.createObjectURL(source);
+  try {
+    const video = await loadVideo(url, signal);
+    return { durationSeconds: video.duration, width: video.videoWidth, height: video.videoHeight };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Region of the source frame, in source pixels.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TranscodeOptions {
+  // Start this many seconds into the source.
+  startSeconds?: number;
+  // Keep only N seconds of the source from the start.
+  maxDurationSeconds?: number;
+  // Region of the frame to keep, given the source's size; the whole frame by default.
+  crop?: (width: number, height: number) => CropRect;
+  // Scale down so the longer edge is at most this many pixels.
+  maxLongEdge?: number;
+  // Speed factor; the output is 1/rate as long as the range it covers.
+  playbackRate?: number;
+  // Fade in from and out to black (and the audio with it), seconds of output.
+  fadeSeconds?: number;
+  // Recorder type to use instead of the best supported one.
+  mimeType?: string;
+  videoBitsPerSecond?: number;
+  // Drawn over every frame after it is scaled, e.g. a disclosure badge.
+  overlay?: (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+  // Audio of the output (see decodeAudioTrack), played from `audioOffsetSeconds`
+  // and cut at the output's end. Without it the output is silent.
+  audio?: AudioBuffer | null;
+  audioOffsetSeconds?: number;
+  signal?: AbortSignal;
+  // Fraction of the output rendered so far, 0-1.
+  onProgress?: (fraction: number) => void;
+}
+
+export interface TranscodeResult extends VideoMetadata {
+  blob: Blob;
+  mimeType: string;
+}
+
+// Re-encodes (and optionally trims, crops, retimes or downscales) a video. The
+// source's own audio is not carried over; pass it (or another track) as `audio` to
+// keep sound.
+export const transcodeVideo = async (
+  source: Blob,
+  {
+    startSeconds = 0,
+    maxDurationSeconds,
+    crop,
+    maxLongEdge,
+    playbackRate = 1,
+    fadeSeconds = 0,
+    mimeType: requestedMimeType,
+    videoBitsPerSecond,
+    overlay,
+    audio,
+    audioOffsetSeconds = 0,
+    signal,
+    onProgress,
+  }: TranscodeOptions = {}
+): Promise<TranscodeResult> => {
+  const url = URL.createObjectURL(source);
+  const video = await loadVideo(url, signal).catch((error) => {
+    URL.revokeObjectURL(url);
+    throw error;
+  });
+
+  const region = crop?.(video.videoWidth, video.videoHeight) ?? { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight };
+  const scale = maxLongEdge ? Math.min(1, maxLongEdge / Math.max(region.width, region.height)) : 1;
+  // Encoders want even dimensions.
+  const width = Math.max(2, Math.round((region.width * scale) / 2) * 2);
+  const height = Math.max(2, Math.round((region.height * scale) / 2) * 2);
+  const startTime = Math.min(startSeconds, video.duration);
+  const endTime = Math.min(video.duration, startTime + (maxDurationSeconds ?? Infinity));
+  // Lengths in seconds of output.
+  const outputSeconds = (endTime - startTime) / playbackRate;
+  const fade = Math.min(fadeSeconds, outputSeconds / 2);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const mimeType = requestedMimeType ?? pickRecorderMimeType(Boolean(audio));
+  const stream = canvas.captureStream(30);
+  const soundtrack = audio ? createSoundtrack() : null;
+  soundtrack?.tracks.forEach((track) => stream.addTrack(track));
+  const recorder = new MediaRecorder(stream, {
+    ...(mimeType ? { mimeType } : {}),
+    ...(videoBitsPerSecond ? { videoBitsPerSecond } : {}),
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  let finished = false;
+  const stopped = new Promise<void>((resolve, reject) => {
+    recorder.onstop = () => resolve();
+    recorder.onerror = () => reject(new Error("Video re-encoding failed"));
+    video.onerror = () => reject(new Error("Playback failed while re-encoding"));
+  });
+  // Awaited once playback runs; an error before that must not go unhandled meanwhile.
+  stopped.catch(() => {});
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    video.pause();
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+  const onAbort = () => finish();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const draw = () => {
+    if (finished) return;
+    ctx.drawImage(video, region.x, region.y, region.width, region.height, 0, 0, width, height);
+    const shade = fadeShade((video.currentTime - startTime) / playbackRate, outputSeconds, fade);
+    if (shade > 0) {
+      ctx.fillStyle = `rgba(0, 0, 0, ${shade})`;
+      ctx.fillRect(0, 0, width, height);
+    }
+    overlay?.(ctx, width, height);
+    onProgress?.(endTime > startTime ? Math.min(1, (video.currentTime - startTime) / (endTime - startTime)) : 1);
+    if (video.ended || video.currentTime >= endTime) {
+      finish();
+    } else {
+      requestAnimationFrame(draw);
+    }
+  };
+  video.onended = () => finish();
+
+  try {
+    if (startTime > 0) {
+      // A playback error during the seek ends the wait too.
+      await Promise.race([
+        new Promise((resolve) => {
+          video.addEventListener('seeked', resolve, { once: true });
+          video.currentTime = startTime;
+        }),
+        stopped,
+      ]);
+    }
+    video.playbackRate = playbackRate;
+    recorder.start(1000);
+    await video.play();
+    if (audio) {
+      await soundtrack!.play(audio, audioOffsetSeconds, endTime - startTime, {
+        rate: playbackRate,
+        fadeInSeconds: fade,
+        fadeOutSeconds: Math.max(fade, FADE_SECONDS),
+      });
+    }
+    draw();
+    await stopped;
+    throwIfAborted(signal);
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    finish();
+    stream.getTracks().forEach((track) => track.stop());
+    soundtrack?.close();
+    video.removeAttribute('src');
+    URL.revokeObjectURL(url);
+  }
+
+  const type = recorder.mimeType || mimeType || 'video/webm';
+  return {
+    blob: new Blob(chunks, { type }),
+    mimeType: type.split(';')[0],
+    width,
+    height,
+    durationSeconds: outputSeconds,
+  };
+};
+
+// Plays the sources back to back into one recording at the first source's size,
+// with their audio. The recorder is paused while the next source loads, so timing
+// stays continuous.
+export const concatVideos = async (sources: Blob[], { signal, onProgress }: ConcatOptions = {}): Promise<TranscodeResult> => {
+  if (!sources.length) throw new Error("Nothing to join");
+  let canvas: HTMLCanvasElement | null = null;
+  let ctx: CanvasRenderingContext2D | null = null;
+  let recorder: MediaRecorder | null = null;
+  let stream: MediaStream | null = null;
+  const chunks: Blob[] = [];
+  let durationSeconds = 0;
+  const audioTracks = await Promise.all(sources.map(decodeAudioTrack));
+  const soundtrack = audioTracks.some(Boolean) ? createSoundtrack() : null;
+  const mimeType = pickRecorderMimeType(Boolean(soundtrack));
+
+  try {
+    for (let index = 0; index < sources.length; index++) {
+      const url = URL.createObjectURL(sources[index]);
+      try {
+        const video = await loadVideo(url, signal);
+        if (!canvas || !ctx) {
+          canvas = document.createElement('canvas');
+          canvas.width = Math.max(2, Math.round(video.videoWidth / 2) * 2);
+          canvas.height = Math.max(2, Math.round(video.videoHeight / 2) * 2);
+          ctx = canvas.getContext('2d');
+          if (!ctx) throw new Error("Canvas 2D context unavailable");
+          stream = canvas.captureStream(30);
+          soundtrack?.tracks.forEach((track) => stream!.addTrack(track));
+          recorder = new MediaRecorder(stream, mimeType ? { mimeType } : {});
+          recorder.ondataavailable = (e) => {
+            if (e.data.size > 0) chunks.push(e.data);
+          };
+          recorder.start(1000);
+        } else if (recorder?.state === 'paused') {
+          recorder.resume();
+        }
+
+        const drawCtx = ctx;
+        const target = canvas;
+        await new Promise<void>((resolve, reject) => {
+          // Ends the draw loop; the recorder is stopped by the outer finally.
+          let settled = false;
+          const fail = (error: Error) => {
+            if (settled) return;
+            settled = true;
+            signal?.removeEventListener('abort', onAbort);
+            video.pause();
+            reject(error);
+          };
+          const onAbort = () => fail(createAbortError());
+          signal?.addEventListener('abort', onAbort, { once: true });
+          const draw = () => {
+            if (settled) return;
+            drawCtx.drawImage(video, 0, 0, target.width, target.height);
+            onProgress?.(index, video.duration ? Math.min(1, video.currentTime / video.duration) : 0);
+            if (video.ended) {
+              settled = true;
+              signal?.removeEventListener('abort', onAbort);
+              resolve();
+            } else {
+              requestAnimationFrame(draw);
+            }
+          };
+          video.onerror = () => fail(new Error(`Playback failed while joining segment ${index + 1}`));
+          const audio = audioTracks[index];
+          video.play()
+            .then(() => audio && soundtrack!.play(audio, 0, video.duration))
+            .then(draw, fail);
+        });
+        durationSeconds += video.duration;
+        if (recorder?.state === 'recording') recorder.pause();
+        video.removeAttribute('src');
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }
+
+    const active = recorder!;
+    await new Promise<void>((resolve, reject) => {
+      active.onstop = () => resolve();
+      active.onerror = () => reject(new Error("Video re-encoding failed"));
+      active.stop();
+    });
+  } finally {
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    stream?.getTracks().forEach((track) => track.stop());
+    soundtrack?.close();
+  }
+
+  const type = recorder?.mimeType || mimeType || 'video/webm';
+  return {
+    blob: new Blob(chunks, { type }),
+    mimeType: type.split(';')[0],
+    width: canvas!.width,
+    height: canvas!.height,
+    durationSeconds,
+  };
+};
@@ -0,0 +1,71 @@
+// Animated WebP from still WebP images (canvas.toBlob output): a VP8X header with
+// the animation flag, an ANIM chunk, then one ANMF chunk per frame wrapping the
+// still's image chunks. Browsers have no animated WebP encoder of their own.
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const uint24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+const chunk = (id: string, payload: Uint8Array): Uint8Array => {
+  // Chunks are padded to an even length; the size field leaves the pad out.
+  const bytes = new Uint8Array(8 + payload.length + (payload.length & 1));
+  bytes.set(new TextEncoder().encode(id), 0);
+  new DataView(bytes.buffer).setUint32(4, payload.length, true);
+  bytes.set(payload, 8);
+  return bytes;
+};
+
+// The image chunks of a still (ALPH, VP8 or VP8L, with their headers), dropping
+// VP8X and metadata, which have no place inside a frame.
+const imageChunks = (still: Uint8Array): { bytes: Uint8Array[]; alpha: boolean } => {
+  if (fourCC(still, 0) !== 'RIFF' || fourCC(still, 8) !== 'WEBP') throw new Error("Frame is not a WebP image");
+  const view = new DataView(still.buffer, still.byteOffset, still.byteLength);
+  const bytes: Uint8Array[] = [];
+  let alpha = false;
+  for (let offset = 12; offset + 8 <= still.length;) {
+    const id = fourCC(still, offset);
+    const end = offset + 8 + view.getUint32(offset + 4, true);
+    if (id === 'ALPH' || id === 'VP8 ' || id === 'VP8L') {
+      bytes.push(still.subarray(offset, Math.min(still.length, end + (end & 1))));
+      alpha ||= id !== 'VP8 ';
+    }
+    offset = end + (end & 1);
+  }
+  if (!bytes.length) throw new Error("WebP frame has no image data");
+  return { bytes, alpha };
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Looping animation of `frames`, each a still WebP of width x height shown for `delayMs`.
+export const muxAnimatedWebp = (frames: Uint8Array[], width: number, height: number, delayMs: number): Blob => {
+  const stills = frames.map(imageChunks);
+  const duration = Math.max(1, Math.round(delayMs));
+  const anmf = stills.map(({ bytes }) =>
+    chunk('ANMF', concat([
+      // Offset 0,0, full canvas, no blending with the previous frame.
+      Uint8Array.from([...uint24(0), ...uint24(0), ...uint24(width - 1), ...uint24(height - 1), ...uint24(duration), 0x02]),
+      ...bytes,
+    ]))
+  );
+  const flags = 0x02 | (stills.some((still) => still.alpha) ? 0x10 : 0);
+  const body = concat([
+    new TextEncoder().encode('WEBP'),
+    chunk('VP8X', Uint8Array.from([flags, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)])),
+    // Black background, loop forever.
+    chunk('ANIM', Uint8Array.from([0, 0, 0, 0xff, 0, 0])),
+    ...anmf,
+  ]);
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return new Blob([header, body], { type: 'image/webp' });
+};
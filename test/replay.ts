@@ -0,0 +1,79 @@
+import { vi } from 'vitest';
+
+// Replays recorded HTTP exchanges in order, in place of `fetch`. Each request must
+// match the next recorded one (method and path); anything else fails the test, so
+// nothing ever reaches the network.
+
+export interface RecordedExchange {
+  request: {
+    method: string;
+    // Path, optionally with query, e.g. '/api/operation?name=...'. Absolute for upstream calls.
+    url: string;
+  };
+  response: {
+    status: number;
+    headers?: Record<string, string>;
+    // JSON body, or raw bytes as base64 for media.
+    body?: unknown;
+    bodyBase64?: string;
+  };
+}
+
+export interface Fixture {
+  description: string;
+  exchanges: RecordedExchange[];
+}
+
+export interface Replay {
+  fetch: ReturnType<typeof vi.fn>;
+  // Requests made so far, as method and URL.
+  requests: { method: string; url: string; body?: unknown }[];
+  // Recorded exchanges not requested yet.
+  pending: () => RecordedExchange[];
+}
+
+const pathOf = (url: string) => {
+  const parsed = new URL(url, 'http://localhost');
+  return /^https?:/.test(url) ? `${parsed.origin}${parsed.pathname}${parsed.search}` : `${parsed.pathname}${parsed.search}`;
+};
+
+const toResponse = ({ status, headers = {}, body, bodyBase64 }: RecordedExchange['response']): Response => {
+  if (bodyBase64 !== undefined) {
+    return new Response(Buffer.from(bodyBase64, 'base64'), { status, headers });
+  }
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+};
+
+export const replay = (...fixtures: Fixture[]): Replay => {
+  const queue = fixtures.flatMap((fixture) => fixture.exchanges);
+  const requests: Replay['requests'] = [];
+
+  const fetch = vi.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = (init.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const signal = init.signal || (input instanceof Request ? input.signal : undefined);
+    if (signal?.aborted) throw new DOMException("The operation was aborted.", 'AbortError');
+
+    let body: unknown;
+    if (typeof init.body === 'string') {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        body = init.body;
+      }
+    }
+    requests.push({ method, url, body });
+
+    const next = queue.shift();
+    const actual = `${method} ${pathOf(url)}`;
+    if (!next) throw new Error(`Unexpected request ${actual}; no recorded exchanges left`);
+    const expected = `${next.request.method.toUpperCase()} ${pathOf(next.request.url)}`;
+    if (expected !== actual) throw new Error(`Unexpected request ${actual}; expected ${expected}`);
+    return toResponse(next.response);
+  });
+
+  return { fetch, requests, pending: () => [...queue] };
+};
@@ -0,0 +1,35 @@
+import '@testing-library/jest-dom/vitest';
+import 'fake-indexeddb/auto';
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { webcrypto } from 'node:crypto';
+
+// jsdom lacks object URLs and Blob.arrayBuffer, and its `crypto` may lack
+// `subtle` (provenance manifests are hashed and verified with it).
+if (typeof URL.createObjectURL !== 'function') {
+  let next = 0;
+  URL.createObjectURL = () => `blob:test/${++next}`;
+  URL.revokeObjectURL = () => {};
+}
+if (typeof Blob !== 'undefined' && !Blob.prototype.arrayBuffer) {
+  Blob.prototype.arrayBuffer = function (this: Blob) {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new FileReader();
+      // Copied into a Node Buffer: webcrypto rejects ArrayBuffers from jsdom's realm.
+      reader.onload = () => {
+        const bytes = Buffer.from(new Uint8Array(reader.result as ArrayBuffer));
+        resolve(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+      };
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+}
+if (!globalThis.crypto?.subtle) {
+  vi.stubGlobal('crypto', webcrypto);
+}
+
+afterEach(() => {
+  cleanup();
+  globalThis.localStorage?.clear();
+});
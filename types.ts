@@ -1,7 +1,26 @@
+export type VeoModelId =
+  | 'veo-3.1-fast-generate-preview'
+  | 'veo-3.1-generate-preview'
+  | 'veo-3.0-fast-generate-001'
+  | 'veo-3.0-generate-001'
+  | 'veo-2.0-generate-001';
+
+export type AspectRatio = '16:9' | '9:16' | '1:1' | '3:4' | '4:3';
+
+export type Resolution = '720p' | '1080p';
+
+// What the output's soundtrack is: the source's original audio, whatever the model
+// generates from the prompt, or nothing.
+export type AudioPolicy = 'keep' | 'generate' | 'mute';
+
 export interface VeoConfig {
+  model: VeoModelId;
   numberOfVideos: number;
-  resolution: '720p' | '1080p';
-  aspectRatio: '16:9' | '9:16' | '1:1' | '3:4' | '4:3';
+  resolution: Resolution;
+  aspectRatio: AspectRatio;
+  durationSeconds: number;
+  // Defaults to 'generate' (what Veo returns), as in jobs recorded before the option.
+  audio?: AudioPolicy;
   image?: {
     imageBytes: string;
     mimeType: string;
@@ -17,13 +36,45 @@ export interface GeneratedVideo {
 
 export interface VeoResponse {
   generatedVideos?: GeneratedVideo[];
+  // Set when safety filters removed some or all outputs.
+  raiMediaFilteredCount?: number;
+  raiMediaFilteredReasons?: string[];
+}
+
+// One generated output of a run. Runs may request several and keep them all.
+export interface VideoCandidate {
+  id: string;
+  url: string;
+  expirationTime?: string;
+  // User rating, 1-5.
+  rating?: number;
 }
 
+// Failure categories shared by the proxy and the client (see services/errors.ts).
+export type ErrorKind = 'auth' | 'quota' | 'safety' | 'invalid_input' | 'timeout' | 'upstream' | 'network' | 'unknown';
+
 export interface ProcessingState {
-  status: 'idle' | 'analyzing' | 'cleaning_frame' | 'generating' | 'completed' | 'error';
+  status: 'idle' | 'running' | 'completed' | 'error';
+  // Id of the pipeline stage that is running (or failed).
+  stageId?: string;
   message: string;
   progress: number;
   error?: string;
+  // Whether the failed stage can be retried from where it stopped.
+  retryable?: boolean;
+  errorKind?: ErrorKind;
+  // Suggested wait before retrying (quota errors).
+  retryAfterMs?: number;
+}
+
+// Create mode: a clip generated from a prompt alone or from a still plus a prompt,
+// with no source video to restore.
+export interface CreationInput {
+  prompt: string;
+  // Still the clip starts from, base64 (PNG, JPEG or WebP).
+  imageBase64?: string;
+  imageMimeType?: string;
+  imageName?: string;
 }
 
 export interface VideoData {
@@ -32,4 +83,459 @@ export interface VideoData {
   previewUrl: string | null;
   base64Data?: string;
   mimeType?: string;
+  // Stored seed frame (base64 PNG), used when there is no playable source, e.g. a reopened job.
+  frameBase64?: string;
+  // Checks run on the input before it was accepted; base64Data may be a normalized copy.
+  validation?: VideoValidationReport;
+  // Provenance metadata found in the file as selected.
+  provenance?: SourceProvenance;
+  // Set in Create mode instead of a video (file, url and previewUrl are null).
+  creation?: CreationInput;
+}
+
+export type ValidationIssueCode =
+  | 'file_too_large'
+  | 'unsupported_container'
+  | 'unknown_codec'
+  | 'unsupported_codec'
+  | 'undecodable'
+  | 'too_long'
+  | 'too_short'
+  | 'resolution_too_high'
+  | 'resolution_too_low'
+  | 'audio_dropped';
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+// Result of checking an input video before analysis.
+export interface VideoValidationReport {
+  fileName: string;
+  size: number;
+  // Sniffed from the file's bytes, e.g. 'video/mp4'.
+  container: string | null;
+  codec: string | null;
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+  issues: ValidationIssue[];
+  // 'normalize': usable once trimmed/downscaled/re-encoded in the browser.
+  verdict: 'ok' | 'normalize' | 'reject';
+  // What the analysis copy looks like after normalization.
+  normalized?: {
+    size: number;
+    mimeType: string;
+    durationSeconds: number;
+    width: number;
+    height: number;
+  };
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Called before each automatic retry of a transient failure.
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+  // Records a span per call attempt (see services/tracing.ts).
+  trace?: TraceOptions;
+}
+
+export interface TraceOptions {
+  // History job and pipeline stage the call belongs to.
+  runId?: string;
+  stageId?: string;
+  onSpan: (span: TraceSpan) => void;
+}
+
+// One attempt of one service call, as recorded by the local tracer.
+export interface TraceSpan {
+  id: string;
+  runId?: string;
+  stageId?: string;
+  // Service call, e.g. 'analyzeVideo' or 'generateVideo'.
+  name: string;
+  provider: ProviderId;
+  model: string;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  // Decoded size of the media sent with the request.
+  requestBytes: number;
+  // 1 for the first attempt, counting automatic retries.
+  attempt: number;
+  outcome: 'ok' | 'error' | 'cancelled';
+  errorKind?: ErrorKind;
+  error?: string;
+  // Long-running generations only.
+  operationName?: string;
+  pollCount?: number;
+  // Cached calls only: whether the result came from the local result cache.
+  cache?: 'hit' | 'miss';
+}
+
+export interface FrameOptions extends RequestOptions {
+  // Aspect ratio of the reconstructed frame; should match the video settings.
+  aspectRatio?: AspectRatio;
+  // Style of the reconstruction; without it the frame is rendered photorealistic.
+  style?: StylePrompt;
+}
+
+// What a style preset adds to one image or video request.
+export interface StylePrompt {
+  // Appended to the prompt.
+  modifier?: string;
+  // What the output should avoid.
+  negativePrompt?: string;
+}
+
+export interface GenerateVideoOptions extends RequestOptions {
+  config?: VeoConfig;
+  // MIME type of the start frame; PNG unless given (reconstructed keyframes are PNG).
+  startFrameMimeType?: string;
+  // What the video should avoid (the style preset's negative prompt).
+  negativePrompt?: string;
+  // History job the generation belongs to, kept with the pending operation so a
+  // resumed run can complete the right job.
+  jobId?: string;
+  // Position of this generation in a segmented run; a resumed part alone is not the output.
+  segment?: { index: number; count: number };
+  onProgress?: (msg: string) => void;
+  // Called with the long-running operation name as soon as it is known.
+  onOperationStarted?: (operationName: string) => void;
+  // Called after each status poll of the operation.
+  onPoll?: (attempt: number) => void;
+  // Overall time budget for the generation, including polling.
+  timeoutMs?: number;
+}
+
+// Time range of the source one generated segment covers.
+export interface SegmentRange {
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface SegmentPlanItem extends SegmentRange {
+  description: string;
+}
+
+// Backend used by the service layer for every model call. The Gemini/Imagen/Veo
+// implementation talks to Google's APIs; the mock one runs fully offline.
+export interface GenerationProvider {
+  id: ProviderId;
+  // Whether the provider has what it needs (API key, AI Studio bridge...) to run.
+  isAvailable: () => boolean;
+  analyzeVideo: (videoBase64: string, mimeType: string, options?: RequestOptions) => Promise<string>;
+  // Same description from frames sampled in order from the video (base64 images).
+  analyzeFrames: (framesBase64: string[], mimeType: string, options?: RequestOptions) => Promise<string>;
+  // Splits the analysis into one description per range, for segmented generation.
+  describeSegments: (analysis: string, ranges: SegmentRange[], options?: RequestOptions) => Promise<string[]>;
+  // Returns base64 PNG bytes of a watermark-free reconstruction of the frame.
+  synthesizeFrame: (imageBase64: string, mimeType: string, options?: FrameOptions) => Promise<string>;
+  // Returns one playable candidate per requested video (`config.numberOfVideos`).
+  // Without a start frame the video is generated from the prompt alone.
+  generateVideo: (
+    startFrameBase64: string | undefined,
+    prompt: string,
+    options?: GenerateVideoOptions
+  ) => Promise<VideoCandidate[]>;
+  // Resumes polling an operation started by `generateVideo` (e.g. before a reload).
+  resumeVideo: (operationName: string, options?: GenerateVideoOptions) => Promise<VideoCandidate[]>;
+}
+
+export interface ConcatOptions {
+  signal?: AbortSignal;
+  // Index of the source being joined and the fraction of it done, 0-1.
+  onProgress?: (index: number, fraction: number) => void;
+}
+
+export interface AudioPolicyOptions {
+  policy: AudioPolicy;
+  // Original source file, for 'keep'.
+  source?: Blob;
+  // Position in the source the outputs start at, seconds.
+  offsetSeconds?: number;
+  signal?: AbortSignal;
+  // Index of the candidate being processed and the fraction of it done, 0-1.
+  onProgress?: (index: number, fraction: number) => void;
+}
+
+// Video decoding and encoding the restoration stages need. The browser does it with
+// <video>, canvas and MediaRecorder (services/browserMedia.ts), the CLI with ffmpeg.
+export interface MediaBackend {
+  // Last frame of a clip as base64 PNG, to seed the next segment.
+  captureLastFrame: (clip: Blob, signal?: AbortSignal) => Promise<string>;
+  // Joins the clips in order into one video.
+  concatVideos: (clips: Blob[], options?: ConcatOptions) => Promise<Blob>;
+  // Applies the audio policy to each candidate, returning candidates with new URLs
+  // for the outputs it re-encoded.
+  applyAudioPolicy: (candidates: VideoCandidate[], options: AudioPolicyOptions) => Promise<VideoCandidate[]>;
+}
+
+// Named look for the output: modifiers for both the keyframe and the video prompt,
+// things to avoid, and the settings it works best with.
+export interface StylePreset {
+  id: string;
+  name: string;
+  // Appended to the keyframe description rendered by Imagen.
+  frameModifier: string;
+  // Fills the prompt template's `{style}` variable.
+  videoModifier: string;
+  // Negative prompt for both the keyframe and the video; empty for none.
+  negativePrompt: string;
+  // Settings applied when the preset is picked.
+  config: Partial<VeoConfig>;
+  builtIn?: boolean;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  // Text with `{variable}` placeholders, e.g. "{analysis} {style}".
+  body: string;
+  // Default values for the template's variables (other than `analysis`).
+  defaults: Record<string, string>;
+  builtIn?: boolean;
+}
+
+// Exactly what produced a run's generation prompt.
+export interface PromptRecord {
+  templateId: string;
+  templateName: string;
+  templateBody: string;
+  // True when the body was edited for this run and differs from the saved template.
+  modified: boolean;
+  values: Record<string, string>;
+  prompt: string;
+}
+
+export interface StageTiming {
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface StoredCandidate extends VideoCandidate {
+  // Local copy of the output, so the job survives the remote URI expiring.
+  blob?: Blob;
+}
+
+// One billable model call, priced from config/pricing.json.
+export interface CostLine {
+  stageId: string;
+  label: string;
+  model: string;
+  amount: number;
+  // False when the model has no entry in the pricing table (amount is then 0).
+  priced: boolean;
+}
+
+export interface CostEstimate {
+  currency: string;
+  total: number;
+  lines: CostLine[];
+}
+
+// Similarity of one sampled output frame to the source frame at the same moment.
+export interface QualityFrameMetrics {
+  // Position in the output, seconds.
+  time: number;
+  // Structural similarity of luminance, -1 to 1 (1 is identical).
+  ssim: number;
+  // Peak signal-to-noise ratio of luminance, dB (capped at 100).
+  psnr: number;
+  // Distance between the RGB histograms, 0 (same colours) to 1.
+  histogramDrift: number;
+  // Mean-brightness jump to the output frame a moment later, 0-1.
+  flicker: number;
+}
+
+// Output-to-source comparison of one candidate (see services/qualityMetrics.ts).
+export interface QualityReport {
+  candidateId: string;
+  computedAt: number;
+  // Position in the source the output was compared from, seconds.
+  sourceOffsetSeconds: number;
+  // Size frames were resampled to before comparing.
+  width: number;
+  height: number;
+  frames: QualityFrameMetrics[];
+  summary: {
+    ssim: number;
+    psnr: number;
+    histogramDrift: number;
+    flicker: number;
+    maxFlicker: number;
+  };
+}
+
+// A run as persisted in the local job history.
+export interface JobRecord {
+  id: string;
+  // Job this one was re-run from, if any.
+  parentJobId?: string;
+  createdAt: number;
+  updatedAt: number;
+  status: 'running' | 'completed' | 'error' | 'cancelled';
+  source: {
+    name: string;
+    mimeType?: string;
+    size?: number;
+    url?: string;
+    width?: number;
+    height?: number;
+    durationSeconds?: number;
+    // SHA-256 of the source file as selected, hex; cited in provenance manifests.
+    sha256?: string;
+  };
+  settings: VeoConfig;
+  // Frame captured from the source, base64 PNG; seeds re-runs without the source file.
+  sourceFrameBase64?: string;
+  analysis?: string;
+  promptRecord?: PromptRecord;
+  // Reconstructed start frame handed to Veo, base64 PNG.
+  startFrameBase64?: string;
+  // Source ranges and scene descriptions of a segmented generation.
+  segments?: SegmentPlanItem[];
+  // Position in the source the output starts at, seconds (the seed frame's time).
+  outputStartSeconds?: number;
+  candidates: StoredCandidate[];
+  winnerId?: string;
+  timings: Record<string, StageTiming>;
+  error?: string;
+  errorKind?: ErrorKind;
+  // Billable calls this job has made so far, at table prices.
+  usage?: CostEstimate;
+  // Service calls made for this job, in order, across retries and re-runs of failed stages.
+  trace?: TraceSpan[];
+  // What the source file said about its origin, and the user's rights confirmation.
+  sourceProvenance?: SourceProvenance;
+  attestation?: RightsAttestation;
+  // Output-to-source comparisons, one per measured candidate.
+  quality?: QualityReport[];
+  // Create mode jobs: the prompt and optional still they were generated from.
+  creation?: CreationInput;
+  // Style preset the keyframe and video were rendered in, as it was at the time.
+  style?: StylePreset;
+}
+
+// Status of a video operation as reported by the local proxy (server/).
+export interface ProxyOperationStatus {
+  name: string;
+  done: boolean;
+  error?: string;
+  errorKind?: ErrorKind;
+  // Same-origin URLs that stream each output through the proxy.
+  videos?: { url: string; expirationTime?: string }[];
+}
+
+// A pasted link downloaded by the proxy (POST /api/ingest).
+export interface IngestedVideo {
+  name: string;
+  // Sniffed from the file's bytes, not the URL or Content-Type.
+  mimeType: string;
+  size: number;
+  base64Data: string;
+  // URL the bytes were finally served from, after redirects.
+  finalUrl: string;
+}
+
+// A frame sampled from the source for seed selection.
+export interface Keyframe {
+  // Position in the source, seconds.
+  time: number;
+  // Scaled-down JPEG; shown in the strip and sent for multi-frame analysis.
+  imageBase64: string;
+  // Variance of the Laplacian; higher is sharper.
+  sharpness: number;
+  // Mean luminance, 0-255.
+  brightness: number;
+  // 0-1; higher makes a better seed frame.
+  score: number;
+  flags: ('dark' | 'bright' | 'blurry')[];
+}
+
+// Download formats of the picked output (see services/postProcess.ts).
+export type ExportFormat = 'mp4' | 'webm' | 'gif' | 'webp';
+
+export type ExportQuality = 'high' | 'balanced' | 'small';
+
+// Local edits applied to the output when it is exported.
+export interface PostProcessEdits {
+  // Kept range of the output, seconds; `trimEndSeconds` null keeps it to the end.
+  trimStartSeconds: number;
+  trimEndSeconds: number | null;
+  // Crops to this aspect ratio; null keeps the output's framing.
+  aspectRatio: AspectRatio | null;
+  // Where the crop sits along the edge it shortens, 0 (left/top) to 1 (right/bottom).
+  cropPosition: number;
+  // Playback speed factor, 0.5-2.
+  speed: number;
+  // Fade in from and out to black, seconds of output; 0 for none.
+  fadeSeconds: number;
+}
+
+// C2PA-style record of how an exported video was made (see services/provenance.ts).
+export interface ProvenanceAssertion {
+  label: string;
+  data: Record<string, unknown>;
+}
+
+export interface ProvenanceManifest {
+  claim_generator: string;
+  title: string;
+  format: string;
+  // ISO timestamp of the export.
+  created: string;
+  assertions: ProvenanceAssertion[];
+}
+
+// What the sidecar holds and what is embedded in MP4 outputs.
+export interface SignedProvenance {
+  manifest: ProvenanceManifest;
+  // Compact JWS (ES256) over the manifest JSON; null if the proxy couldn't sign it.
+  jws: string | null;
+  keyId?: string;
+}
+
+export interface ProvenanceTag {
+  source: 'container' | 'xmp' | 'c2pa';
+  name: string;
+  value: string;
+}
+
+// Provenance metadata read from an input file (see services/sourceProvenance.ts).
+export interface SourceProvenance {
+  inspectedAt: number;
+  // C2PA manifest store embedded in the file.
+  c2pa?: {
+    claimGenerator?: string;
+    // Declares the trainedAlgorithmicMedia digital source type.
+    aiGenerated: boolean;
+  };
+  // Manifest this app writes on export, if the input is one of its own outputs.
+  soraCleaner?: {
+    created: string;
+    jobId?: string;
+    signatureValid: boolean;
+    // Signed with the proxy's own key rather than one named only in the manifest.
+    trustedKey: boolean;
+    hashMatches: boolean;
+    keyId?: string;
+  };
+  tags: ProvenanceTag[];
+  // Plain-language observations for the user, e.g. a generator named in the encoder tag.
+  findings: string[];
+}
+
+// The user's confirmation that they may process a source.
+export interface RightsAttestation {
+  basis: 'owner' | 'licensed';
+  // License or agreement reference, for licensed sources.
+  reference?: string;
+  // Exact wording the user confirmed.
+  statement: string;
+  attestedAt: number;
 }
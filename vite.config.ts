@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -8,16 +9,30 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Model calls and media go through the local proxy (npm run server),
+        // which keeps GEMINI_API_KEY out of the client bundle.
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER),
+        'process.env.VEO_TIMEOUT_MS': JSON.stringify(env.VEO_TIMEOUT_MS),
+        // Empty when unset: an undefined define reaches Vitest as the string "undefined".
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./test/setup.ts'],
+        // Recorded API exchanges stand in for the network (see test/replay.ts).
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules/**'],
       }
     };
 });